@@ -0,0 +1,102 @@
+/**
+ * Audit trail hash chain verification and decision queries
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditTrail } from '../forte-engine/AuditTrail.ts';
+import type { RuleCheckResult } from '../forte-engine/ComplianceEngine.ts';
+import type { TransactionContext } from '../forte-engine/TransactionContext.ts';
+
+const APPLE = { legalEntityIdentifier: 'HWUPKR0MPOU8FGXBT394', recipient: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', principalAmount: 5000000 };
+const CIPLA = { legalEntityIdentifier: '999900CIPLADEMO00148', recipient: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', principalAmount: 2000000 };
+
+function result(compliant: boolean): RuleCheckResult {
+  return {
+    compliant,
+    passedRules: compliant ? ['RULE_01'] : [],
+    failedRules: compliant ? [] : ['RULE_01'],
+    warnings: [],
+    skippedRules: [],
+    evaluationOrder: ['RULE_01'],
+    evaluations: [],
+    adjustments: []
+  } as RuleCheckResult;
+}
+
+/** A log of three decisions: Apple passes, Cipla fails, Apple passes */
+function trail(): { audit: AuditTrail; path: string } {
+  const path = join(mkdtempSync(join(tmpdir(), 'forte-audit-')), 'audit-log.jsonl');
+  const audit = new AuditTrail(path);
+  [[APPLE, true], [CIPLA, false], [APPLE, true]].forEach(([transaction, compliant]) => audit.append({
+    backend: 'local',
+    policyId: 'POLICY_AUDIT_CHECK',
+    transaction: transaction as TransactionContext,
+    result: result(compliant as boolean)
+  }));
+  return { audit, path };
+}
+
+function editLines(path: string, edit: (lines: string[]) => string[]): void {
+  const lines = readFileSync(path, 'utf-8').split('\n').filter(line => line.length > 0);
+  writeFileSync(path, edit(lines).join('\n') + '\n');
+}
+
+function editEntry(path: string, index: number, edit: (entry: any) => void): void {
+  editLines(path, lines => lines.map((line, lineIndex) => {
+    if (lineIndex !== index) return line;
+    const entry = JSON.parse(line);
+    edit(entry);
+    return JSON.stringify(entry);
+  }));
+}
+
+test('a fresh log verifies', () => {
+  const { audit } = trail();
+  const verification = audit.verify();
+  assert.equal(verification.valid, true);
+  assert.equal(verification.entries, 3);
+  assert.equal(verification.headHash, audit.read()[2].hash);
+});
+
+test('an edited transaction breaks the chain at that entry', () => {
+  const { audit, path } = trail();
+  editEntry(path, 1, entry => { entry.transaction.principalAmount = 1; });
+  const verification = audit.verify();
+  assert.equal(verification.valid, false);
+  assert.equal(verification.brokenAt, 2);
+  assert.equal(verification.reason, 'entry content does not match its hash');
+});
+
+test('an edited verdict breaks the chain at that entry', () => {
+  const { audit, path } = trail();
+  editEntry(path, 1, entry => { entry.compliant = true; entry.failedRules = []; });
+  assert.equal(audit.verify().valid, false);
+  assert.equal(audit.verify().brokenAt, 2);
+});
+
+test('a deleted line breaks the chain where it was', () => {
+  const { audit, path } = trail();
+  editLines(path, lines => lines.filter((_, index) => index !== 1));
+  const verification = audit.verify();
+  assert.equal(verification.valid, false);
+  assert.equal(verification.brokenAt, 2);
+  assert.equal(verification.entries, 1);
+});
+
+test('queries filter by LEI, recipient and date range', () => {
+  const { audit } = trail();
+  assert.deepEqual(audit.query({ lei: APPLE.legalEntityIdentifier.toLowerCase() }).map(entry => entry.sequence), [1, 3]);
+  assert.deepEqual(audit.query({ recipient: CIPLA.recipient.toLowerCase() }).map(entry => entry.sequence), [2]);
+
+  // Date-only bounds cover whole UTC days, so today's decisions fall inside from=today, to=today
+  const today = audit.read()[0].recordedAt.slice(0, 10);
+  const yesterday = new Date(Date.parse(today) - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  assert.equal(audit.query({ from: today, to: today }).length, 3);
+  assert.equal(audit.query({ to: yesterday }).length, 0);
+  assert.deepEqual(audit.query({ lei: APPLE.legalEntityIdentifier, to: today }).map(entry => entry.sequence), [1, 3]);
+});
@@ -0,0 +1,52 @@
+/**
+ * BPMN conformance of trade-finance process logs against processes/trade-finance.bpmn
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BPMNConformanceChecker } from '../forte-engine/BPMNConformance.ts';
+import type { TransactionContext } from '../forte-engine/TransactionContext.ts';
+
+const checker = new BPMNConformanceChecker({ path: new URL('../processes', import.meta.url).pathname });
+
+function check(processEvents: string[], processDefinition?: string) {
+  return checker.check({ assetType: 'TRADE_FINANCE', processEvents, processDefinition } as TransactionContext);
+}
+
+function deviations(result: ReturnType<typeof check>): string[] {
+  return result.deviations.map(deviation => `${deviation.kind}:${deviation.activity}`);
+}
+
+test('a complete letter of credit passes with full fitness', () => {
+  const result = check(['Issue Letter of Credit', 'Ship Goods', 'Present Documents', 'Examine Documents', 'Pay Against Documents']);
+  assert.equal(result.fitness, 1);
+  assert.deepEqual(result.deviations, []);
+  assert.deepEqual(result.pending, []);
+});
+
+test('paying straight after issuance skips shipment, presentation and examination', () => {
+  const result = check(['Issue Letter of Credit', 'Pay Against Documents']);
+  assert.deepEqual(deviations(result), ['SKIPPED:Ship Goods', 'SKIPPED:Present Documents', 'SKIPPED:Examine Documents']);
+  assert.equal(result.alignedTrace.at(-1), 'Pay Against Documents');
+  assert.equal(result.fitness, 0.571);
+  assert.ok(result.score < 80);
+});
+
+test('an activity done early is reordered and the ones it jumped over are skipped', () => {
+  const result = check(['Issue Letter of Credit', 'Pay Against Documents', 'Ship Goods']);
+  assert.deepEqual(deviations(result).sort(), ['REORDERED:Ship Goods', 'SKIPPED:Examine Documents', 'SKIPPED:Present Documents']);
+});
+
+test('a letter of credit just issued conforms so far, with the rest of the process pending', () => {
+  const result = check(['Issue Letter of Credit']);
+  assert.equal(result.fitness, 1);
+  assert.deepEqual(result.deviations, []);
+  assert.deepEqual(result.pending, ['Ship Goods', 'Present Documents', 'Examine Documents', 'Pay Against Documents']);
+});
+
+test('processDefinition paths outside the models directory are refused', () => {
+  assert.throws(() => check(['Issue Letter of Credit'], '/etc/hostname'), /must be a name relative to/);
+  assert.throws(() => check(['Issue Letter of Credit'], '../package.json'), /resolves outside/);
+  assert.equal(check(['Issue Letter of Credit'], 'trade-finance.bpmn').fitness, 1);
+});
@@ -0,0 +1,41 @@
+/**
+ * The local FORTE Cloud stand-in: registrations under the client's policy ID and API key redaction
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { ForteCloudServer } from '../forte-cloud-server.ts';
+import { CloudComplianceEngine } from '../forte-engine/CloudComplianceEngine.ts';
+import { policyIdFor } from '../forte-engine/PolicyStore.ts';
+
+const policy = JSON.parse(readFileSync(new URL('../policies/institutional-rwa-complete.json', import.meta.url), 'utf-8'));
+
+async function withServer(apiKey: string, run: (server: ForteCloudServer, engine: CloudComplianceEngine) => Promise<void>): Promise<void> {
+  const server = new ForteCloudServer({ apiKeys: [apiKey], quiet: true });
+  const port = await server.start(0);
+  try {
+    await run(server, new CloudComplianceEngine({ apiUrl: `http://127.0.0.1:${port}`, apiKey }));
+  } finally {
+    await server.stop();
+  }
+}
+
+test('a policy with extra top-level fields registers under the ID the client derived', async () => {
+  await withServer('local-test-key', async (_server, engine) => {
+    const extended = { ...policy, owner: 'treasury-operations' };
+    const policyId = policyIdFor(extended);
+    assert.equal(await engine.registerPolicy(extended, policyId), policyId);
+  });
+});
+
+test('the request log never contains any part of the API key', async () => {
+  await withServer('k1', async (server, engine) => {
+    await engine.registerPolicy(policy, policyIdFor(policy));
+    const [entry] = server.getRequestLog();
+    assert.equal(entry.apiKey, `sha256:${createHash('sha256').update('k1').digest('hex').slice(0, 8)}`);
+    assert.ok(!JSON.stringify(server.getRequestLog()).includes('k1'));
+  });
+});
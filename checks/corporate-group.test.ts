@@ -0,0 +1,51 @@
+/**
+ * Corporate group sanctions screening: sanctioned, clean and unresolvable parents
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { builtinConditions } from '../forte-engine/BuiltinConditions.ts';
+import type { RuleEvidence } from '../forte-engine/ConditionInterpreter.ts';
+
+// RULE_03 denies at or above this score
+const STRONG_MATCH = 0.92;
+
+function screen(lei: string): { score: number; evidence: RuleEvidence[] } {
+  const evidence: RuleEvidence[] = [];
+  const score = builtinConditions.corporateGroupSanctionsScore.implementation([lei], { data: {}, policy: {}, evidence } as any);
+  return { score, evidence };
+}
+
+test('a subsidiary of a sanctioned ultimate parent scores as a strong match', () => {
+  const { score, evidence } = screen('999900NWCOMMDEMO0109');
+  assert.ok(score >= STRONG_MATCH, `score ${score}`);
+  assert.ok(evidence.some(item => item.type === 'CORPORATE_GROUP_SANCTIONS' && item.details.parentLei === '999900SEVTRADDEMO196'));
+});
+
+test('a subsidiary of a clean parent stays below the strong match threshold', () => {
+  const { score, evidence } = screen('999900TESTCORPEU0106');
+  assert.ok(score < STRONG_MATCH, `score ${score}`);
+  assert.deepEqual(evidence, []);
+});
+
+test('a parent missing from the golden copy fails closed with an unresolved warning', () => {
+  const relationships = readFileSync(new URL('../fixtures/gleif/relationships.csv', import.meta.url), 'utf-8').trimEnd()
+    + '\n"999900ORPHANDEMO0100","LEI","999900GHOSTDEMO00100","LEI","IS_DIRECTLY_CONSOLIDATED_BY","ACTIVE","PUBLISHED"\n';
+  const path = join(mkdtempSync(join(tmpdir(), 'forte-group-')), 'relationships.csv');
+  writeFileSync(path, relationships);
+
+  const previous = process.env.FORTE_GLEIF_RELATIONSHIPS_PATH;
+  process.env.FORTE_GLEIF_RELATIONSHIPS_PATH = path;
+  try {
+    const { score, evidence } = screen('999900ORPHANDEMO0100');
+    assert.equal(score, 1);
+    assert.deepEqual(evidence.map(item => [item.type, item.details.parentLei]), [['CORPORATE_GROUP_UNRESOLVED', '999900GHOSTDEMO00100']]);
+  } finally {
+    if (previous === undefined) delete process.env.FORTE_GLEIF_RELATIONSHIPS_PATH;
+    else process.env.FORTE_GLEIF_RELATIONSHIPS_PATH = previous;
+  }
+});
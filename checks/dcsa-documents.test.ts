@@ -0,0 +1,91 @@
+/**
+ * DCSA document hashing and RULE_07 verification against the offline Cipla eBL and booking (fixtures/dcsa),
+ * and the policy's DCSA requirements for document sets without DCSA documents
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { DCSADocumentVerifier, dcsaDocumentHash } from '../forte-engine/DCSADocuments.ts';
+import type { DCSARequirements } from '../forte-engine/DCSADocuments.ts';
+import type { TransactionContext } from '../forte-engine/TransactionContext.ts';
+
+const FIXTURES = new URL('../fixtures/dcsa/', import.meta.url);
+const POLICY = JSON.parse(readFileSync(new URL('../policies/institutional-rwa-complete.json', import.meta.url), 'utf-8'));
+const POLICY_REQUIREMENTS: DCSARequirements = POLICY.complianceThresholds.dcsaDocuments;
+const EBL = 'cipla-ebl-INNSA-USNYC.json';
+const BOOKING = 'cipla-booking-INNSA-USNYC.json';
+/** The documentHash the demos declare for the Cipla export */
+const CIPLA_DOCUMENT_HASH = '0x449d23759a6b10f8d5d36d6cb6111ed8f71539ae34f9ea3357b938820758b775';
+
+const verifier = new DCSADocumentVerifier({ path: fileURLToPath(FIXTURES) });
+
+function ciplaExport(overrides: Partial<TransactionContext> = {}): TransactionContext {
+  return {
+    corporateName: 'CIPLA LIMITED',
+    assetType: 'TRADE_FINANCE',
+    sellerCountry: 'IN',
+    buyerCountry: 'US',
+    documentHash: CIPLA_DOCUMENT_HASH,
+    tradeDocuments: [EBL, BOOKING, 'fda_approval.pdf'],
+    ...overrides
+  } as TransactionContext;
+}
+
+function fixture(name: string): any {
+  return JSON.parse(readFileSync(new URL(name, FIXTURES), 'utf-8'));
+}
+
+test('the fixture documents hash to the demos\' declared documentHash', () => {
+  assert.equal(verifier.documentHash([EBL, BOOKING]), CIPLA_DOCUMENT_HASH);
+});
+
+test('the hash ignores document order, key order and non-DCSA entries', () => {
+  const ebl = fixture(EBL);
+  const reordered = Object.fromEntries(Object.entries(ebl).reverse());
+  assert.equal(dcsaDocumentHash([fixture(BOOKING), reordered]), CIPLA_DOCUMENT_HASH);
+  assert.equal(verifier.documentHash(['export_license.pdf', BOOKING, EBL]), CIPLA_DOCUMENT_HASH);
+});
+
+test('a matching declared hash verifies', () => {
+  const verification = verifier.verify(ciplaExport());
+  assert.equal(verification.verified, true, verification.reason);
+  assert.deepEqual(verification.documents.map(document => document.type), ['TRANSPORT_DOCUMENT', 'BOOKING']);
+  assert.deepEqual(verification.unstructured, ['fda_approval.pdf']);
+});
+
+test('a different declared hash fails', () => {
+  const verification = verifier.verify(ciplaExport({ documentHash: '0x' + '1'.repeat(64) }));
+  assert.equal(verification.verified, false);
+  assert.match(verification.reason, /does not match the DCSA documents/);
+});
+
+test('dropping the eBL changes the hash and fails a trade finance asset', () => {
+  assert.notEqual(verifier.documentHash([BOOKING]), CIPLA_DOCUMENT_HASH);
+  const verification = verifier.verify(ciplaExport({ tradeDocuments: [BOOKING] }));
+  assert.equal(verification.verified, false);
+  assert.match(verification.reason, /need a valid DCSA electronic Bill of Lading/);
+});
+
+test('names outside the documents directory are refused', () => {
+  const verification = verifier.verify(ciplaExport({ tradeDocuments: [EBL, BOOKING, '../../package.json'] }));
+  assert.equal(verification.verified, false);
+  assert.match(verification.reason, /resolves outside/);
+  assert.equal(verifier.documentHash([EBL, BOOKING, '../../package.json']), CIPLA_DOCUMENT_HASH);
+});
+
+test('a non-exempt asset with only unstructured documents fails whatever hash it declares', () => {
+  const invoice = ciplaExport({ assetType: 'SUPPLY_CHAIN_INVOICE', documentHash: '0x1234567890abcdef', tradeDocuments: ['invoice_001.pdf', 'bill_of_lading.pdf'] });
+  const verification = verifier.verify(invoice, POLICY_REQUIREMENTS);
+  assert.equal(verification.verified, false);
+  assert.match(verification.reason, /no DCSA document in tradeDocuments could be parsed and hashed/);
+});
+
+test('asset types the policy exempts keep the declared-hash and file-count check', () => {
+  const lease = ciplaExport({ assetType: 'EQUIPMENT_FINANCE', documentHash: '0x' + '1'.repeat(64), tradeDocuments: ['lease_agreement.pdf'] });
+  assert.equal(verifier.verify(lease, POLICY_REQUIREMENTS).verified, true);
+  assert.equal(verifier.verify(lease).verified, false, 'only the policy exempts asset types');
+  assert.equal(verifier.verify({ ...lease, documentHash: '0x' + '0'.repeat(40) }, POLICY_REQUIREMENTS).verified, false);
+});
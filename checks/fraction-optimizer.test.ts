@@ -0,0 +1,68 @@
+/**
+ * Fraction optimizer against the policy's RULE_08 count range, RULE_10 minimums and RULE_11 sweet spot
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { fractionSettingsFromPolicy, optimizeFractions } from '../forte-engine/FractionOptimizer.ts';
+import type { AssetType } from '../forte-engine/TransactionContext.ts';
+
+const policy = JSON.parse(readFileSync(new URL('../policies/institutional-rwa-complete.json', import.meta.url), 'utf-8'));
+const fractionSizes: { [assetType: string]: number } = policy.complianceThresholds.fractionSizes;
+
+// RULE_08 calculateOptimalFractions, RULE_10 checkMinimumFractionSize and RULE_11 checkSweetSpotRange values
+const COUNT_RANGE = [10, 10000];
+const RULE_MINIMUM = 500;
+const SWEET_SPOT = [100, 5000];
+
+const ASSETS: Array<[AssetType, number]> = [
+  ['TRADE_FINANCE', 5_000_000],
+  ['SUPPLY_CHAIN_INVOICE', 2_500_000],
+  ['EQUIPMENT_FINANCE', 1_234_567],
+  ['STRUCTURED_PRODUCTS', 50_000_000]
+];
+
+test('the settings carry the policy\'s count range, sweet spot and the larger of the RULE_10 and asset-type minimums', () => {
+  for (const [assetType] of ASSETS) {
+    const settings = fractionSettingsFromPolicy(policy, { assetType });
+    assert.deepEqual(settings.countRange, COUNT_RANGE);
+    assert.deepEqual(settings.sweetSpot, SWEET_SPOT);
+    assert.equal(settings.minimumTicket, Math.max(RULE_MINIMUM, fractionSizes[assetType]), assetType);
+  }
+});
+
+test('the chosen count is inside the RULE_08 range and the RULE_11 sweet spot, with fractions no smaller than the minimum', () => {
+  for (const [assetType, principalAmount] of ASSETS) {
+    const result = optimizeFractions(principalAmount, fractionSettingsFromPolicy(policy, { assetType }));
+    assert.ok(result.totalFractions >= COUNT_RANGE[0] && result.totalFractions <= COUNT_RANGE[1], `${assetType}: ${result.totalFractions} fractions`);
+    assert.ok(result.totalFractions >= SWEET_SPOT[0] && result.totalFractions <= SWEET_SPOT[1], `${assetType}: ${result.totalFractions} fractions`);
+    assert.ok(result.minimumFractionSize >= Math.max(RULE_MINIMUM, fractionSizes[assetType]), `${assetType}: $${result.minimumFractionSize}`);
+  }
+});
+
+test('the fractions and the residual add up to the principal', () => {
+  for (const [assetType, principalAmount] of ASSETS) {
+    const result = optimizeFractions(principalAmount, fractionSettingsFromPolicy(policy, { assetType }));
+    assert.ok(result.residual >= 0 && result.residual < result.totalFractions, `${assetType}: residual ${result.residual}`);
+    assert.equal(result.totalFractions * result.minimumFractionSize + result.residual, principalAmount, assetType);
+  }
+  // 2,500,000 over the chosen count does not divide evenly
+  assert.ok(optimizeFractions(2_500_000, fractionSettingsFromPolicy(policy, { assetType: 'SUPPLY_CHAIN_INVOICE' })).residual > 0);
+});
+
+test('a reachable liquidity target picks the fewest qualifying fractions', () => {
+  const targetLiquidity = 500_000;
+  const result = optimizeFractions(2_500_000, fractionSettingsFromPolicy(policy, { assetType: 'SUPPLY_CHAIN_INVOICE', targetLiquidity }));
+  assert.equal(result.meetsLiquidityTarget, true);
+  assert.ok(result.expectedLiquidity >= targetLiquidity);
+  const fewer = result.curve.filter(candidate => candidate.inSweetSpot && candidate.totalFractions < result.totalFractions);
+  assert.ok(fewer.length > 0);
+  assert.ok(fewer.every(candidate => candidate.expectedLiquidity < targetLiquidity));
+});
+
+test('a principal below the minimum ticket is refused', () => {
+  const settings = fractionSettingsFromPolicy(policy, { assetType: 'EQUIPMENT_FINANCE' });
+  assert.throws(() => optimizeFractions(9_999, settings), /below the \$10,000 minimum fraction/);
+});
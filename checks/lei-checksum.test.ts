@@ -0,0 +1,37 @@
+/**
+ * ISO 17442 LEI format and MOD 97-10 check digits
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { isValidLEI, leiCheckDigitsValid, parseGLEIFGoldenCopyCsv, validateLEI } from '../forte-engine/GLEIFGoldenCopy.ts';
+
+test('published LEIs pass', () => {
+  for (const lei of ['HWUPKR0MPOU8FGXBT394', 'INR2EJN1ERAN0W5ZP974', 'W38RGI023J3WT1HWRP32']) {
+    assert.equal(validateLEI(lei), undefined, lei);
+    assert.equal(isValidLEI(lei), true, lei);
+  }
+});
+
+test('every LEI in the golden-copy fixture passes', () => {
+  const records = parseGLEIFGoldenCopyCsv(readFileSync(new URL('../fixtures/gleif/golden-copy.csv', import.meta.url), 'utf-8'));
+  assert.ok(records.length > 0);
+  for (const record of records) {
+    assert.equal(validateLEI(record.lei), undefined, record.lei);
+  }
+});
+
+test('a changed check digit or swapped characters fail the checksum', () => {
+  assert.equal(validateLEI('HWUPKR0MPOU8FGXBT395'), 'CHECKSUM');
+  assert.equal(validateLEI('HWUPKR0MPOU8FGXTB394'), 'CHECKSUM');
+  assert.equal(leiCheckDigitsValid('INR2EJN1ERAN0W5ZP947'), false);
+});
+
+test('malformed identifiers report the first rule they break', () => {
+  assert.equal(validateLEI('HWUPKR0MPOU8FGXBT39'), 'LENGTH');
+  assert.equal(validateLEI('hwupkr0mpou8fgxbt394'), 'CHARACTER_SET');
+  assert.equal(validateLEI('HWUPKR0MPOU8FGXBT3A4'), 'CHARACTER_SET');
+  assert.equal(isValidLEI(''), false);
+});
@@ -0,0 +1,35 @@
+/**
+ * The policy's metadata score tiers; test/InstitutionalAssetParams.t.sol asserts the same table on-chain
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { metadataThresholdParity, resolveMetadataThreshold } from '../forte-engine/MetadataThresholds.ts';
+import type { AssetType } from '../forte-engine/TransactionContext.ts';
+
+const policy = JSON.parse(readFileSync(new URL('../policies/institutional-rwa-complete.json', import.meta.url), 'utf-8'));
+const metadataScore = policy.complianceThresholds.metadataScore;
+
+const BOUNDARIES = [0, 999_999, 1_000_000, 4_999_999, 5_000_000, 9_999_999, 10_000_000];
+const EXPECTED: Array<[AssetType[], number[]]> = [
+  [['SUPPLY_CHAIN_INVOICE', 'EQUIPMENT_FINANCE', 'WORKING_CAPITAL', 'COMMERCIAL_REAL_ESTATE', 'CORPORATE_BONDS'], [70, 70, 75, 75, 85, 85, 95]],
+  [['TRADE_FINANCE'], [73, 73, 78, 78, 88, 88, 98]],
+  [['STRUCTURED_PRODUCTS'], [75, 75, 80, 80, 90, 90, 100]]
+];
+
+test('the policy requires the scores the forge test expects from getMinimumMetadataScore', () => {
+  for (const [assetTypes, scores] of EXPECTED) {
+    for (const assetType of assetTypes) {
+      const required = BOUNDARIES.map(principalAmount => resolveMetadataThreshold(metadataScore, { assetType, principalAmount }).requiredScore);
+      assert.deepEqual(required, scores, assetType);
+    }
+  }
+});
+
+test('the source-level parity check agrees with the contract source', () => {
+  const parity = metadataThresholdParity(metadataScore, readFileSync(new URL('../src/InstitutionalAssetParams.sol', import.meta.url), 'utf-8'));
+  assert.equal(parity.inParity, true);
+  assert.deepEqual(parity.mismatches, []);
+});
@@ -0,0 +1,80 @@
+/**
+ * Fuzzy name scores against the review and deny thresholds of the institutional policy (RULE_15)
+ * Run with: npm run test-checks
+ */
+
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { nameSimilarity } from '../forte-engine/NameMatcher.ts';
+import { OFAC_SDN_LIST_ID, loadOFACSdn } from '../forte-engine/OFACSdnParser.ts';
+import { SanctionsScreeningService } from '../forte-engine/SanctionsScreening.ts';
+
+const policy = JSON.parse(readFileSync(new URL('../policies/institutional-rwa-complete.json', import.meta.url), 'utf-8'));
+const reviewRule = policy.rules.find((rule: any) => rule.ruleId === 'RULE_15');
+const REVIEW_SCORE: number = reviewRule.conditions.or.find((condition: any) => condition.comparison === 'lessThan').value;
+const DENY_SCORE: number = reviewRule.conditions.or.find((condition: any) => condition.comparison === 'greaterThanOrEqual').value;
+
+const storeDir = mkdtempSync(join(tmpdir(), 'forte-checks-names-'));
+const screening = new SanctionsScreeningService({
+  storeDir,
+  sources: [{
+    listId: OFAC_SDN_LIST_ID,
+    path: fileURLToPath(new URL('../fixtures/sanctions/ofac-sdn.xml', import.meta.url)),
+    load: loadOFACSdn
+  }]
+});
+
+after(() => rmSync(storeDir, { recursive: true, force: true }));
+
+test('thresholds are read from the policy', () => {
+  assert.ok(REVIEW_SCORE > 0 && REVIEW_SCORE < DENY_SCORE && DENY_SCORE <= 1);
+});
+
+test('shared generic or partial names stay below review', () => {
+  for (const [a, b] of [
+    ['APPLE INC', 'APPLE HOSPITALITY'],
+    ['BANK', 'BANK MELLI'],
+    ['SHIPPING CO', 'CASPIAN HORIZON SHIPPING CO.'],
+    ['Horizon Shipping', 'CASPIAN HORIZON SHIPPING CO.']
+  ]) {
+    const score = nameSimilarity(a, b);
+    assert.ok(score < REVIEW_SCORE, `${a} vs ${b} scored ${score}`);
+  }
+});
+
+test('near misses on a distinctive token fall in the review band', () => {
+  for (const [a, b] of [
+    ['Rostov Marine', 'ROSTOK MARINE'],
+    ['Kaspian Horizon Shipping', 'CASPIAN HORIZON SHIPPING CO.'],
+    ['Ivan Petrov', 'PETROV, Ivan Sergeyevich']
+  ]) {
+    const score = nameSimilarity(a, b);
+    assert.ok(score >= REVIEW_SCORE && score < DENY_SCORE, `${a} vs ${b} scored ${score}`);
+  }
+});
+
+test('transliterations, legal suffixes and generic descriptors reach deny', () => {
+  for (const [a, b] of [
+    ['ROSNEFT', 'ROSNEFT OIL CO'],
+    ['PETROFF', 'PETROV'],
+    ['CIPLA LIMITED', 'Cipla Ltd.']
+  ]) {
+    const score = nameSimilarity(a, b);
+    assert.ok(score >= DENY_SCORE, `${a} vs ${b} scored ${score}`);
+  }
+});
+
+test('ROSNEFT is denied against the ROSNEFT OIL CO list entry', () => {
+  const best = screening.screenName('ROSNEFT').matches[0];
+  assert.equal(best?.name, 'ROSNEFT OIL CO');
+  assert.ok(best.score >= DENY_SCORE, `scored ${best?.score}`);
+});
+
+test('a generic name alone raises no list match worth reviewing', () => {
+  const best = screening.screenName('Shipping Co').matches[0];
+  assert.ok(!best || best.score < REVIEW_SCORE, `scored ${best?.score}`);
+});
@@ -0,0 +1,61 @@
+/**
+ * OFAC SDN screening against the offline fixture list (fixtures/sanctions/ofac-sdn.xml)
+ * Run with: npm run test-checks
+ */
+
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { OFAC_SDN_LIST_ID, loadOFACSdn } from '../forte-engine/OFACSdnParser.ts';
+import { SanctionsScreeningService } from '../forte-engine/SanctionsScreening.ts';
+
+const storeDir = mkdtempSync(join(tmpdir(), 'forte-checks-ofac-'));
+const screening = new SanctionsScreeningService({
+  storeDir,
+  sources: [{
+    listId: OFAC_SDN_LIST_ID,
+    path: fileURLToPath(new URL('../fixtures/sanctions/ofac-sdn.xml', import.meta.url)),
+    load: loadOFACSdn
+  }]
+});
+
+after(() => rmSync(storeDir, { recursive: true, force: true }));
+
+test('listed ETH addresses are hits', () => {
+  for (const address of ['0x1111111111111111111111111111111111111111', '0x2222222222222222222222222222222222222222']) {
+    const result = screening.screenAddress(address);
+    assert.equal(result.matched, true, address);
+    assert.equal(result.matches[0].listId, OFAC_SDN_LIST_ID);
+    assert.equal(result.matches[0].matchedOn, 'digitalCurrencyAddress');
+    assert.equal(result.matches[0].score, 1);
+  }
+});
+
+test('listed BTC and TRON addresses are hits', () => {
+  assert.equal(screening.screenAddress('bc1qdemsanctnsfxtuream2dress7xyzqqqqqqqq').matches[0]?.name, 'NORTHWIND MIXING SERVICES');
+  assert.equal(screening.screenAddress('TDemoSanctionsFixtureTronAddr1111').matches[0]?.name, 'NORTHWIND MIXING SERVICES');
+});
+
+test('an unlisted address is clear and reports the list version screened', () => {
+  const result = screening.screenAddress('0x742d35Cc6634C0532925a3b844Bc454e4438f44e');
+  assert.equal(result.matched, false);
+  assert.deepEqual(result.lists.map(list => list.listId), [OFAC_SDN_LIST_ID]);
+  assert.ok(result.lists[0].version);
+});
+
+test('a primary name and an alias are exact name hits', () => {
+  const primary = screening.screenName('Northwind Mixing Services');
+  assert.equal(primary.matches[0]?.name, 'NORTHWIND MIXING SERVICES');
+  assert.equal(primary.matches[0]?.score, 1);
+
+  const alias = screening.screenName('DSWO');
+  assert.equal(alias.matches[0]?.name, 'DEMO SANCTIONED WALLET OPERATOR LTD');
+  assert.equal(alias.matches[0]?.matchedValue, 'DSWO');
+});
+
+test('an unrelated name is clear', () => {
+  assert.equal(screening.screenName('Cipla Limited').matched, false);
+});
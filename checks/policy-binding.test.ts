@@ -0,0 +1,113 @@
+/**
+ * Contract policy bindings: apply, un-apply, re-apply, rollback and contract-scoped rule checks
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ForteSDKManager } from '../sdk.ts';
+import { PolicyStore } from '../forte-engine/PolicyStore.ts';
+import { PolicyBindingLedger } from '../forte-engine/PolicyBindingLedger.ts';
+import { AuditTrail } from '../forte-engine/AuditTrail.ts';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const CHAIN = '31337';
+
+function principalLimitPolicy(policyVersion: string, limit: number): any {
+  return {
+    policyVersion,
+    policyName: 'BINDING_CHECK',
+    description: `Principal at most ${limit}`,
+    rules: [{
+      ruleId: 'RULE_01',
+      name: 'Principal Limit',
+      priority: 'CRITICAL',
+      action: 'DENY',
+      conditions: { function: 'principal', params: ['principalAmount'], comparison: 'lessThanOrEqual', value: limit }
+    }],
+    ruleChain: ['RULE_01'],
+    zkPretIntegrations: {}
+  };
+}
+
+/** SDK over temp-dir stores that counts the applications reaching the engine */
+class BindingCheckSDK extends ForteSDKManager {
+  engineApplications = 0;
+
+  constructor(store: PolicyStore, directory: string) {
+    super(
+      { backend: 'local' },
+      store,
+      new PolicyBindingLedger(join(directory, 'policy-bindings.json')),
+      new AuditTrail(join(directory, 'audit-log.jsonl'))
+    );
+    this.registerConditionFunction('principal', { params: ['number'], returns: 'number' }, ([amount]) => amount);
+    const apply = this.engine.applyPolicy.bind(this.engine);
+    this.engine.applyPolicy = (...args) => {
+      this.engineApplications++;
+      return apply(...args);
+    };
+  }
+}
+
+function setup() {
+  const directory = mkdtempSync(join(tmpdir(), 'forte-binding-'));
+  const store = new PolicyStore(join(directory, 'policy-registry.json'));
+  const first = store.register(principalLimitPolicy('1.0.0', 1000));
+  const second = store.register(principalLimitPolicy('1.1.0', 10));
+  const third = store.register(principalLimitPolicy('1.2.0', 5));
+  return { sdk: new BindingCheckSDK(store, directory), first, second, third };
+}
+
+test('un-applying twice is refused', async () => {
+  const { sdk, first } = setup();
+  assert.equal(await sdk.applyPolicy(first.policyId, CONTRACT, CHAIN), true);
+  assert.equal(sdk.unapplyPolicy(CONTRACT, CHAIN).status, 'UNAPPLIED');
+  assert.throws(() => sdk.unapplyPolicy(CONTRACT, CHAIN), /has no active policy to un-apply/);
+});
+
+test('re-applying restores the un-applied binding', async () => {
+  const { sdk, second } = setup();
+  await sdk.applyPolicy(second.policyId, CONTRACT, CHAIN);
+  sdk.unapplyPolicy(CONTRACT, CHAIN);
+
+  const binding = await sdk.reapplyPolicy(CONTRACT, CHAIN);
+  assert.equal(binding.status, 'ACTIVE');
+  assert.equal(binding.policyId, second.policyId);
+  assert.deepEqual(sdk.getContractBindingHistory(CONTRACT, CHAIN).map(event => event.type), ['APPLY', 'UNAPPLY', 'REAPPLY']);
+  await assert.rejects(sdk.reapplyPolicy(CONTRACT, CHAIN), /has no un-applied policy to re-apply/);
+});
+
+test('a contract rolls back only to versions it was bound to', async () => {
+  const { sdk, first, second, third } = setup();
+  await sdk.applyPolicy(first.policyId, CONTRACT, CHAIN);
+  await sdk.applyPolicy(second.policyId, CONTRACT, CHAIN);
+
+  await assert.rejects(sdk.rollbackContractPolicy(CONTRACT, CHAIN, third.policyId), /was never bound to/);
+  assert.equal(sdk.getContractPolicy(CONTRACT, CHAIN).policyId, second.policyId);
+
+  const binding = await sdk.rollbackContractPolicy(CONTRACT, CHAIN);
+  assert.equal(binding.policyId, first.policyId);
+});
+
+test('contract-scoped checks use the bound version and refuse an un-applied contract', async () => {
+  const { sdk, first } = setup();
+  await sdk.applyPolicy(first.policyId, CONTRACT, CHAIN);
+  const result = await sdk.checkRulesForContract(CONTRACT, { principalAmount: 500 }, {}, CHAIN);
+  assert.equal(result.compliant, true);
+  assert.equal(result.policy.policyId, first.policyId);
+  assert.equal(sdk.queryAuditTrail({ contractAddress: CONTRACT }).length, 1);
+
+  sdk.unapplyPolicy(CONTRACT, CHAIN);
+  await assert.rejects(sdk.checkRulesForContract(CONTRACT, { principalAmount: 500 }, {}, CHAIN), /has no applied policy/);
+});
+
+test('a policy missing from the store is refused before it reaches the engine', async () => {
+  const { sdk } = setup();
+  assert.equal(await sdk.applyPolicy('POLICY_CLOUD_ONLY_0123456789ab', CONTRACT, CHAIN), false);
+  assert.equal(sdk.engineApplications, 0);
+  assert.equal(sdk.getContractPolicy(CONTRACT, CHAIN), undefined);
+});
@@ -0,0 +1,88 @@
+/**
+ * Exact policy IDs pin a version; policy names follow the active version through a rollback
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ForteSDKManager } from '../sdk.ts';
+import { PolicyStore } from '../forte-engine/PolicyStore.ts';
+import { PolicyBindingLedger } from '../forte-engine/PolicyBindingLedger.ts';
+import { AuditTrail } from '../forte-engine/AuditTrail.ts';
+
+function principalLimitPolicy(policyVersion: string, limit: number): any {
+  return {
+    policyVersion,
+    policyName: 'ROLLBACK_CHECK',
+    description: `Principal at most ${limit}`,
+    rules: [{
+      ruleId: 'RULE_01',
+      name: 'Principal Limit',
+      priority: 'CRITICAL',
+      action: 'DENY',
+      conditions: { function: 'principal', params: ['principalAmount'], comparison: 'lessThanOrEqual', value: limit }
+    }],
+    ruleChain: ['RULE_01'],
+    zkPretIntegrations: {}
+  };
+}
+
+function managerIn(directory: string, store: PolicyStore = new PolicyStore(join(directory, 'policy-registry.json'))): ForteSDKManager {
+  const sdk = new ForteSDKManager(
+    { backend: 'local' },
+    store,
+    new PolicyBindingLedger(join(directory, 'policy-bindings.json')),
+    new AuditTrail(join(directory, 'audit-log.jsonl'))
+  );
+  sdk.registerConditionFunction('principal', { params: ['number'], returns: 'number' }, ([amount]) => amount);
+  return sdk;
+}
+
+test('a policyId pins its version; a rollback only changes what the policy name resolves to', async () => {
+  const directory = mkdtempSync(join(tmpdir(), 'forte-rollback-'));
+  const sdk = managerIn(directory);
+  const paths = [principalLimitPolicy('1.0.0', 1000), principalLimitPolicy('1.1.0', 10)].map((policy, index) => {
+    const path = join(directory, `policy-v${index + 1}.json`);
+    writeFileSync(path, JSON.stringify(policy));
+    return path;
+  });
+  const firstId = await sdk.setupPolicy(paths[0]);
+  const secondId = await sdk.setupPolicy(paths[1]);
+  const transfer = { principalAmount: 500 };
+
+  const byName = await sdk.checkRules('ROLLBACK_CHECK', transfer);
+  assert.equal(byName.compliant, false);
+  assert.equal(byName.policy.policyId, secondId);
+
+  sdk.rollbackPolicy('ROLLBACK_CHECK');
+
+  const pinned = await sdk.checkRules(secondId, transfer);
+  assert.equal(pinned.compliant, false);
+  assert.equal(pinned.policy.policyId, secondId);
+  assert.equal(sdk.queryAuditTrail().at(-1).policyId, secondId);
+
+  const rolledBack = await sdk.checkRules('ROLLBACK_CHECK', transfer);
+  assert.equal(rolledBack.compliant, true);
+  assert.equal(rolledBack.policy.policyId, firstId);
+  assert.equal(sdk.queryAuditTrail().at(-1).policyId, firstId);
+});
+
+test('applyPolicy binds the exact version given, or the active version for a policy name', async () => {
+  const directory = mkdtempSync(join(tmpdir(), 'forte-rollback-'));
+  const store = new PolicyStore(join(directory, 'policy-registry.json'));
+  const first = store.register(principalLimitPolicy('1.0.0', 1000));
+  const second = store.register(principalLimitPolicy('1.1.0', 10));
+  const sdk = managerIn(directory, store);
+  sdk.rollbackPolicy('ROLLBACK_CHECK');
+
+  const pinned = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+  assert.equal(await sdk.applyPolicy(second.policyId, pinned, '31337'), true);
+  assert.equal(sdk.getContractPolicy(pinned, '31337').policyId, second.policyId);
+
+  const active = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+  assert.equal(await sdk.applyPolicy('ROLLBACK_CHECK', active, '31337'), true);
+  assert.equal(sdk.getContractPolicy(active, '31337').policyId, first.policyId);
+});
@@ -0,0 +1,58 @@
+/**
+ * The replay backend returns recorded verdicts from fixtures/replay and refuses transactions it has no recording for
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createComplianceEngine } from '../forte-engine/ComplianceEngine.ts';
+import type { TransactionContext } from '../forte-engine/TransactionContext.ts';
+
+const fixturePath = new URL('../fixtures/replay/principal-limit.json', import.meta.url).pathname;
+
+// The recorded policy; the `principal` condition it uses is not registered here, so nothing is evaluated
+const policy = {
+  policyName: 'REPLAY_CHECK',
+  policyVersion: '1.0.0',
+  description: 'Principal at most 1000',
+  rules: [{
+    ruleId: 'RULE_01',
+    name: 'Principal Limit',
+    priority: 'CRITICAL',
+    action: 'DENY',
+    conditions: { function: 'principal', params: ['principalAmount'], comparison: 'lessThanOrEqual', value: 1000 },
+    message: 'Principal above the limit'
+  }],
+  ruleChain: ['RULE_01']
+};
+
+async function replay() {
+  const engine = createComplianceEngine({ backend: 'replay', fixturePath });
+  return { engine, policyId: await engine.registerPolicy(policy) };
+}
+
+test('recorded verdicts are replayed', async () => {
+  const { engine, policyId } = await replay();
+
+  const within = await engine.checkRules(policyId, { principalAmount: 500 } as TransactionContext);
+  assert.equal(within.compliant, true);
+  assert.deepEqual(within.passedRules, ['RULE_01']);
+
+  const above = await engine.checkRules(policyId, { principalAmount: 5000 } as TransactionContext);
+  assert.equal(above.compliant, false);
+  assert.deepEqual(above.failedRules, ['RULE_01']);
+  assert.equal(above.evaluations[0].reason, 'principal(principalAmount) = 5000, expected lessThanOrEqual 1000');
+  assert.equal(above.policy.policyId, policyId);
+});
+
+test('a transaction with no recording is an error, not a verdict', async () => {
+  const { engine, policyId } = await replay();
+  await assert.rejects(
+    engine.checkRules(policyId, { principalAmount: 501 } as TransactionContext),
+    /No recorded FORTE result for REPLAY_CHECK 1\.0\.0/
+  );
+  await assert.rejects(
+    engine.checkRules(policyId, { principalAmount: 500 } as TransactionContext, { mode: 'stopOnCriticalDeny' }),
+    /No recorded FORTE result/
+  );
+});
@@ -0,0 +1,77 @@
+/**
+ * How LocalComplianceEngine classifies rules whose condition or adjustment functions throw
+ * Run with: npm run test-checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalComplianceEngine } from '../forte-engine/LocalComplianceEngine.ts';
+import { ConditionRegistry } from '../forte-engine/ConditionRegistry.ts';
+import type { TransactionContext } from '../forte-engine/TransactionContext.ts';
+
+const registry = new ConditionRegistry({
+  amount: { params: ['number'], returns: 'number', implementation: ([amount]) => amount },
+  unavailable: { params: [], returns: 'boolean', implementation: () => { throw new Error('verifier timed out'); } },
+  capAmount: { params: ['number'], returns: 'object', implementation: ([amount]) => ({ amount: Math.min(amount, 50) }) },
+  brokenAdjustment: { params: [], returns: 'object', implementation: () => { throw new Error('no fraction table'); } }
+});
+
+function rule(ruleId: string, action: string, functionName: string, adjustment?: any): any {
+  return {
+    adjustment,
+    ruleId,
+    name: `${ruleId} ${functionName}`,
+    priority: 'HIGH',
+    action,
+    conditions: functionName === 'amount'
+      ? { function: 'amount', params: ['amount'], comparison: 'lessThanOrEqual', value: 50 }
+      : { function: functionName, params: [], comparison: 'equals', value: true }
+  };
+}
+
+async function check(rules: any[]) {
+  const engine = new LocalComplianceEngine(registry);
+  const policyId = await engine.registerPolicy({ policyName: 'errors', policyVersion: '1.0.0', rules });
+  return engine.checkRules(policyId, { amount: 100 } as TransactionContext);
+}
+
+test('a WARN rule that throws is a warning, not a denial', async () => {
+  const result = await check([rule('RULE_B', 'WARN', 'unavailable')]);
+  assert.equal(result.compliant, true);
+  assert.deepEqual(result.failedRules, []);
+  assert.deepEqual(result.warnings, ['RULE_B']);
+  const evaluation = result.evaluations.find(entry => entry.ruleId === 'RULE_B');
+  assert.equal(evaluation.outcome, 'ERROR');
+  assert.equal(evaluation.actionTaken, 'WARNED');
+  assert.match(evaluation.reason, /verifier timed out/);
+});
+
+test('a DENY rule that throws fails the transaction', async () => {
+  const result = await check([rule('RULE_A', 'DENY', 'unavailable')]);
+  assert.equal(result.compliant, false);
+  assert.deepEqual(result.failedRules, ['RULE_A']);
+  assert.deepEqual(result.warnings, []);
+  assert.equal(result.evaluations[0].outcome, 'ERROR');
+  assert.equal(result.evaluations[0].actionTaken, 'DENIED');
+});
+
+test('a failed ADJUST rule with a working adjustment is a warning with a patch', async () => {
+  const result = await check([rule('RULE_A', 'ADJUST', 'amount', { function: 'capAmount', params: ['amount'] })]);
+  assert.equal(result.compliant, true);
+  assert.deepEqual(result.warnings, ['RULE_A']);
+  assert.deepEqual(result.adjustments.map(adjustment => adjustment.patch), [{ amount: 50 }]);
+  assert.equal(result.evaluations[0].outcome, 'ADJUSTED');
+});
+
+test('an adjustment that throws is recorded once, as a failed adjustment', async () => {
+  const result = await check([rule('RULE_A', 'ADJUST', 'amount', { function: 'brokenAdjustment', params: [] })]);
+  assert.equal(result.compliant, true);
+  assert.deepEqual(result.failedRules, []);
+  assert.deepEqual(result.warnings, ['RULE_A']);
+  assert.deepEqual(result.adjustments, []);
+  assert.equal(result.adjustedTransaction, undefined);
+  assert.equal(result.evaluations.length, 1);
+  assert.equal(result.evaluations[0].outcome, 'ADJUSTMENT_FAILED');
+  assert.equal(result.evaluations[0].actionTaken, 'WARNED');
+  assert.match(result.evaluations[0].reason, /adjustment failed: no fraction table/);
+});
@@ -0,0 +1,60 @@
+/**
+ * ZK PRET process bridge against the stub verifier's test hooks (zkpret-integration/stub-verifier.js)
+ * Run with: npm run test-checks
+ */
+
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import { ZKPretVerifierBridge } from '../zkpret-integration/ZKPretVerifierBridge.ts';
+
+const STUB_PATH = fileURLToPath(new URL('../zkpret-integration/stub-verifier.js', import.meta.url));
+
+function stubBridge(timeoutMs: number = 10000): ZKPretVerifierBridge {
+  // An environment override would replace the stub under test
+  delete process.env.FORTE_ZKPRET_VERIFIER_GLEIF;
+  const bridge = new ZKPretVerifierBridge({ timeoutMs });
+  bridge.configure({ GLEIF: { verifierPath: STUB_PATH } });
+  return bridge;
+}
+
+afterEach(() => {
+  delete process.env.FORTE_STUB_VERIFIER_DELAY_MS;
+});
+
+test('a normal input is verified with a stub proof', async () => {
+  const result = await stubBridge().verify('GLEIF', { lei: 'HWUPKR0MPOU8FGXBT394' });
+  assert.equal(result.verified, true, result.error);
+  assert.equal(result.source, 'process');
+  assert.equal(JSON.parse(result.proof).type, 'stub');
+});
+
+test('STUB_FAIL is reported unverified without a proof', async () => {
+  const result = await stubBridge().verify('GLEIF', { lei: 'STUB_FAIL' });
+  assert.equal(result.verified, false);
+  assert.equal(result.proof, '');
+  assert.match(result.error, /stub verification failed/);
+});
+
+test('STUB_CRASH is returned as a failure, not thrown', async () => {
+  const result = await stubBridge().verify('GLEIF', { lei: 'STUB_CRASH' });
+  assert.equal(result.verified, false);
+  assert.match(result.error, /produced no result \(stub-verifier: simulated crash\)/);
+});
+
+test('a verifier slower than the timeout is killed and reported', async () => {
+  process.env.FORTE_STUB_VERIFIER_DELAY_MS = '5000';
+  const started = Date.now();
+  const result = await stubBridge(500).verify('GLEIF', { lei: 'HWUPKR0MPOU8FGXBT394' });
+  assert.equal(result.verified, false);
+  assert.match(result.error, /timed out after 500ms/);
+  assert.ok(Date.now() - started < 5000, 'waited for the verifier instead of timing out');
+});
+
+test('a missing verifier script is a failure', async () => {
+  const bridge = stubBridge();
+  bridge.configure({ GLEIF: { verifierPath: fileURLToPath(new URL('./no-such-verifier.js', import.meta.url)) } });
+  const result = await bridge.verify('GLEIF', {});
+  assert.equal(result.verified, false);
+  assert.match(result.error, /No GLEIF verifier found/);
+});
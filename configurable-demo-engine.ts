@@ -5,6 +5,7 @@
 
 import { readFile } from 'fs/promises';
 import ForteSDKManager from './sdk.ts';
+import { dcsaDocuments } from './forte-engine/DCSADocuments.ts';
 
 interface DemoConfig {
   demoConfiguration: any;
@@ -78,6 +79,7 @@ export class ConfigurableDemoEngine {
       maturityDays: template.defaultMaturityDays,
       interestRate: template.defaultInterestRate,
       tradeDocuments: template.documents,
+      processEvents: template.processEvents,
       
       // PYUSD and cross-border data
       pyusdAmount: scenarioConfig.pyusdAmount || template.defaultPrincipalAmount,
@@ -87,6 +89,12 @@ export class ConfigurableDemoEngine {
       
       // Default settings
       ...this.config.defaultSettings,
+
+      // Fraction size at the policy minimum for the template's asset type
+      ...(template.defaultFractionSize !== undefined && {
+        minimumFractionSize: template.defaultFractionSize,
+        transferAmount: template.defaultFractionSize
+      }),
       
       // Document hash (generated)
       documentHash: this.generateDocumentHash(company.corporateName, template.assetType),
@@ -100,6 +108,9 @@ export class ConfigurableDemoEngine {
       Object.assign(data, scenarioConfig.customizations);
     }
 
+    // DCSA documents have a real hash; only unstructured document sets keep the generated one
+    data.documentHash = dcsaDocuments.documentHash(data.tradeDocuments) || data.documentHash;
+
     // Process dynamic description placeholders
     data.assetDescription = this.processDescriptionTemplate(data.assetDescription, {
       days: data.maturityDays,
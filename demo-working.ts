@@ -1,15 +1,19 @@
 /**
  * WORKING Institutional RWA Platform Demo Script
- * Demonstrates ALL 14 FORTE rules with ZK PRET integration + PYUSD Cross-Border Finance
+ * Demonstrates ALL FORTE policy rules with ZK PRET integration + PYUSD Cross-Border Finance
  */
 
 import { ethers } from 'ethers';
+import { readFileSync } from 'fs';
 import ForteSDKManager from './sdk.ts';
 import { zkPretManager } from './zkpret-integration/ZKPretAdapter.ts';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
+const POLICY_PATH = 'policies/institutional-rwa-complete.json';
+const POLICY_RULE_COUNT: number = JSON.parse(readFileSync(POLICY_PATH, 'utf-8')).rules.length;
+
 interface DemoScenario {
   name: string;
   description: string;
@@ -30,14 +34,14 @@ class InstitutionalRWADemo {
   async runDemo(scenarioType: 'pass' | 'fail' | 'all' = 'all'): Promise<void> {
     console.log('🏛️ INSTITUTIONAL RWA PLATFORM DEMO');
     console.log('═══════════════════════════════════════════════════════════════');
-    console.log('🎯 14 FORTE Rules + ZK PRET Integration Demonstration');
+    console.log(`🎯 ${POLICY_RULE_COUNT} FORTE Rules + ZK PRET Integration Demonstration`);
     console.log('📊 Asset Type: Supply Chain Finance (not art fractionalization)');
     console.log('🔗 Multi-Chain: FORTE → BNB → PYUSD → SUPRA → FLOW');
     console.log('💰 PYUSD Cross-Border: US ↔ India Trade Finance');
     console.log('═══════════════════════════════════════════════════════════════\n');
 
     // Setup policy
-    const policyId = await this.sdk.setupPolicy('policies/institutional-rwa-complete.json');
+    const policyId = await this.sdk.setupPolicy(POLICY_PATH);
     console.log(`📋 Policy ID: ${policyId}\n`);
 
     // Run scenarios based on type
@@ -57,7 +61,7 @@ class InstitutionalRWADemo {
     // Summary
     console.log('\n🏆 DEMO COMPLETE - INSTITUTIONAL RWA PLATFORM');
     console.log('═══════════════════════════════════════════════════════════════');
-    console.log('✅ Demonstrated 14 sophisticated FORTE rules (inc. 2 PYUSD-specific)');
+    console.log(`✅ Demonstrated ${POLICY_RULE_COUNT} sophisticated FORTE rules (inc. 2 PYUSD-specific)`);
     console.log('🔗 Integrated ZK PRET verification capabilities');
     console.log('🏦 Transformed art fractionalization → institutional finance');
     console.log('💰 PYUSD cross-border trade finance integration');
@@ -88,8 +92,9 @@ class InstitutionalRWADemo {
           interestRate: 850,
           creditRating: "BBB",
           assetDescription: "90-day supplier invoice from verified vendor",
-          documentHash: "0x1234567890abcdef1234567890abcdef12345678",
-          tradeDocuments: ["invoice_001.pdf", "bill_of_lading.pdf", "purchase_order.pdf"],
+          documentHash: "0x6571b7ae9c7299bbed30c2b5174d411b0cbb13fd30499233090d31e74a7ce3c5", // Hash of the DCSA eBL and booking in fixtures/dcsa
+          tradeDocuments: ["apple-ebl-DEHAM-USLAX.json", "apple-booking-DEHAM-USLAX.json", "invoice_001.pdf", "purchase_order.pdf"],
+          processEvents: ["Create Purchase Order", "Ship Goods", "Issue Invoice"],
           totalFractions: 5000,
           minimumFractionSize: 1000,
           transferAmount: 1000,
@@ -104,7 +109,7 @@ class InstitutionalRWADemo {
         expectedResult: 'PASS',
         data: {
           corporateName: "MICROSOFT CORPORATION",
-          legalEntityIdentifier: "XEBEDEBBPPM9N3JQFGFV",
+          legalEntityIdentifier: "INR2EJN1ERAN0W5ZP974",
           assetType: "TRADE_FINANCE",
           principalAmount: 2400000,
           pyusdAmount: 2400000,
@@ -112,11 +117,12 @@ class InstitutionalRWADemo {
           interestRate: 750,
           creditRating: "AAA",
           assetDescription: "US-India IT services payment with RBI compliance",
-          documentHash: "0xabcdef1234567890abcdef1234567890abcdef12",
-          tradeDocuments: ["service_agreement.pdf", "rbi_compliance.pdf"],
+          documentHash: "0x8796516ca2c63a3e997edd26a935ab8bd94b3bbb6b98d325e0e81a0d04af396e", // Hash of the DCSA eBL and booking in fixtures/dcsa
+          tradeDocuments: ["microsoft-ebl-INMAA-USSEA.json", "microsoft-booking-INMAA-USSEA.json", "service_agreement.pdf", "rbi_compliance.pdf"],
+          processEvents: ["Issue Letter of Credit", "Ship Goods", "Present Documents", "Examine Documents"],
           totalFractions: 2400,
-          minimumFractionSize: 1000,
-          transferAmount: 1000,
+          minimumFractionSize: 5000,
+          transferAmount: 5000,
           recipient: "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
           buyerCountry: "US",
           sellerCountry: "IN"
@@ -128,7 +134,7 @@ class InstitutionalRWADemo {
         expectedResult: 'PASS',
         data: {
           corporateName: "CIPLA LIMITED",
-          legalEntityIdentifier: "IN000000000000000001",
+          legalEntityIdentifier: "999900CIPLADEMO00148",
           assetType: "TRADE_FINANCE",
           principalAmount: 3000000,
           pyusdAmount: 3000000,
@@ -136,14 +142,15 @@ class InstitutionalRWADemo {
           interestRate: 900,
           creditRating: "A",
           assetDescription: "India-US pharmaceutical export with FDA approval",
-          documentHash: "0xfedcba0987654321fedcba0987654321fedcba09",
-          tradeDocuments: ["fda_approval.pdf", "export_license.pdf", "rbi_clearance.pdf"],
+          documentHash: "0x449d23759a6b10f8d5d36d6cb6111ed8f71539ae34f9ea3357b938820758b775", // Hash of the DCSA eBL and booking in fixtures/dcsa
+          tradeDocuments: ["cipla-ebl-INNSA-USNYC.json", "cipla-booking-INNSA-USNYC.json", "fda_approval.pdf", "export_license.pdf"],
+          processEvents: ["Issue Letter of Credit", "Ship Goods", "Present Documents", "Examine Documents"],
           totalFractions: 3000,
-          minimumFractionSize: 1000,
-          transferAmount: 1000,
+          minimumFractionSize: 5000,
+          transferAmount: 5000,
           recipient: "0x90F79bf6EB2c4f870365E785982E1f101E93b906",
-          buyerCountry: "IN",
-          sellerCountry: "US"
+          buyerCountry: "US",
+          sellerCountry: "IN"
         }
       }
     ];
@@ -175,8 +182,9 @@ class InstitutionalRWADemo {
           interestRate: 850,
           creditRating: "BBB",
           assetDescription: "Large PYUSD transaction exceeding limits",
-          documentHash: "0x1234567890abcdef1234567890abcdef12345678",
-          tradeDocuments: ["invoice_001.pdf"],
+          documentHash: "0x6571b7ae9c7299bbed30c2b5174d411b0cbb13fd30499233090d31e74a7ce3c5", // Hash of the DCSA eBL and booking in fixtures/dcsa
+          tradeDocuments: ["apple-ebl-DEHAM-USLAX.json", "apple-booking-DEHAM-USLAX.json", "invoice_001.pdf"],
+          processEvents: ["Create Purchase Order", "Ship Goods", "Issue Invoice"],
           totalFractions: 60000,
           minimumFractionSize: 1000,
           transferAmount: 1000,
@@ -201,9 +209,10 @@ class InstitutionalRWADemo {
           assetDescription: "Cross-border payment to restricted jurisdiction",
           documentHash: "0x2222222222222222222222222222222222222222",
           tradeDocuments: ["restricted_invoice.pdf"],
+          processEvents: ["Issue Letter of Credit", "Ship Goods", "Present Documents", "Examine Documents"],
           totalFractions: 5000,
-          minimumFractionSize: 1000,
-          transferAmount: 1000,
+          minimumFractionSize: 5000,
+          transferAmount: 5000,
           recipient: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
           buyerCountry: "US",
           sellerCountry: "IR" // Iran - restricted country
@@ -223,8 +232,9 @@ class InstitutionalRWADemo {
           interestRate: 850,
           creditRating: "BBB",
           assetDescription: "90-day supplier invoice from verified vendor",
-          documentHash: "0x1234567890abcdef1234567890abcdef12345678",
-          tradeDocuments: ["invoice_001.pdf"],
+          documentHash: "0x6571b7ae9c7299bbed30c2b5174d411b0cbb13fd30499233090d31e74a7ce3c5", // Hash of the DCSA eBL and booking in fixtures/dcsa
+          tradeDocuments: ["apple-ebl-DEHAM-USLAX.json", "apple-booking-DEHAM-USLAX.json", "invoice_001.pdf"],
+          processEvents: ["Create Purchase Order", "Ship Goods", "Issue Invoice"],
           totalFractions: 5000,
           minimumFractionSize: 1000,
           transferAmount: 1000,
@@ -265,9 +275,9 @@ class InstitutionalRWADemo {
       
       console.log('\n📊 RESULT SUMMARY:');
       console.log(`🎯 Overall Compliance: ${result.compliant ? '✅ COMPLIANT' : '❌ NON-COMPLIANT'}`);
-      console.log(`✅ Passed Rules: ${result.passedRules.length}/14`);
-      console.log(`❌ Failed Rules: ${result.failedRules.length}/14`);
-      console.log(`⚠️ Warnings: ${result.warnings.length}/14`);
+      console.log(`✅ Passed Rules: ${result.passedRules.length}/${POLICY_RULE_COUNT}`);
+      console.log(`❌ Failed Rules: ${result.failedRules.length}/${POLICY_RULE_COUNT}`);
+      console.log(`⚠️ Warnings: ${result.warnings.length}/${POLICY_RULE_COUNT}`);
 
       if (result.failedRules.length > 0) {
         console.log('\n❌ Failed Rules:');
@@ -382,7 +392,7 @@ class InstitutionalRWADemo {
     console.log('• ✅ Instant settlements (30 seconds vs 5+ days)');
     console.log('• ✅ 90%+ cost reduction ($0.50 vs $25-50)');
     console.log('• ✅ 24/7 availability (vs banking hours)');
-    console.log('• ✅ Full compliance (14 FORTE rules + ZK PRET)');
+    console.log(`• ✅ Full compliance (${POLICY_RULE_COUNT} FORTE rules + ZK PRET)`);
     console.log('• ✅ Multi-chain ready (Ethereum + Solana)');
     console.log('• ✅ Institutional grade (not consumer NFTs)');
     console.log('• ✅ India RBI compliance for digital currency');
@@ -0,0 +1,402 @@
+/**
+ * Local FORTE Cloud Stand-in Server
+ * Implements the FORTE Cloud endpoints used by RealForteSDKManager and cloud-forte-demo.ts
+ * on top of the local rule engine, so both clients can be exercised offline
+ *
+ * Endpoints:
+ *   GET  /health
+ *   GET  /v1/policies                  POST /v1/policies
+ *   GET  /v1/policies/:id              POST /v1/policies/:id/apply
+ *   POST /v1/policies/:id/check        GET  /v1/requests
+ *   POST /compliance/verify            POST /compliance/pyusd-cross-border
+ */
+
+import { createHash } from 'crypto';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import * as dotenv from 'dotenv';
+import { ConditionRegistry } from './forte-engine/ConditionRegistry.ts';
+import { builtinConditions } from './forte-engine/BuiltinConditions.ts';
+import { PolicyValidator } from './forte-engine/PolicyValidator.ts';
+import { LocalComplianceEngine } from './forte-engine/LocalComplianceEngine.ts';
+import { policyIdFor } from './forte-engine/PolicyStore.ts';
+import { summarizeCompliance } from './forte-engine/ComplianceEngine.ts';
+import { validateTransactionContext } from './forte-engine/TransactionContext.ts';
+import type { TransactionContext } from './forte-engine/TransactionContext.ts';
+
+dotenv.config();
+
+const SERVER_VERSION = '2.1.0-local';
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_LOGGED_REQUESTS = 1000;
+const DEFAULT_POLICY_PATH = 'policies/institutional-rwa-complete.json';
+
+export interface ForteCloudServerOptions {
+  apiKeys: string[];
+  /** JSON file registered policies are persisted to; omitted keeps them in memory only */
+  storagePath?: string;
+  /** Policy used by /compliance/* when the request does not name one */
+  defaultPolicyPath?: string;
+  /** Suppress per-request console logging */
+  quiet?: boolean;
+}
+
+export interface RequestLogEntry {
+  timestamp: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  /** sha256:<first 8 hex digits> of the key used */
+  apiKey?: string;
+  policyId?: string;
+  error?: string;
+}
+
+interface StoredPolicy {
+  policy: any;
+  registeredAt: string;
+  applications: Array<{ contractAddress: string; network?: string; chainId?: string; appliedAt: string }>;
+}
+
+class HttpError extends Error {
+  status: number;
+  details?: any;
+
+  constructor(status: number, message: string, details?: any) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export class ForteCloudServer {
+  private options: ForteCloudServerOptions;
+  private registry = new ConditionRegistry(builtinConditions);
+  private validator = new PolicyValidator(this.registry);
+  private engine = new LocalComplianceEngine(this.registry);
+  private policies: Map<string, StoredPolicy> = new Map();
+  private defaultPolicyId?: string;
+  private requestLog: RequestLogEntry[] = [];
+  private server?: Server;
+
+  constructor(options: ForteCloudServerOptions) {
+    if (options.apiKeys.length === 0) {
+      throw new Error('ForteCloudServer requires at least one API key');
+    }
+    this.options = options;
+  }
+
+  /**
+   * Load stored and default policies, then listen. Resolves with the bound port.
+   */
+  async start(port: number = 8787, host: string = '127.0.0.1'): Promise<number> {
+    await this.loadStoredPolicies();
+    await this.loadDefaultPolicy();
+
+    this.server = createServer((req, res) => { this.handle(req, res); });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address();
+    return typeof address === 'object' && address ? address.port : port;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) => this.server!.close(error => error ? reject(error) : resolve()));
+    this.server = undefined;
+  }
+
+  getRequestLog(): RequestLogEntry[] {
+    return [...this.requestLog];
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const startedAt = Date.now();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    const entry: RequestLogEntry = { timestamp: new Date(startedAt).toISOString(), method, path: url.pathname, status: 200, durationMs: 0 };
+
+    try {
+      const body = await this.route(method, url, req, entry);
+      this.send(res, entry.status, body);
+    } catch (error: any) {
+      entry.status = error instanceof HttpError ? error.status : 500;
+      entry.error = error.message;
+      this.send(res, entry.status, { error: error.message, details: error instanceof HttpError ? error.details : undefined });
+    }
+
+    entry.durationMs = Date.now() - startedAt;
+    this.requestLog.push(entry);
+    if (this.requestLog.length > MAX_LOGGED_REQUESTS) this.requestLog.shift();
+    if (!this.options.quiet) {
+      const icon = entry.status < 400 ? '📡' : '⚠️';
+      console.log(`${icon} ${method} ${url.pathname} ${entry.status} ${entry.durationMs}ms${entry.apiKey ? ` key=${entry.apiKey}` : ''}${entry.error ? ` (${entry.error})` : ''}`);
+    }
+  }
+
+  private async route(method: string, url: URL, req: IncomingMessage, entry: RequestLogEntry): Promise<any> {
+    // The demo client historically prefixed every path with /v1
+    const path = url.pathname.replace(/\/+$/, '').replace(/^\/v1(?=\/(health|compliance)\b)/, '') || '/';
+
+    if (method === 'GET' && path === '/health') {
+      return {
+        status: 'healthy',
+        version: SERVER_VERSION,
+        region: 'local',
+        responseTime: 0,
+        policies: this.policies.size
+      };
+    }
+
+    this.authenticate(req, entry);
+
+    if (path === '/v1/policies') {
+      if (method === 'GET') {
+        return {
+          policies: Array.from(this.policies.entries()).map(([policyId, stored]) => ({
+            policyId,
+            name: stored.policy.policyName,
+            version: stored.policy.policyVersion,
+            rules: stored.policy.rules.length,
+            registeredAt: stored.registeredAt
+          }))
+        };
+      }
+      if (method === 'POST') {
+        entry.status = 201;
+        return this.registerPolicy(await this.readJson(req), entry);
+      }
+    }
+
+    const policyRoute = path.match(/^\/v1\/policies\/([^/]+)(?:\/(apply|check))?$/);
+    if (policyRoute) {
+      const policyId = decodeURIComponent(policyRoute[1]);
+      entry.policyId = policyId;
+      const stored = this.requirePolicy(policyId);
+
+      if (!policyRoute[2] && method === 'GET') {
+        return { policyId, ...stored };
+      }
+      if (policyRoute[2] === 'apply' && method === 'POST') {
+        return this.applyPolicy(policyId, stored, await this.readJson(req));
+      }
+      if (policyRoute[2] === 'check' && method === 'POST') {
+        const body = await this.readJson(req);
+        return this.engine.checkRules(policyId, this.normalizeTransaction(body.transactionData), body.options || {});
+      }
+    }
+
+    if (method === 'GET' && path === '/v1/requests') {
+      return { requests: this.getRequestLog() };
+    }
+
+    if (method === 'POST' && (path === '/compliance/verify' || path === '/compliance/pyusd-cross-border')) {
+      const policyId = url.searchParams.get('policyId') || this.defaultPolicyId;
+      if (!policyId) {
+        throw new HttpError(400, 'No policyId given and no default policy loaded');
+      }
+      entry.policyId = policyId;
+      this.requirePolicy(policyId);
+      const transaction = this.normalizeTransaction(await this.readJson(req));
+      return summarizeCompliance(this.engine, policyId, transaction, path === '/compliance/verify' ? 'verify' : 'pyusd-cross-border', true);
+    }
+
+    throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+  }
+
+  private authenticate(req: IncomingMessage, entry: RequestLogEntry): void {
+    const header = req.headers['authorization'];
+    const bearer = typeof header === 'string' && header.startsWith('Bearer ') ? header.slice(7).trim() : undefined;
+    const apiKey = bearer || (req.headers['x-api-key'] as string | undefined);
+
+    if (!apiKey) {
+      throw new HttpError(401, 'Missing API key; send Authorization: Bearer <key>');
+    }
+    // Log a hash prefix: enough to tell keys apart, nothing of the key itself
+    entry.apiKey = `sha256:${createHash('sha256').update(apiKey).digest('hex').slice(0, 8)}`;
+    if (!this.options.apiKeys.includes(apiKey)) {
+      throw new HttpError(401, 'Invalid API key');
+    }
+  }
+
+  /**
+   * Accepts the FORTE Cloud registration body sent by CloudComplianceEngine, or a raw policy file.
+   * The policy is hashed exactly as sent (the body's `policy`, else the raw file); a registration
+   * body without `policy` is rebuilt from its fields, which drops any other top-level policy keys.
+   */
+  private async registerPolicy(body: any, entry: RequestLogEntry): Promise<any> {
+    const { policyId: requestedId, policy: sent, ...raw } = body;
+    const policy = sent ?? (raw.policyName ? raw : {
+      policyVersion: body.metadata?.version,
+      policyName: body.name,
+      description: body.description,
+      rules: body.rules,
+      ruleChain: body.ruleChain,
+      zkPretIntegrations: body.metadata?.zkPretIntegrations,
+      complianceThresholds: body.complianceThresholds,
+      emergencyControls: body.metadata?.emergencyControls
+    });
+    for (const key of Object.keys(policy)) {
+      if (policy[key] === undefined) delete policy[key];
+    }
+
+    const validation = this.validator.validate(policy);
+    if (!validation.valid) {
+      throw new HttpError(400, 'Policy is invalid', validation.errors);
+    }
+
+    // IDs are content-addressed: a client-supplied ID must be the one this content hashes to,
+    // so a policy can never be registered over another one
+    const policyId = policyIdFor(policy);
+    if (requestedId && requestedId !== policyId) {
+      throw new HttpError(409, `policyId ${requestedId} does not match the policy content (${policyId})`);
+    }
+    await this.engine.registerPolicy(policy, policyId);
+    entry.policyId = policyId;
+    // Re-registering the same content keeps its applications
+    if (!this.policies.has(policyId)) {
+      this.policies.set(policyId, { policy, registeredAt: new Date().toISOString(), applications: [] });
+    }
+    this.persist();
+
+    return {
+      policyId,
+      policyName: policy.policyName,
+      rules: policy.rules.length,
+      warnings: validation.warnings
+    };
+  }
+
+  private applyPolicy(policyId: string, stored: StoredPolicy, body: any): any {
+    if (typeof body.contractAddress !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(body.contractAddress)) {
+      throw new HttpError(400, 'contractAddress must be a 0x-prefixed 20-byte address');
+    }
+    const application = {
+      contractAddress: body.contractAddress,
+      network: body.network,
+      chainId: body.chainId,
+      appliedAt: new Date().toISOString()
+    };
+    stored.applications.push(application);
+    this.persist();
+
+    return {
+      success: true,
+      policyId,
+      ...application,
+      activeRules: stored.policy.ruleChain
+    };
+  }
+
+  private normalizeTransaction(transactionData: any): TransactionContext {
+    const { context, errors } = validateTransactionContext(transactionData);
+    if (errors.length > 0) {
+      throw new HttpError(400, 'Invalid transaction data', errors);
+    }
+    return context;
+  }
+
+  private requirePolicy(policyId: string): StoredPolicy {
+    const stored = this.policies.get(policyId);
+    if (!stored) {
+      throw new HttpError(404, `Policy ${policyId} not found`);
+    }
+    return stored;
+  }
+
+  private async readJson(req: IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+    const text = Buffer.concat(chunks).toString('utf-8');
+    if (!text) return {};
+    try {
+      return JSON.parse(text);
+    } catch (error: any) {
+      throw new HttpError(400, `Invalid JSON body: ${error.message}`);
+    }
+  }
+
+  private send(res: ServerResponse, status: number, body: any): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'X-FORTE-Version': SERVER_VERSION });
+    res.end(JSON.stringify(body));
+  }
+
+  private async loadStoredPolicies(): Promise<void> {
+    const storagePath = this.options.storagePath;
+    if (!storagePath || !existsSync(storagePath)) return;
+
+    const stored: { [policyId: string]: StoredPolicy } = JSON.parse(readFileSync(storagePath, 'utf-8'));
+    for (const [policyId, entry] of Object.entries(stored)) {
+      if (policyIdFor(entry.policy) !== policyId) {
+        console.warn(`⚠️ Skipping stored policy ${policyId}: its content hashes to ${policyIdFor(entry.policy)}`);
+        continue;
+      }
+      await this.engine.registerPolicy(entry.policy, policyId);
+      this.policies.set(policyId, entry);
+    }
+  }
+
+  private async loadDefaultPolicy(): Promise<void> {
+    const policyPath = this.options.defaultPolicyPath;
+    if (!policyPath) return;
+
+    const policy = JSON.parse(readFileSync(policyPath, 'utf-8'));
+    if (this.policies.has(policyIdFor(policy))) {
+      this.defaultPolicyId = policyIdFor(policy);
+      return;
+    }
+    this.defaultPolicyId = await this.registerPolicy(policy, {} as RequestLogEntry).then(result => result.policyId);
+  }
+
+  private persist(): void {
+    const storagePath = this.options.storagePath;
+    if (!storagePath) return;
+    mkdirSync(dirname(storagePath), { recursive: true });
+    writeFileSync(storagePath, JSON.stringify(Object.fromEntries(this.policies), null, 2) + '\n');
+  }
+}
+
+// CLI execution
+if (process.argv[1] === new URL(import.meta.url).pathname.replace(/\\/g, '/')) {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const apiKeys = (process.env.FORTE_SERVER_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+  if (apiKeys.length === 0) {
+    apiKeys.push('local-dev-key');
+    console.warn('⚠️ FORTE_SERVER_API_KEYS not set - accepting API key "local-dev-key"');
+  }
+
+  const server = new ForteCloudServer({
+    apiKeys,
+    storagePath: option('--storage') || process.env.FORTE_SERVER_STORAGE || 'data/forte-cloud/policies.json',
+    defaultPolicyPath: option('--policy') || DEFAULT_POLICY_PATH
+  });
+  const port = Number(option('--port') || process.env.FORTE_SERVER_PORT || 8787);
+
+  server.start(port).then(boundPort => {
+    console.log(`☁️ Local FORTE Cloud listening on http://127.0.0.1:${boundPort}`);
+    console.log(`💡 Point clients at it with FORTE_API_URL=http://127.0.0.1:${boundPort} FORTE_ENGINE_BACKEND=cloud`);
+  }).catch(error => {
+    console.error('❌ Failed to start local FORTE Cloud:', error);
+    process.exit(1);
+  });
+}
+
+export default ForteCloudServer;
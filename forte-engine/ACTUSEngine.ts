@@ -0,0 +1,230 @@
+/**
+ * FORTE ACTUS cash-flow engine
+ * Projects contract events for the ACTUS contract types institutional assets map to (PAM, ANN,
+ * LAM and a simplified CLM) and derives risk and liquidity scores from the projected cash flows:
+ * duration, credit-rating-implied default probability and cash-flow concentration.
+ * Amounts are whole USD, rates are annual basis points, days use the A/365 convention.
+ */
+
+import type { AssetType, CreditRating, InstitutionalAsset } from './TransactionContext.ts';
+import { CREDIT_RATINGS } from './TransactionContext.ts';
+
+/**
+ * PAM: principal at maturity (bullet), ANN: annuity (level payments), LAM: linear amortizer
+ * (level principal), CLM: call money (open-ended, treated as called at maturityDays)
+ */
+export type ACTUSContractType = 'PAM' | 'ANN' | 'LAM' | 'CLM';
+
+/** IED: initial exchange, IP: interest payment, PR: principal redemption, MD: maturity */
+export type ACTUSEventType = 'IED' | 'IP' | 'PR' | 'MD';
+
+export const ASSET_CONTRACT_TYPES: { [type in AssetType]: ACTUSContractType } = {
+  SUPPLY_CHAIN_INVOICE: 'PAM',
+  TRADE_FINANCE: 'PAM',
+  CORPORATE_BONDS: 'PAM',
+  STRUCTURED_PRODUCTS: 'PAM',
+  EQUIPMENT_FINANCE: 'ANN',
+  COMMERCIAL_REAL_ESTATE: 'LAM',
+  WORKING_CAPITAL: 'CLM'
+};
+
+/** Approximate one-year default probabilities by rating (long-run corporate averages) */
+export const ANNUAL_DEFAULT_PROBABILITY: { [rating in CreditRating]: number } = {
+  AAA: 0.0001, AA: 0.0002, A: 0.0006, BBB: 0.0018, BB: 0.007,
+  B: 0.035, CCC: 0.25, CC: 0.35, C: 0.5, D: 1
+};
+
+/** Unrated assets are treated as sub-investment grade */
+const UNRATED: CreditRating = 'BB';
+const LOSS_GIVEN_DEFAULT = 0.45;
+const DAYS_PER_YEAR = 365;
+/** Amortizing contracts pay monthly unless paymentFrequency says otherwise */
+const DEFAULT_AMORTIZATION_CYCLE_DAYS = 30;
+
+/** Risk score weights (sum to 1) and the levels at which each component saturates */
+const RISK_WEIGHTS = { credit: 0.6, duration: 0.25, concentration: 0.15 };
+const EXPECTED_LOSS_CAP = 0.05;
+const DURATION_CAP_YEARS = 10;
+/** Liquidity score weights (sum to 1) */
+const LIQUIDITY_WEIGHTS = { life: 0.5, credit: 0.3, frequency: 0.2 };
+const LIFE_CAP_YEARS = 5;
+const CALLABLE_LIQUIDITY_BONUS = 200;
+
+export interface ACTUSContractTerms {
+  contractType: ACTUSContractType;
+  notionalPrincipal: number;
+  /** Annual rate as a decimal, e.g. 0.085 */
+  nominalInterestRate: number;
+  maturityDays: number;
+  /** Days between payments; 0 pays everything at maturity */
+  paymentCycleDays: number;
+  creditRating: CreditRating;
+}
+
+export interface ACTUSEvent {
+  type: ACTUSEventType;
+  /** Days after the initial exchange */
+  day: number;
+  /** Cash flow to the lender (the IED is negative) */
+  payoff: number;
+  /** Outstanding principal after the event */
+  nominalValue: number;
+}
+
+/** Highest acceptable risk score when the policy sets no complianceThresholds.riskScore.maximum */
+export const DEFAULT_MAXIMUM_RISK_SCORE = 500;
+
+export interface ACTUSRiskAnalysis {
+  terms: ACTUSContractTerms;
+  events: ACTUSEvent[];
+  totalInterest: number;
+  /** Macaulay duration of the lender's inflows */
+  durationYears: number;
+  /** Principal-weighted average life */
+  weightedAverageLifeYears: number;
+  annualDefaultProbability: number;
+  cumulativeDefaultProbability: number;
+  expectedLoss: number;
+  /** Herfindahl index of inflows: 1 for a single bullet payment, 1/n for n equal payments */
+  cashFlowConcentration: number;
+  /** 0 (lowest risk) to 1000 */
+  riskScore: number;
+  /** 0 (illiquid) to 1000 */
+  liquidityScore: number;
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function clamp(value: number, minimum: number = 0, maximum: number = 1): number {
+  return Math.min(maximum, Math.max(minimum, value));
+}
+
+/** Payment days up to and including maturity; a final stub shorter than half a cycle joins the last period */
+function paymentDays(maturityDays: number, cycleDays: number): number[] {
+  const days: number[] = [];
+  if (cycleDays > 0) {
+    for (let day = cycleDays; day < maturityDays; day += cycleDays) days.push(day);
+  }
+  if (days.length > 0 && maturityDays - days[days.length - 1] < cycleDays / 2) days.pop();
+  days.push(maturityDays);
+  return days;
+}
+
+export function contractTypeFor(assetType: AssetType | undefined): ACTUSContractType {
+  return (assetType && ASSET_CONTRACT_TYPES[assetType]) || 'PAM';
+}
+
+/**
+ * Contract terms from an asset's financial fields
+ */
+export function actusTermsFor(asset: InstitutionalAsset, contractType: ACTUSContractType = contractTypeFor(asset.assetType)): ACTUSContractTerms {
+  if (!(asset.principalAmount > 0)) {
+    throw new Error('ACTUS projection needs a positive principalAmount');
+  }
+  if (!(asset.maturityDays > 0)) {
+    throw new Error('ACTUS projection needs a positive maturityDays');
+  }
+  const amortizing = contractType === 'ANN' || contractType === 'LAM';
+  return {
+    contractType,
+    notionalPrincipal: asset.principalAmount,
+    nominalInterestRate: (asset.interestRate || 0) / 10000,
+    maturityDays: asset.maturityDays,
+    paymentCycleDays: asset.paymentFrequency > 0 ? asset.paymentFrequency : amortizing ? DEFAULT_AMORTIZATION_CYCLE_DAYS : 0,
+    creditRating: asset.creditRating && CREDIT_RATINGS.includes(asset.creditRating) ? asset.creditRating : UNRATED
+  };
+}
+
+/**
+ * Projected contract events, in day order
+ */
+export function projectCashFlows(terms: ACTUSContractTerms): ACTUSEvent[] {
+  const { contractType, notionalPrincipal: principal, nominalInterestRate: rate, maturityDays } = terms;
+  const days = paymentDays(maturityDays, terms.paymentCycleDays);
+  const events: ACTUSEvent[] = [{ type: 'IED', day: 0, payoff: -principal, nominalValue: principal }];
+
+  // ANN: level payment from the per-period rate of the payment cycle
+  const periodRate = rate * (terms.paymentCycleDays || maturityDays) / DAYS_PER_YEAR;
+  const annuity = periodRate > 0
+    ? principal * periodRate / (1 - (1 + periodRate) ** -days.length)
+    : principal / days.length;
+
+  let outstanding = principal;
+  let previousDay = 0;
+  days.forEach((day, index) => {
+    const interest = outstanding * rate * (day - previousDay) / DAYS_PER_YEAR;
+    const last = index === days.length - 1;
+    let redemption = 0;
+    if (last) {
+      redemption = outstanding;
+    } else if (contractType === 'ANN') {
+      redemption = Math.min(outstanding, Math.max(0, annuity - interest));
+    } else if (contractType === 'LAM') {
+      redemption = principal / days.length;
+    }
+
+    if (interest > 0) {
+      events.push({ type: 'IP', day, payoff: round(interest), nominalValue: round(outstanding) });
+    }
+    outstanding -= redemption;
+    if (redemption > 0) {
+      events.push({ type: last ? 'MD' : 'PR', day, payoff: round(redemption), nominalValue: round(Math.max(0, outstanding)) });
+    }
+    previousDay = day;
+  });
+  return events;
+}
+
+/**
+ * Project an asset's cash flows and score them
+ */
+export function analyzeACTUSContract(asset: InstitutionalAsset, contractType?: ACTUSContractType): ACTUSRiskAnalysis {
+  const terms = actusTermsFor(asset, contractType);
+  const events = projectCashFlows(terms);
+  const inflows = events.filter(event => event.payoff > 0);
+  const totalInflow = inflows.reduce((sum, event) => sum + event.payoff, 0);
+  const redemptions = inflows.filter(event => event.type === 'PR' || event.type === 'MD');
+  const years = (day: number) => day / DAYS_PER_YEAR;
+
+  const discounted = inflows.map(event => ({ event, value: event.payoff / (1 + terms.nominalInterestRate) ** years(event.day) }));
+  const presentValue = discounted.reduce((sum, { value }) => sum + value, 0);
+  const durationYears = discounted.reduce((sum, { event, value }) => sum + years(event.day) * value, 0) / presentValue;
+  const weightedAverageLifeYears = redemptions.reduce((sum, event) => sum + years(event.day) * event.payoff, 0) / terms.notionalPrincipal;
+  const cashFlowConcentration = inflows.reduce((sum, event) => sum + (event.payoff / totalInflow) ** 2, 0);
+
+  const annualDefaultProbability = ANNUAL_DEFAULT_PROBABILITY[terms.creditRating];
+  const cumulativeDefaultProbability = 1 - (1 - annualDefaultProbability) ** years(terms.maturityDays);
+  const expectedLossRate = cumulativeDefaultProbability * LOSS_GIVEN_DEFAULT;
+
+  const creditRisk = clamp(expectedLossRate / EXPECTED_LOSS_CAP);
+  const riskScore = 1000 * (
+    RISK_WEIGHTS.credit * creditRisk
+    + RISK_WEIGHTS.duration * clamp(durationYears / DURATION_CAP_YEARS)
+    + RISK_WEIGHTS.concentration * cashFlowConcentration
+  );
+
+  // Payment dates per year, capped at monthly
+  const paymentFrequency = clamp(new Set(inflows.map(event => event.day)).size / Math.max(years(terms.maturityDays), 1 / 12) / 12);
+  const liquidityScore = 1000 * (
+    LIQUIDITY_WEIGHTS.life * (1 - clamp(weightedAverageLifeYears / LIFE_CAP_YEARS))
+    + LIQUIDITY_WEIGHTS.credit * (1 - creditRisk)
+    + LIQUIDITY_WEIGHTS.frequency * paymentFrequency
+  ) + (terms.contractType === 'CLM' ? CALLABLE_LIQUIDITY_BONUS : 0);
+
+  return {
+    terms,
+    events,
+    totalInterest: round(events.filter(event => event.type === 'IP').reduce((sum, event) => sum + event.payoff, 0)),
+    durationYears: round(durationYears, 4),
+    weightedAverageLifeYears: round(weightedAverageLifeYears, 4),
+    annualDefaultProbability,
+    cumulativeDefaultProbability: round(cumulativeDefaultProbability, 6),
+    expectedLoss: round(expectedLossRate * terms.notionalPrincipal),
+    cashFlowConcentration: round(cashFlowConcentration, 4),
+    riskScore: Math.round(clamp(riskScore, 0, 1000)),
+    liquidityScore: Math.round(clamp(liquidityScore, 0, 1000))
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * FORTE Compliance Audit Trail
+ * Append-only JSON Lines log of checkRules decisions. Each entry carries the SHA-256 of the entry
+ * before it, so editing, removing or reordering any past decision breaks verification.
+ */
+
+import { appendFileSync, closeSync, existsSync, fstatSync, mkdirSync, openSync, readFileSync, readSync, statSync, unlinkSync } from 'fs';
+import { dirname } from 'path';
+import { contentHash } from './Hashing.ts';
+import type { TransactionContext } from './TransactionContext.ts';
+import type { ZKProofReference } from '../zkpret-integration/ZKPretAdapter.ts';
+import type { ComplianceBackend, PolicyReference, RuleCheckResult, RuleEvaluation, SkippedRule } from './ComplianceEngine.ts';
+
+/** previousHash of the first entry */
+export const GENESIS_HASH = '0'.repeat(64);
+
+const LOCK_TIMEOUT_MS = 10000;
+const LOCK_RETRY_MS = 20;
+/** A lock file older than this was left by a crashed writer */
+const STALE_LOCK_MS = 60000;
+
+export interface AuditEntry {
+  sequence: number;
+  recordedAt: string;
+  backend: ComplianceBackend;
+  policyId: string;
+  policy?: PolicyReference;
+  /** Set when the policy was resolved from a contract binding */
+  contract?: { chainId: string; contractAddress: string };
+  transaction: TransactionContext;
+  compliant: boolean;
+  adjustedVerdict?: { compliant: boolean; failedRules: string[] };
+  passedRules: string[];
+  failedRules: string[];
+  warnings: string[];
+  skippedRules: SkippedRule[];
+  evaluations: RuleEvaluation[];
+  /** Every ZK proof consulted during the evaluation, once each */
+  proofs: ZKProofReference[];
+  previousHash: string;
+  /** SHA-256 of this entry's canonical JSON without the hash field */
+  hash: string;
+}
+
+export interface AuditDecision {
+  backend: ComplianceBackend;
+  policyId: string;
+  transaction: TransactionContext;
+  result: RuleCheckResult;
+  contract?: { chainId: string; contractAddress: string };
+}
+
+export interface AuditQuery {
+  lei?: string;
+  recipient?: string;
+  policyId?: string;
+  contractAddress?: string;
+  /** Inclusive bounds on recordedAt; ISO strings or Dates. A date-only `to` (2025-12-31) covers that whole UTC day */
+  from?: string | Date;
+  to?: string | Date;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  /** Hash of the last verified entry; anchor it externally to detect truncation */
+  headHash: string;
+  /** 1-based line of the first broken entry */
+  brokenAt?: number;
+  reason?: string;
+}
+
+/** Rules that reuse a cached verification reference the same proof; keep the first reference */
+function uniqueProofs(proofs: ZKProofReference[]): ZKProofReference[] {
+  const seen = new Set<string>();
+  return proofs.filter(proof => {
+    const key = `${proof.verifier}:${proof.proof}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Last millisecond covered by an upper bound: the end of the day for a date-only string */
+function upperBound(to: string | Date): number {
+  const time = new Date(to).getTime();
+  return typeof to === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(to) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+/** Block the thread; append() is synchronous, so waiting for the lock is too */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+export class AuditTrail {
+  private logPath: string;
+
+  constructor(logPath: string = 'data/audit-log.jsonl') {
+    this.logPath = logPath;
+  }
+
+  /**
+   * Append a decision, chained to the last entry in the log. The log is re-read under an exclusive
+   * lock, so processes sharing one log never chain two entries to the same predecessor
+   */
+  append(decision: AuditDecision): AuditEntry {
+    mkdirSync(dirname(this.logPath), { recursive: true });
+    return this.withLock(() => {
+      const head = this.readHead();
+      const { result } = decision;
+
+      // Round-trip through JSON so the hashed form is exactly what verify() reads back
+      const body = JSON.parse(JSON.stringify({
+        sequence: head.sequence + 1,
+        recordedAt: new Date().toISOString(),
+        backend: decision.backend,
+        policyId: decision.policyId,
+        policy: result.policy,
+        contract: decision.contract,
+        transaction: decision.transaction,
+        compliant: result.compliant,
+        adjustedVerdict: result.adjustedVerdict,
+        passedRules: result.passedRules,
+        failedRules: result.failedRules,
+        warnings: result.warnings,
+        skippedRules: result.skippedRules,
+        evaluations: result.evaluations,
+        proofs: uniqueProofs(result.evaluations.flatMap(evaluation => evaluation.proofs || [])),
+        previousHash: head.hash
+      }));
+      const entry: AuditEntry = { ...body, hash: contentHash(body) };
+
+      appendFileSync(this.logPath, JSON.stringify(entry) + '\n');
+      return entry;
+    });
+  }
+
+  /**
+   * All entries in log order; does not check the chain (use verify for that)
+   */
+  read(): AuditEntry[] {
+    return this.readLines().map(line => JSON.parse(line));
+  }
+
+  query(query: AuditQuery = {}): AuditEntry[] {
+    const from = query.from ? new Date(query.from).getTime() : -Infinity;
+    const to = query.to ? upperBound(query.to) : Infinity;
+    const lei = query.lei?.toUpperCase();
+    const recipient = query.recipient?.toLowerCase();
+    const contractAddress = query.contractAddress?.toLowerCase();
+
+    return this.read().filter(entry => {
+      const recordedAt = new Date(entry.recordedAt).getTime();
+      return recordedAt >= from && recordedAt <= to
+        && (!lei || String(entry.transaction.legalEntityIdentifier || '').toUpperCase() === lei)
+        && (!recipient || String(entry.transaction.recipient || '').toLowerCase() === recipient)
+        && (!query.policyId || entry.policyId === query.policyId)
+        && (!contractAddress || entry.contract?.contractAddress === contractAddress);
+    });
+  }
+
+  /**
+   * Recompute every hash and link; reports the first entry that does not match
+   */
+  verify(): AuditVerification {
+    const lines = this.readLines();
+    let previousHash = GENESIS_HASH;
+
+    for (let index = 0; index < lines.length; index++) {
+      const broken = (reason: string): AuditVerification =>
+        ({ valid: false, entries: index, headHash: previousHash, brokenAt: index + 1, reason });
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[index]);
+      } catch {
+        return broken('entry is not valid JSON');
+      }
+
+      const { hash, ...body } = entry;
+      if (entry.sequence !== index + 1) {
+        return broken(`sequence ${entry.sequence} found where ${index + 1} was expected`);
+      }
+      if (entry.previousHash !== previousHash) {
+        return broken('previousHash does not match the preceding entry');
+      }
+      if (contentHash(body) !== hash) {
+        return broken('entry content does not match its hash');
+      }
+      previousHash = hash;
+    }
+
+    return { valid: true, entries: lines.length, headHash: previousHash };
+  }
+
+  private readHead(): { sequence: number; hash: string } {
+    const line = this.readLastLine();
+    if (!line) {
+      return { sequence: 0, hash: GENESIS_HASH };
+    }
+    const last: AuditEntry = JSON.parse(line);
+    return { sequence: last.sequence, hash: last.hash };
+  }
+
+  /**
+   * Last non-empty line of the log, read backwards from the end so appends stay cheap on long logs
+   */
+  private readLastLine(): string | undefined {
+    if (!existsSync(this.logPath)) return undefined;
+    const fd = openSync(this.logPath, 'r');
+    try {
+      const size = fstatSync(fd).size;
+      let tail = Buffer.alloc(0);
+      let position = size;
+      while (position > 0) {
+        const length = Math.min(64 * 1024, position);
+        position -= length;
+        const chunk = Buffer.alloc(length);
+        readSync(fd, chunk, 0, length, position);
+        tail = Buffer.concat([chunk, tail]);
+        const lines = tail.toString('utf-8').split('\n').filter(line => line.trim().length > 0);
+        // Only trust the last line once the one before it (or the file start) bounds it
+        if (lines.length > 1 || position === 0) {
+          return lines[lines.length - 1];
+        }
+      }
+      return undefined;
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Run `fn` holding `<log>.lock`, created exclusively; a lock older than STALE_LOCK_MS is taken over
+   */
+  private withLock<T>(fn: () => T): T {
+    const lockPath = `${this.logPath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    let fd: number | undefined;
+
+    while (fd === undefined) {
+      try {
+        fd = openSync(lockPath, 'wx');
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+        try {
+          if (Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+            unlinkSync(lockPath);
+            continue;
+          }
+        } catch {
+          // Released between the open and the stat; retry straight away
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for audit log lock ${lockPath}`);
+        }
+        sleepSync(LOCK_RETRY_MS);
+      }
+    }
+
+    try {
+      return fn();
+    } finally {
+      closeSync(fd);
+      unlinkSync(lockPath);
+    }
+  }
+
+  private readLines(): string[] {
+    if (!existsSync(this.logPath)) return [];
+    return readFileSync(this.logPath, 'utf-8').split('\n').filter(line => line.trim().length > 0);
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * FORTE BPMN Conformance Checking
+ * Replays an asset's observed process events (`processEvents`) against the reference BPMN model
+ * for its asset type (processes/<asset-type>.bpmn) or an explicit `processDefinition`. The
+ * optimal alignment with the model's traces yields skipped, reordered and extra activities and an
+ * alignment-based fitness. Cases still in progress are not penalised for activities not yet reached:
+ * the aligned part of the model runs up to the furthest activity the log has seen, so activities
+ * before it that never happened are skipped, and a log that so far only holds the first activity
+ * (e.g. a letter of credit just issued) has full fitness with the rest of the model pending.
+ */
+
+import { existsSync, realpathSync, statSync } from 'fs';
+import { isAbsolute, join, relative, resolve, sep } from 'path';
+import { loadBPMN, modelActivities, modelTraces, parseBPMN } from './BPMNModel.ts';
+import type { BPMNProcessModel } from './BPMNModel.ts';
+import type { AssetType, ProcessEvent, TransactionContext } from './TransactionContext.ts';
+
+/** Fitness at which an observed process is considered conformant */
+export const DEFAULT_MINIMUM_FITNESS = 0.8;
+
+export type ConformanceDeviationKind = 'SKIPPED' | 'REORDERED' | 'EXTRA';
+
+export interface ConformanceDeviation {
+  kind: ConformanceDeviationKind;
+  activity: string;
+  /** Index in the observed log, for reordered and extra events */
+  position?: number;
+  message: string;
+}
+
+export interface ConformanceResult {
+  processId: string;
+  processName: string;
+  /** Model file, or "inline" for an XML processDefinition */
+  source: string;
+  observed: string[];
+  /** Model activities the log was aligned with */
+  alignedTrace: string[];
+  /** Model activities after the aligned part, not yet reached by the case */
+  pending: string[];
+  deviations: ConformanceDeviation[];
+  /** 1 - alignment cost / (observed events + aligned model activities), 0 to 1 */
+  fitness: number;
+  /** Fitness as 0-100 */
+  score: number;
+}
+
+export interface BPMNConformanceCheckerOptions {
+  /** Directory of reference models named after asset types (FORTE_BPMN_MODELS_PATH, default processes) */
+  path?: string;
+}
+
+interface LoadedModel {
+  model: BPMNProcessModel;
+  traces: string[][];
+  signature?: string;
+}
+
+type Move = { type: 'sync' | 'log' | 'model'; activity: string; position?: number };
+
+function normalizeActivity(activity: string): string {
+  return activity.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/** Reference model file name for an asset type, e.g. SUPPLY_CHAIN_INVOICE -> supply-chain-invoice.bpmn */
+export function referenceModelName(assetType: AssetType): string {
+  return `${assetType.toLowerCase().replace(/_/g, '-')}.bpmn`;
+}
+
+/**
+ * Activity names in log order; events are sorted by timestamp when every event has one
+ */
+export function observedActivities(events: ProcessEvent[]): string[] {
+  const entries = events.map((event, index) => typeof event === 'string'
+    ? { activity: event, index }
+    : { activity: event.activity, time: event.timestamp === undefined ? undefined : new Date(event.timestamp).getTime(), index });
+  if (entries.every(entry => 'time' in entry && Number.isFinite(entry.time))) {
+    entries.sort((a: any, b: any) => a.time - b.time || a.index - b.index);
+  }
+  return entries.map(entry => entry.activity.trim());
+}
+
+/**
+ * Cheapest alignment of the log with a prefix of the trace: every log-only or model-only move costs 1.
+ * The prefix reaches at least the first occurrence of every logged activity in the trace, since the
+ * case got that far; otherwise jumping ahead would cost one log move instead of the activities skipped.
+ */
+function align(observed: string[], trace: string[]): { cost: number; moves: Move[]; matched: number } {
+  const logKeys = observed.map(normalizeActivity);
+  const traceKeys = trace.map(normalizeActivity);
+  const costs: number[][] = Array.from({ length: observed.length + 1 }, (_, i) =>
+    Array.from({ length: trace.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= observed.length; i++) {
+    for (let j = 1; j <= trace.length; j++) {
+      costs[i][j] = logKeys[i - 1] === traceKeys[j - 1]
+        ? costs[i - 1][j - 1]
+        : 1 + Math.min(costs[i - 1][j], costs[i][j - 1]);
+    }
+  }
+
+  // The rest of the trace is still to come, so pick the cheapest prefix (the longest on ties)
+  const reached = Math.max(0, ...logKeys.map(key => traceKeys.indexOf(key) + 1));
+  let matched = reached;
+  for (let j = reached + 1; j <= trace.length; j++) {
+    if (costs[observed.length][j] <= costs[observed.length][matched]) matched = j;
+  }
+
+  const moves: Move[] = [];
+  let i = observed.length;
+  let j = matched;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && logKeys[i - 1] === traceKeys[j - 1] && costs[i][j] === costs[i - 1][j - 1]) {
+      moves.unshift({ type: 'sync', activity: trace[--j], position: --i });
+    } else if (i > 0 && (j === 0 || costs[i][j] === costs[i - 1][j] + 1)) {
+      moves.unshift({ type: 'log', activity: observed[--i], position: i });
+    } else {
+      moves.unshift({ type: 'model', activity: trace[--j] });
+    }
+  }
+  return { cost: costs[observed.length][matched], moves, matched };
+}
+
+/**
+ * Align an observed log with the model's traces and classify the deviations of the best alignment
+ */
+export function checkConformance(model: BPMNProcessModel, observed: string[], traces: string[][] = modelTraces(model), source: string = 'inline'): ConformanceResult {
+  if (observed.length === 0) {
+    throw new Error('No process events to check');
+  }
+  if (traces.length === 0) {
+    throw new Error(`Process ${model.id} has no complete path from a start event to an end event`);
+  }
+
+  // Map node ids to activity names so logs may use either
+  const names = new Map([...model.nodes.values()].filter(node => node.kind === 'activity').map(node => [normalizeActivity(node.id), node.name]));
+  const log = observed.map(activity => names.get(normalizeActivity(activity)) || activity);
+
+  let best: { cost: number; moves: Move[]; matched: number; trace: string[] } | undefined;
+  for (const trace of traces) {
+    const alignment = align(log, trace);
+    if (!best || alignment.cost < best.cost || (alignment.cost === best.cost && alignment.matched > best.matched)) {
+      best = { ...alignment, trace };
+    }
+  }
+
+  const known = new Set(modelActivities(model).map(normalizeActivity));
+  const logMoves = best.moves.filter(move => move.type === 'log');
+  const deviations: ConformanceDeviation[] = [];
+  for (const move of best.moves.filter(candidate => candidate.type === 'model')) {
+    const moved = logMoves.findIndex(candidate => normalizeActivity(candidate.activity) === normalizeActivity(move.activity));
+    if (moved >= 0) {
+      const [logMove] = logMoves.splice(moved, 1);
+      deviations.push({ kind: 'REORDERED', activity: move.activity, position: logMove.position, message: `"${move.activity}" occurred out of order (event ${logMove.position + 1})` });
+    } else {
+      deviations.push({ kind: 'SKIPPED', activity: move.activity, message: `"${move.activity}" was skipped` });
+    }
+  }
+  for (const move of logMoves) {
+    deviations.push(known.has(normalizeActivity(move.activity))
+      ? { kind: 'REORDERED', activity: move.activity, position: move.position, message: `"${move.activity}" occurred before its turn (event ${move.position + 1})` }
+      : { kind: 'EXTRA', activity: move.activity, position: move.position, message: `"${move.activity}" is not in process ${model.name}` });
+  }
+
+  const fitness = 1 - best.cost / (log.length + best.matched);
+  return {
+    processId: model.id,
+    processName: model.name,
+    source,
+    observed: log,
+    alignedTrace: best.trace.slice(0, best.matched),
+    pending: best.trace.slice(best.matched),
+    deviations,
+    fitness: Math.round(fitness * 1000) / 1000,
+    score: Math.round(fitness * 100)
+  };
+}
+
+export class BPMNConformanceChecker {
+  private options: BPMNConformanceCheckerOptions;
+  private models = new Map<string, LoadedModel>();
+
+  /** Options left unset are read from the environment on first use */
+  constructor(options: BPMNConformanceCheckerOptions = {}) {
+    this.options = options;
+  }
+
+  get path(): string {
+    return this.options.path || process.env.FORTE_BPMN_MODELS_PATH || 'processes';
+  }
+
+  /**
+   * Check an asset's `processEvents` against its `processDefinition` (a .bpmn name inside the models
+   * directory, or inline XML), otherwise against the reference model for its asset type.
+   * Throws when there is no model or no log.
+   */
+  check(asset: TransactionContext): ConformanceResult {
+    const { model, traces, source } = this.referenceModel(asset);
+    return checkConformance(model, observedActivities(asset.processEvents || []), traces, source);
+  }
+
+  private referenceModel(asset: TransactionContext): LoadedModel & { source: string } {
+    const definition = (asset.processDefinition || '').trim();
+    if (definition.startsWith('<')) {
+      const model = parseBPMN(definition);
+      return { model, traces: modelTraces(model), source: 'inline' };
+    }
+    if (!definition && !asset.assetType) {
+      throw new Error('No processDefinition or assetType to select a reference process model');
+    }
+    const path = this.resolve(definition || referenceModelName(asset.assetType));
+    return { ...this.load(path), source: path };
+  }
+
+  /**
+   * Model names resolve inside the models directory only: absolute paths and names that lead outside it
+   * (through "..", or a symlink) are refused, since processDefinition comes from the transaction
+   */
+  private resolve(name: string): string {
+    if (isAbsolute(name)) {
+      throw new Error(`processDefinition ${name} must be a name relative to ${this.path}`);
+    }
+    const root = resolve(this.path);
+    const path = resolve(root, name);
+    if (!isInside(root, path)) {
+      throw new Error(`processDefinition ${name} resolves outside ${this.path}`);
+    }
+    if (!existsSync(path)) {
+      throw new Error(`No reference process model at ${join(this.path, name)}`);
+    }
+    if (!isInside(realpathSync(root), realpathSync(path))) {
+      throw new Error(`processDefinition ${name} resolves outside ${this.path}`);
+    }
+    return join(this.path, name);
+  }
+
+  /** Parsed model and its traces, re-read when the file changes */
+  private load(path: string): LoadedModel {
+    const stats = statSync(path);
+    const signature = `${stats.mtimeMs}:${stats.size}`;
+    const cached = this.models.get(path);
+    if (cached?.signature === signature) return cached;
+
+    const model = loadBPMN(path);
+    const loaded = { model, traces: modelTraces(model), signature };
+    this.models.set(path, loaded);
+    return loaded;
+  }
+}
+
+function isInside(root: string, path: string): boolean {
+  const rest = relative(root, path);
+  return rest !== '' && rest.split(sep)[0] !== '..' && !isAbsolute(rest);
+}
+
+// Export singleton instance
+export const bpmnConformance = new BPMNConformanceChecker();
@@ -0,0 +1,186 @@
+/**
+ * FORTE BPMN 2.0 process models
+ * Reads the flow nodes and sequence flows of a BPMN 2.0 XML process and enumerates the activity
+ * sequences the model allows. Exclusive, event-based and inclusive gateways choose one branch,
+ * parallel gateways split and join; loops are unrolled up to a bounded trace length.
+ */
+
+import { readFileSync } from 'fs';
+import { parseXml } from './XmlParser.ts';
+import type { XmlElement } from './XmlParser.ts';
+
+export type BPMNNodeKind =
+  | 'activity'
+  | 'startEvent'
+  | 'endEvent'
+  | 'intermediateEvent'
+  | 'exclusiveGateway'
+  | 'parallelGateway'
+  | 'inclusiveGateway'
+  | 'eventBasedGateway';
+
+export interface BPMNNode {
+  id: string;
+  kind: BPMNNodeKind;
+  /** Activity label used to match event logs; the id when the model gives no name */
+  name: string;
+  incoming: string[];
+  outgoing: string[];
+}
+
+export interface BPMNSequenceFlow {
+  id: string;
+  sourceRef: string;
+  targetRef: string;
+}
+
+export interface BPMNProcessModel {
+  id: string;
+  name: string;
+  nodes: Map<string, BPMNNode>;
+  flows: Map<string, BPMNSequenceFlow>;
+}
+
+export interface BPMNTraceOptions {
+  /** Longest activity sequence generated (default twice the number of activities) */
+  maxLength?: number;
+  /** Stop after this many distinct sequences (default 500) */
+  maxTraces?: number;
+}
+
+const ACTIVITY_ELEMENTS = [
+  'task', 'userTask', 'serviceTask', 'sendTask', 'receiveTask', 'manualTask', 'businessRuleTask',
+  'scriptTask', 'subProcess', 'adHocSubProcess', 'transaction', 'callActivity'
+];
+const NODE_KINDS: { [element: string]: BPMNNodeKind } = {
+  startEvent: 'startEvent',
+  endEvent: 'endEvent',
+  intermediateCatchEvent: 'intermediateEvent',
+  intermediateThrowEvent: 'intermediateEvent',
+  exclusiveGateway: 'exclusiveGateway',
+  parallelGateway: 'parallelGateway',
+  inclusiveGateway: 'inclusiveGateway',
+  eventBasedGateway: 'eventBasedGateway',
+  ...Object.fromEntries(ACTIVITY_ELEMENTS.map(element => [element, 'activity' as BPMNNodeKind]))
+};
+const DEFAULT_MAX_TRACES = 500;
+/** Gateway and event firings allowed per activity before a path is abandoned */
+const MAX_SILENT_STEPS_PER_ACTIVITY = 4;
+
+/**
+ * Parse the first process of a BPMN 2.0 document. Boundary events are ignored; a model without a
+ * start event, without activities or with dangling sequence flows throws.
+ */
+export function parseBPMN(xml: string): BPMNProcessModel {
+  const root = parseXml(xml);
+  if (root.name !== 'definitions') {
+    throw new Error(`Not a BPMN 2.0 document: root element is <${root.name}>`);
+  }
+  const process = root.children.find(child => child.name === 'process' && child.children.some(node => NODE_KINDS[node.name]));
+  if (!process) {
+    throw new Error('BPMN document has no process with flow nodes');
+  }
+
+  const processId = process.attributes.id || 'process';
+  const nodes = new Map<string, BPMNNode>();
+  const flows = new Map<string, BPMNSequenceFlow>();
+  process.children.forEach((element: XmlElement) => {
+    const kind = NODE_KINDS[element.name];
+    if (kind && element.attributes.id) {
+      const id = element.attributes.id;
+      nodes.set(id, { id, kind, name: (element.attributes.name || id).trim(), incoming: [], outgoing: [] });
+    } else if (element.name === 'sequenceFlow') {
+      const { id, sourceRef, targetRef } = element.attributes;
+      flows.set(id, { id, sourceRef, targetRef });
+    }
+  });
+
+  for (const flow of flows.values()) {
+    const source = nodes.get(flow.sourceRef);
+    const target = nodes.get(flow.targetRef);
+    if (!source || !target) {
+      throw new Error(`Sequence flow ${flow.id} in process ${processId} references an unknown node (${flow.sourceRef} -> ${flow.targetRef})`);
+    }
+    source.outgoing.push(flow.id);
+    target.incoming.push(flow.id);
+  }
+
+  const all = [...nodes.values()];
+  if (!all.some(node => node.kind === 'startEvent')) {
+    throw new Error(`Process ${processId} has no start event`);
+  }
+  if (!all.some(node => node.kind === 'activity')) {
+    throw new Error(`Process ${processId} has no activities`);
+  }
+  return { id: processId, name: process.attributes.name || processId, nodes, flows };
+}
+
+export function loadBPMN(path: string): BPMNProcessModel {
+  return parseBPMN(readFileSync(path, 'utf-8'));
+}
+
+export function modelActivities(model: BPMNProcessModel): string[] {
+  return [...new Set([...model.nodes.values()].filter(node => node.kind === 'activity').map(node => node.name))];
+}
+
+/**
+ * Activity sequences from a start event to completion (every token consumed by an end event),
+ * shortest first. Paths that deadlock or exceed the length bound are dropped.
+ */
+export function modelTraces(model: BPMNProcessModel, options: BPMNTraceOptions = {}): string[][] {
+  const maxLength = options.maxLength ?? 2 * modelActivities(model).length;
+  const maxTraces = options.maxTraces ?? DEFAULT_MAX_TRACES;
+  const maxSteps = (maxLength + 1) * MAX_SILENT_STEPS_PER_ACTIVITY + model.nodes.size;
+  const traces = new Map<string, string[]>();
+  const visited = new Set<string>();
+
+  type Marking = { [flowId: string]: number };
+  const key = (marking: Marking) => Object.keys(marking).filter(flow => marking[flow] > 0).sort().map(flow => `${flow}=${marking[flow]}`).join(',');
+  const produce = (marking: Marking, flowIds: string[]): Marking => {
+    const next = { ...marking };
+    flowIds.forEach(flow => { next[flow] = (next[flow] || 0) + 1; });
+    return next;
+  };
+  const consume = (marking: Marking, flowIds: string[]): Marking => {
+    const next = { ...marking };
+    flowIds.forEach(flow => { next[flow] -= 1; });
+    return next;
+  };
+
+  const explore = (marking: Marking, trace: string[], steps: number): void => {
+    if (traces.size >= maxTraces || trace.length > maxLength || steps > maxSteps) return;
+    const markingKey = key(marking);
+    if (markingKey === '') {
+      traces.set(trace.join('\u0000'), trace);
+      return;
+    }
+    const stateKey = `${markingKey}|${trace.join('\u0000')}`;
+    if (visited.has(stateKey)) return;
+    visited.add(stateKey);
+
+    for (const node of model.nodes.values()) {
+      const marked = node.incoming.filter(flow => marking[flow] > 0);
+      if (node.kind === 'parallelGateway') {
+        if (marked.length === 0 || marked.length < node.incoming.length) continue;
+        explore(produce(consume(marking, node.incoming), node.outgoing), trace, steps + 1);
+        continue;
+      }
+      // Any other node merges its incoming flows: one token from any of them enables it
+      for (const flow of marked) {
+        const remaining = consume(marking, [flow]);
+        if (node.kind === 'activity') {
+          explore(produce(remaining, node.outgoing), [...trace, node.name], steps + 1);
+        } else if (['exclusiveGateway', 'inclusiveGateway', 'eventBasedGateway'].includes(node.kind) && node.outgoing.length > 1) {
+          node.outgoing.forEach(outgoing => explore(produce(remaining, [outgoing]), trace, steps + 1));
+        } else {
+          explore(produce(remaining, node.outgoing), trace, steps + 1);
+        }
+      }
+    }
+  };
+
+  for (const start of model.nodes.values()) {
+    if (start.kind === 'startEvent') explore(produce({}, start.outgoing), [], 0);
+  }
+  return [...traces.values()].sort((a, b) => a.length - b.length);
+}
@@ -0,0 +1,590 @@
+/**
+ * Built-in FORTE condition functions
+ * Implementations for every function referenced by policies/institutional-rwa-complete.json.
+ * Thresholds live in the policy (rule `value` fields and `complianceThresholds`), not here.
+ */
+
+import { zkPretManager } from '../zkpret-integration/ZKPretAdapter.ts';
+import type { ZKPretVerificationResult, ZKPretVerifierType } from '../zkpret-integration/ZKPretAdapter.ts';
+import type { ConditionContext } from './ConditionInterpreter.ts';
+import type { ConditionDefinition } from './ConditionRegistry.ts';
+import { sanctionsScreening } from './SanctionsScreening.ts';
+import type { SanctionsMatch } from './SanctionsScreening.ts';
+import { OFAC_SDN_LIST_ID } from './OFACSdnParser.ts';
+import { gleifRegistry } from './GLEIFRegistry.ts';
+import { leiRelationships } from './LEIRelationshipGraph.ts';
+import { isValidLEI } from './GLEIFGoldenCopy.ts';
+import { analyzeACTUSContract, DEFAULT_MAXIMUM_RISK_SCORE } from './ACTUSEngine.ts';
+import type { ACTUSRiskAnalysis } from './ACTUSEngine.ts';
+import { CREDIT_RATINGS } from './TransactionContext.ts';
+import type { AssetType, TransactionContext } from './TransactionContext.ts';
+import { dcsaDocuments } from './DCSADocuments.ts';
+import type { DCSARequirements } from './DCSADocuments.ts';
+import { bpmnConformance } from './BPMNConformance.ts';
+import type { MetadataScorePolicy } from './MetadataThresholds.ts';
+import { evaluateFractionCount, fractionSettingsFromPolicy } from './FractionOptimizer.ts';
+import type { FractionOptimization } from './FractionOptimizer.ts';
+
+// Mock external data sources - in production, integrate with Paxos and price oracles
+const PYUSD_PEG_PRICE = 1.001; // Simulated current PYUSD price in USD
+const PAXOS_AVAILABLE_LIQUIDITY = 50000000; // Mock $50M liquidity limit
+const STRESS_RATE_SHOCK_BPS = 300; // Interest rate shock applied in ACTUS stress testing
+const STRESS_DOWNGRADE_NOTCHES = 1; // Credit rating downgrade applied in ACTUS stress testing
+const INSTITUTIONAL_KYC_LEVEL = 3;
+
+function pyusdCompliance(context: ConditionContext): any {
+  return context.policy?.complianceThresholds?.pyusdCompliance || {};
+}
+
+/** Digital currency address screening against the OFAC SDN list */
+function isSanctioned(address: string | undefined): boolean {
+  return !!address && sanctionsScreening.screenAddress(address, [OFAC_SDN_LIST_ID]).matched;
+}
+
+function getCrossBorderLimit(buyerCountry: string, sellerCountry: string, context: ConditionContext): number {
+  const limits: { [key: string]: number } = pyusdCompliance(context).corridorLimits || {};
+  return limits[`${buyerCountry}-${sellerCountry}`]
+    || limits[`${sellerCountry}-${buyerCountry}`]
+    || limits['default']
+    || pyusdCompliance(context).maxCrossBorderAmount
+    || 0;
+}
+
+/** Record the proof produced by a ZK PRET verification as rule evidence */
+function withProof(context: ConditionContext, verifier: ZKPretVerifierType, result: ZKPretVerificationResult): ZKPretVerificationResult {
+  // A rule may run the same (cached) verification more than once; reference each proof once
+  if (context.proofs && result.proof && !context.proofs.some(proof => proof.verifier === verifier && proof.proof === result.proof)) {
+    context.proofs.push({
+      verifier,
+      proof: result.proof,
+      verified: result.verified,
+      score: result.score,
+      timestamp: result.timestamp,
+      source: result.source
+    });
+  }
+  return result;
+}
+
+/** ACTUS cash-flow analysis of an asset, recorded once per scenario as evidence; undefined when the terms cannot be projected */
+function actusAnalysis(assetData: TransactionContext, context: ConditionContext, scenario: string = 'base'): ACTUSRiskAnalysis | undefined {
+  let analysis: ACTUSRiskAnalysis;
+  try {
+    analysis = analyzeACTUSContract(assetData);
+  } catch (error: any) {
+    const summary = `ACTUS (${scenario}): ${error.message}`;
+    if (context.evidence && !context.evidence.some(evidence => evidence.summary === summary)) {
+      context.evidence.push({ type: 'ACTUS_ANALYSIS', summary, details: { scenario, error: error.message } });
+    }
+    return undefined;
+  }
+  const { terms } = analysis;
+  const summary = `ACTUS ${terms.contractType} (${scenario}): ${terms.creditRating}, ${analysis.events.length} events, `
+    + `duration ${analysis.durationYears}y, risk ${analysis.riskScore}, liquidity ${analysis.liquidityScore}`;
+  if (context.evidence && !context.evidence.some(evidence => evidence.summary === summary)) {
+    const { events, ...details } = analysis;
+    context.evidence.push({ type: 'ACTUS_ANALYSIS', summary, details: { scenario, ...details, eventCount: events.length } });
+  }
+  return analysis;
+}
+
+/** BPMN conformance of the asset's process events, recorded once as evidence */
+function recordConformance(assetData: TransactionContext, context: ConditionContext): void {
+  if (!context.evidence || context.evidence.some(evidence => evidence.type === 'BPMN_CONFORMANCE')) return;
+  try {
+    const result = bpmnConformance.check(assetData);
+    context.evidence.push({
+      type: 'BPMN_CONFORMANCE',
+      summary: `${result.processName}: fitness ${result.fitness} over ${result.observed.length} events, `
+        + (result.deviations.length === 0 ? 'no deviations' : result.deviations.map(deviation => deviation.message).join('; ')),
+      details: result
+    });
+  } catch (error: any) {
+    context.evidence.push({ type: 'BPMN_CONFORMANCE', summary: error.message, details: { error: error.message } });
+  }
+}
+
+/** Optimizer recommendation for the asset, recorded once as evidence */
+function fractionOptimization(principalAmount: number, assetType: string, context: ConditionContext): FractionOptimization {
+  const settings = fractionSettingsFromPolicy(context.policy, { ...context.data, assetType: assetType as AssetType });
+  const result = zkPretManager.calculateOptimalFractions(principalAmount || 0, settings);
+  if (context.evidence && !context.evidence.some(evidence => evidence.type === 'FRACTION_OPTIMIZATION')) {
+    context.evidence.push({
+      type: 'FRACTION_OPTIMIZATION',
+      summary: `${result.totalFractions} fractions of $${result.minimumFractionSize.toLocaleString()}`
+        + `${result.residual > 0 ? ` leaving $${result.residual.toLocaleString()} of principal unallocated` : ''} (max holding $${result.maximumSize.toLocaleString()}): `
+        + `~${result.holders} holders, ${result.subscription}x subscribed, expected liquidity $${result.expectedLiquidity.toLocaleString()}/yr; ${result.reason}`,
+      details: result
+    });
+  }
+  return result;
+}
+
+/** GLEIF verification of an LEI against corporateName, recording the proof and the registry record as evidence */
+async function verifyLEI(lei: string, context: ConditionContext): Promise<ZKPretVerificationResult> {
+  const corporateName = context.data.corporateName || '';
+  const result = withProof(context, 'GLEIF', await zkPretManager.verifyGLEIF(lei, corporateName));
+  const record = gleifRegistry.lookup(lei);
+  context.evidence?.push({
+    type: 'GLEIF_LEI',
+    summary: result.verified
+      ? `${lei} is registered to "${record?.legalName}" (${record?.entityStatus})`
+      : `${lei} not verified: ${result.error}`,
+    details: { lei, corporateName, verified: result.verified, record, reason: result.error }
+  });
+  return result;
+}
+
+function metadataScorePolicy(context: ConditionContext): MetadataScorePolicy | undefined {
+  return context.policy?.complianceThresholds?.metadataScore;
+}
+
+function maximumRiskScore(context: ConditionContext): number {
+  return context.policy?.complianceThresholds?.riskScore?.maximum ?? DEFAULT_MAXIMUM_RISK_SCORE;
+}
+
+/** Which asset types need DCSA documents or an eBL, from the policy; the verifier's defaults when unset */
+function dcsaRequirements(context: ConditionContext): DCSARequirements | undefined {
+  return context.policy?.complianceThresholds?.dcsaDocuments;
+}
+
+/** Metadata score under the policy's scoring model, with the component breakdown recorded once as evidence */
+async function metadataScore(context: ConditionContext) {
+  const scores = await zkPretManager.calculateMetadataScore(context.data, metadataScorePolicy(context)?.scoringModel, dcsaRequirements(context));
+  if (context.evidence && !context.evidence.some(evidence => evidence.type === 'METADATA_SCORE')) {
+    context.evidence.push({
+      type: 'METADATA_SCORE',
+      summary: `${scores.totalScore}/100: ` + scores.components.map(component => component.explanation).join('; '),
+      details: { assetType: context.data.assetType, totalScore: scores.totalScore, components: scores.components }
+    });
+  }
+  return scores;
+}
+
+export const builtinConditions: { [name: string]: ConditionDefinition } = {
+  // RULE_01: Enhanced KYC + GLEIF
+  requireGLEIFVerification: {
+    params: ['string'],
+    returns: 'boolean',
+    implementation: async ([lei], context) => {
+      if (!lei) return false;
+      return (await verifyLEI(lei, context)).verified;
+    }
+  },
+  checkKYCLevel: {
+    params: ['string'],
+    returns: 'number',
+    implementation: async (_args, context) => {
+      // Explicit KYC tier if supplied, otherwise LEI-backed entities are institutional tier
+      if (typeof context.data.kycLevel === 'number') return context.data.kycLevel;
+      return context.data.legalEntityIdentifier ? INSTITUTIONAL_KYC_LEVEL : 0;
+    }
+  },
+
+  // RULE_02: Enhanced OFAC
+  checkOFACSanctions: {
+    params: ['string'],
+    returns: 'boolean',
+    implementation: ([recipient]) => isSanctioned(recipient)
+  },
+  checkRealtimeSanctions: {
+    params: ['string'],
+    returns: 'boolean',
+    description: 'Re-reads the SDN source first, so a list update published since the last check applies',
+    implementation: ([recipient]) => {
+      sanctionsScreening.refresh();
+      return isSanctioned(recipient);
+    }
+  },
+
+  // RULE_03: Cross-border sanctions
+  checkCrossBorderSanctions: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    description: 'True when sender and recipient clear every loaded list (OFAC, EU, UN, UK HMT)',
+    implementation: ([sender, recipient]) =>
+      [sender, recipient].filter(Boolean).every(address => !sanctionsScreening.screenAddress(address).matched)
+  },
+  // RULE_03 (strong match) and RULE_15 (review)
+  sanctionsNameMatchScore: {
+    params: ['string'],
+    returns: 'number',
+    description: 'Best fuzzy match score (0-1) of an entity name against every loaded list; matched entries are recorded as evidence',
+    implementation: ([name], context) => {
+      if (!name) return 0;
+      const screening = sanctionsScreening.screenName(name);
+      for (const match of screening.matches) {
+        const summary = `"${name}" matches ${match.listId} ${match.uid} "${match.matchedValue}" (score ${match.score})`;
+        // A rule may compare the same score against both thresholds; record each match once
+        if (context.evidence && !context.evidence.some(evidence => evidence.summary === summary)) {
+          context.evidence.push({ type: 'SANCTIONS_NAME_MATCH', summary, details: { screenedName: name, ...match } });
+        }
+      }
+      return screening.matches[0]?.score ?? 0;
+    }
+  },
+  corporateGroupSanctionsScore: {
+    params: ['string'],
+    returns: 'number',
+    description: 'Best sanctions name match score (0-1) among the LEI\'s parents up to its ultimate parent; a listed parent taints its subsidiaries, and a parent missing from the golden copy scores 1',
+    implementation: ([lei], context) => {
+      let best = 0;
+      for (const parent of lei ? leiRelationships.parents(lei) : []) {
+        const record = gleifRegistry.lookup(parent);
+        if (!record) {
+          // A parent without a name cannot be screened, so it cannot be cleared either
+          best = 1;
+          context.evidence?.push({
+            type: 'CORPORATE_GROUP_UNRESOLVED',
+            summary: `Parent ${parent} of ${lei} is not in the GLEIF golden copy and cannot be screened`,
+            details: { lei, parentLei: parent }
+          });
+          continue;
+        }
+        // Keep each list entry's best score across the parent's registered names
+        const matches = new Map<string, SanctionsMatch>();
+        for (const match of [record.legalName, ...record.otherNames].flatMap(name => sanctionsScreening.screenName(name).matches)) {
+          const key = `${match.listId}:${match.uid}`;
+          if (!matches.has(key) || matches.get(key).score < match.score) matches.set(key, match);
+        }
+        for (const match of matches.values()) {
+          best = Math.max(best, match.score);
+          context.evidence?.push({
+            type: 'CORPORATE_GROUP_SANCTIONS',
+            summary: `Parent ${parent} "${record.legalName}" of ${lei} matches ${match.listId} ${match.uid} "${match.matchedValue}" (score ${match.score})`,
+            details: { lei, parentLei: parent, parentName: record.legalName, ...match }
+          });
+        }
+      }
+      return best;
+    }
+  },
+  checkCorporateGroupJurisdiction: {
+    params: ['string'],
+    returns: 'boolean',
+    description: 'True when no parent of the LEI up to its ultimate parent is registered in a restricted country',
+    implementation: ([lei], context) => {
+      const restricted: string[] = pyusdCompliance(context).restrictedCountries || [];
+      const tainted = (lei ? leiRelationships.parents(lei) : [])
+        .map(parent => gleifRegistry.lookup(parent))
+        .filter(record => record && restricted.includes(record.country));
+      tainted.forEach(record => context.evidence?.push({
+        type: 'CORPORATE_GROUP_JURISDICTION',
+        summary: `Parent ${record.lei} "${record.legalName}" of ${lei} is registered in restricted country ${record.country}`,
+        details: { lei, parentLei: record.lei, parentName: record.legalName, country: record.country }
+      }));
+      return tainted.length === 0;
+    }
+  },
+  validateJurisdiction: {
+    params: ['object'],
+    returns: 'boolean',
+    implementation: ([transaction], context) => {
+      const restricted: string[] = pyusdCompliance(context).restrictedCountries || [];
+      return !restricted.includes(transaction?.buyerCountry) && !restricted.includes(transaction?.sellerCountry);
+    }
+  },
+
+  // RULE_04: GLEIF verification
+  zkPretGLEIFVerification: {
+    params: ['string'],
+    returns: 'boolean',
+    implementation: async ([lei], context) => {
+      if (!lei) return false;
+      return (await verifyLEI(lei, context)).verified;
+    }
+  },
+  validateLEIFormat: {
+    params: ['string'],
+    returns: 'boolean',
+    description: 'ISO 17442 length, character set and MOD 97-10 check digits',
+    implementation: ([lei]) => isValidLEI(lei)
+  },
+  checkLEIStatus: {
+    params: ['string'],
+    returns: 'string',
+    description: 'Entity status (ACTIVE/INACTIVE) from the GLEIF golden copy, UNKNOWN when not registered',
+    implementation: ([lei]) => (lei && gleifRegistry.lookup(lei)?.entityStatus) || 'UNKNOWN'
+  },
+
+  // RULE_05: BPMN compliance
+  zkPretBPMNVerification: {
+    params: ['object'],
+    returns: 'boolean',
+    description: 'Observed processEvents conform to the asset type\'s BPMN reference model (or processDefinition), attested by the ZK PRET BPMN verifier',
+    implementation: async ([assetData], context) => {
+      const result = withProof(context, 'BPMN', await zkPretManager.verifyBPMNCompliance(assetData));
+      recordConformance(assetData, context);
+      return result.verified;
+    }
+  },
+  validateBusinessProcess: {
+    params: ['object'],
+    returns: 'number',
+    description: 'Alignment-based fitness (0-100) of processEvents against the BPMN reference model',
+    implementation: async ([assetData], context) => {
+      const result = withProof(context, 'BPMN', await zkPretManager.verifyBPMNCompliance(assetData));
+      recordConformance(assetData, context);
+      return result.score || 0;
+    }
+  },
+
+  // RULE_06: ACTUS risk assessment
+  zkPretACTUSRiskScore: {
+    params: ['object'],
+    returns: 'number',
+    description: 'ACTUS cash-flow risk score (0-1000, lower is safer) attested by the ZK PRET ACTUS verifier',
+    implementation: async ([assetData], context) => {
+      actusAnalysis(assetData, context);
+      const result = withProof(context, 'ACTUS', await zkPretManager.assessACTUSRisk(assetData, maximumRiskScore(context)));
+      return result.score ?? 999;
+    }
+  },
+  validateLiquidityScore: {
+    params: ['object'],
+    returns: 'number',
+    description: 'ACTUS liquidity score (0-1000) from weighted average life, credit risk and payment frequency',
+    implementation: async ([assetData], context) => {
+      withProof(context, 'ACTUS', await zkPretManager.assessACTUSRisk(assetData, maximumRiskScore(context)));
+      return actusAnalysis(assetData, context)?.liquidityScore ?? 0;
+    }
+  },
+  checkStressTesting: {
+    params: ['object'],
+    returns: 'boolean',
+    description: 'Risk score stays within complianceThresholds.riskScore.maximum after a rate shock and a rating downgrade',
+    implementation: async ([assetData], context) => {
+      const maximum = maximumRiskScore(context);
+      const rating = CREDIT_RATINGS.indexOf(assetData.creditRating);
+      const stressed = {
+        ...assetData,
+        interestRate: (assetData.interestRate || 0) + STRESS_RATE_SHOCK_BPS,
+        creditRating: rating >= 0 ? CREDIT_RATINGS[Math.min(rating + STRESS_DOWNGRADE_NOTCHES, CREDIT_RATINGS.length - 1)] : assetData.creditRating
+      };
+      actusAnalysis(stressed, context, 'stressed');
+      const result = withProof(context, 'ACTUS', await zkPretManager.assessACTUSRisk(stressed, maximum));
+      return (result.score ?? 999) <= maximum;
+    }
+  },
+
+  // RULE_07: DCSA documents
+  zkPretDCSAVerification: {
+    params: ['string'],
+    returns: 'boolean',
+    description: 'DCSA eBL and booking documents in tradeDocuments are schema-valid, match the asset\'s parties and ports, and hash to documentHash',
+    implementation: async ([documentHash], context) => {
+      const tradeDocuments = context.data.tradeDocuments || [];
+      const requirements = dcsaRequirements(context);
+      const result = withProof(context, 'DCSA', await zkPretManager.verifyDCSADocuments(documentHash || '', tradeDocuments, context.data, requirements));
+      const verification = dcsaDocuments.verify({ ...context.data, documentHash, tradeDocuments }, requirements);
+      verification.documents.forEach(document => context.evidence?.push({
+        type: 'DCSA_DOCUMENT',
+        summary: document.issues.length === 0
+          ? `${document.name}: valid ${document.type} ${document.reference}`
+          : `${document.name}: ${document.issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`,
+        details: document
+      }));
+      if (verification.documentHash || verification.issues.length > 0) {
+        context.evidence?.push({
+          type: 'DCSA_DOCUMENT_SET',
+          summary: verification.issues.length === 0
+            ? `documentHash matches the DCSA documents (${verification.documentHash})`
+            : verification.issues.join('; '),
+          details: { declaredHash: verification.declaredHash, documentHash: verification.documentHash, unstructured: verification.unstructured }
+        });
+      }
+      return result.verified;
+    }
+  },
+  validateTradeDocuments: {
+    params: ['array'],
+    returns: 'number',
+    implementation: ([tradeDocuments]) => (Array.isArray(tradeDocuments) ? tradeDocuments.length : 0)
+  },
+
+  // RULE_16: Unstructured trade documents
+  countDCSADocuments: {
+    params: ['array'],
+    returns: 'number',
+    description: 'Number of tradeDocuments entries that are DCSA eBL or booking documents; unstructured-only sets are recorded as unverified',
+    implementation: ([tradeDocuments], context) => {
+      const verification = dcsaDocuments.verify({ ...context.data, tradeDocuments: Array.isArray(tradeDocuments) ? tradeDocuments : [] }, dcsaRequirements(context));
+      const count = verification.documents.filter(document => document.type).length;
+      if (count === 0 && verification.unstructured.length > 0) {
+        context.evidence?.push({
+          type: 'DCSA_UNSTRUCTURED',
+          summary: `No DCSA documents; ${verification.unstructured.join(', ')} only checked for presence, not content`,
+          details: { unstructured: verification.unstructured, declaredHash: verification.declaredHash }
+        });
+      }
+      return count;
+    }
+  },
+
+  // RULE_08: Optimal fractions
+  calculateOptimalFractions: {
+    params: ['number', 'string'],
+    returns: 'number',
+    description: 'Fraction count the investor-demand optimizer recommends',
+    implementation: ([principalAmount, assetType], context) =>
+      fractionOptimization(principalAmount, assetType, context).totalFractions
+  },
+  validateFractionSize: {
+    params: ['number', 'number'],
+    returns: 'number',
+    implementation: ([principalAmount, totalFractions]) =>
+      totalFractions ? Math.floor((principalAmount || 0) / totalFractions) : 0
+  },
+  optimizeFractionParameters: {
+    params: ['number', 'string'],
+    returns: 'object',
+    description: 'ADJUST patch: rewrite fraction count and size to the optimal values',
+    implementation: ([principalAmount, assetType], context) => {
+      const fractions = fractionOptimization(principalAmount, assetType, context);
+      return {
+        totalFractions: fractions.totalFractions,
+        minimumFractionSize: fractions.minimumFractionSize
+      };
+    }
+  },
+
+  // RULE_09: Metadata score
+  calculateMetadataScore: {
+    params: ['object'],
+    returns: 'number',
+    implementation: async (_args, context) => (await metadataScore(context)).totalScore
+  },
+  validateGLEIFComponent: {
+    params: ['object'],
+    returns: 'number',
+    implementation: async (_args, context) => (await metadataScore(context)).gleifScore
+  },
+  validateBPMNComponent: {
+    params: ['object'],
+    returns: 'number',
+    implementation: async (_args, context) => (await metadataScore(context)).bpmnScore
+  },
+
+  // RULE_10: Minimum fraction
+  checkMinimumFractionSize: {
+    params: ['number'],
+    returns: 'number',
+    implementation: ([transferAmount]) => transferAmount || 0
+  },
+  validateAssetTypeMinimum: {
+    params: ['string', 'number'],
+    returns: 'boolean',
+    description: 'Transfer amount meets complianceThresholds.fractionSizes for the asset type',
+    implementation: ([assetType, transferAmount], context) => {
+      const fractionSizes = context.policy?.complianceThresholds?.fractionSizes || {};
+      return assetType in fractionSizes && (transferAmount || 0) >= fractionSizes[assetType];
+    }
+  },
+
+  // RULE_11: Liquidity optimization
+  calculateLiquidityScore: {
+    params: ['number', 'string'],
+    returns: 'number',
+    description: 'Expected holders of the asset\'s fractions given its target investor base',
+    implementation: ([totalFractions, assetType], context) => {
+      if (!totalFractions || !context.data.principalAmount) return 0;
+      const settings = fractionSettingsFromPolicy(context.policy, { ...context.data, assetType });
+      return evaluateFractionCount(context.data.principalAmount, totalFractions, settings).holders;
+    }
+  },
+  checkSweetSpotRange: {
+    params: ['number'],
+    returns: 'number',
+    implementation: ([totalFractions]) => totalFractions || 0
+  },
+
+  // RULE_12: Enhanced metadata enforcement
+  checkMetadataThreshold: {
+    params: ['object'],
+    returns: 'boolean',
+    description: 'Metadata score meets the required score from the policy\'s principal tiers and asset type, jurisdiction and rating adjustments',
+    implementation: async ([assetData], context) => {
+      const result = await zkPretManager.checkMetadataThreshold(assetData, metadataScorePolicy(context), dcsaRequirements(context));
+      context.evidence?.push({
+        type: 'METADATA_THRESHOLD',
+        summary: `score ${result.currentScore} against required ${result.requiredScore} (${result.explanation})`,
+        details: result
+      });
+      return result.meetsThreshold;
+    }
+  },
+  validatePrincipalAmountRequirements: {
+    params: ['number', 'number'],
+    returns: 'boolean',
+    implementation: async ([principalAmount, score], context) => {
+      const minimum = context.policy?.complianceThresholds?.metadataScore?.minimum ?? 70;
+      const currentScore = typeof score === 'number' ? score : (await metadataScore(context)).totalScore;
+      return (principalAmount || 0) > 0 && currentScore >= minimum;
+    }
+  },
+  checkAssetTypeCompliance: {
+    params: ['string', 'number'],
+    returns: 'boolean',
+    implementation: async ([assetType, score], context) => {
+      const fractionSizes = context.policy?.complianceThresholds?.fractionSizes || {};
+      const minimum = context.policy?.complianceThresholds?.metadataScore?.minimum ?? 70;
+      const currentScore = typeof score === 'number' ? score : (await metadataScore(context)).totalScore;
+      return assetType in fractionSizes && currentScore >= minimum;
+    }
+  },
+
+  // RULE_13: PYUSD peg verification
+  checkPYUSDPegStability: {
+    params: ['number'],
+    returns: 'number',
+    implementation: () => PYUSD_PEG_PRICE
+  },
+  validatePaxosReserves: {
+    params: ['number'],
+    returns: 'boolean',
+    implementation: ([principalAmount], context) =>
+      (context.data.pyusdAmount || principalAmount || 0) <= PAXOS_AVAILABLE_LIQUIDITY
+  },
+  checkPYUSDLiquidity: {
+    params: ['number'],
+    returns: 'number',
+    implementation: ([pyusdAmount]) => pyusdAmount || 0
+  },
+
+  // RULE_14: Cross-border PYUSD compliance
+  validateCountryPYUSDCompliance: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    implementation: ([buyerCountry = 'US', sellerCountry = 'US'], context) => {
+      const supported: string[] = pyusdCompliance(context).supportedCountries || [];
+      return supported.includes(buyerCountry) && supported.includes(sellerCountry);
+    }
+  },
+  checkCrossBorderLimits: {
+    params: ['number', 'string', 'string'],
+    returns: 'boolean',
+    implementation: ([pyusdAmount, buyerCountry = 'US', sellerCountry = 'US'], context) =>
+      (pyusdAmount || 0) <= getCrossBorderLimit(buyerCountry, sellerCountry, context)
+  },
+  validateFATFCompliance: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    implementation: ([buyerCountry = 'US', sellerCountry = 'US'], context) => {
+      const compliance = pyusdCompliance(context);
+      if (!compliance.fatfCompliantOnly) return true;
+      const restricted: string[] = compliance.restrictedCountries || [];
+      return !restricted.includes(buyerCountry) && !restricted.includes(sellerCountry);
+    }
+  },
+  checkRemittanceRegulations: {
+    params: ['number', 'string', 'string'],
+    returns: 'boolean',
+    implementation: ([pyusdAmount, buyerCountry = 'US', sellerCountry = 'US'], context) => {
+      // Country-specific remittance caps, e.g. RBI annual limit for India
+      const limits: { [country: string]: number } = pyusdCompliance(context).remittanceLimits || {};
+      return [buyerCountry, sellerCountry].every(country =>
+        limits[country] === undefined || (pyusdAmount || 0) <= limits[country]
+      );
+    }
+  }
+};
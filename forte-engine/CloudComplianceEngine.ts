@@ -0,0 +1,223 @@
+/**
+ * FORTE Cloud compliance backend
+ * Registers policies and checks rules through the FORTE Cloud REST API, falling back to a
+ * full local engine (not a partial rule subset) when the API is unavailable
+ */
+
+import type { TransactionContext } from './TransactionContext.ts';
+import type {
+  ComplianceEngine,
+  ComplianceRoute,
+  ComplianceSummary,
+  EngineHealth,
+  PolicyApplication,
+  RuleCheckOptions,
+  RuleCheckResult
+} from './ComplianceEngine.ts';
+
+export interface CloudEngineOptions {
+  apiUrl: string;
+  apiKey: string;
+  timeoutMs?: number;
+  /** Engine used when no API key is set or a request fails; policies are mirrored into it */
+  fallback?: ComplianceEngine;
+}
+
+export class CloudComplianceEngine implements ComplianceEngine {
+  readonly backend = 'cloud' as const;
+  private apiUrl: string;
+  private apiKey: string;
+  private timeoutMs: number;
+  private fallback?: ComplianceEngine;
+  private policies: Map<string, any> = new Map();
+
+  constructor(options: CloudEngineOptions) {
+    this.apiUrl = options.apiUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs || 30000;
+    this.fallback = options.fallback;
+
+    if (!this.apiKey) {
+      console.warn(`⚠️ FORTE_API_KEY not set - ${this.fallback ? 'using local rule evaluation' : 'cloud requests will fail'}`);
+    }
+  }
+
+  async registerPolicy(policy: any, policyId?: string): Promise<string> {
+    let registeredId = policyId;
+
+    if (this.apiKey) {
+      try {
+        const result = await this.request('POST', '/v1/policies', {
+          policyId,
+          name: policy.policyName,
+          description: policy.description,
+          rules: policy.rules,
+          ruleChain: policy.ruleChain,
+          complianceThresholds: policy.complianceThresholds,
+          metadata: {
+            zkPretIntegrations: policy.zkPretIntegrations,
+            emergencyControls: policy.emergencyControls,
+            version: policy.policyVersion
+          },
+          // The policy as given, so the server hashes the same content policyId was derived from
+          policy
+        });
+        registeredId = result.policyId;
+        console.log(`✅ FORTE Cloud Policy registered: ${registeredId}`);
+        console.log(`🔗 Policy URL: ${this.apiUrl}/policies/${registeredId}`);
+      } catch (error) {
+        if (!this.fallback) throw error;
+        console.error('❌ FORTE Cloud policy registration failed:', error);
+        console.log('🔄 Registering policy with local engine only...');
+      }
+    }
+
+    if (this.fallback) {
+      registeredId = await this.fallback.registerPolicy(policy, registeredId);
+    }
+    if (!registeredId) {
+      throw new Error('FORTE Cloud did not return a policy ID');
+    }
+    this.policies.set(registeredId, policy);
+    return registeredId;
+  }
+
+  getPolicy(policyId: string): any | undefined {
+    return this.policies.get(policyId);
+  }
+
+  async applyPolicy(policyId: string, contractAddress: string, chainId?: string): Promise<PolicyApplication> {
+    if (!this.apiKey) {
+      return this.requireFallback().applyPolicy(policyId, contractAddress, chainId);
+    }
+    try {
+      const result = await this.request('POST', `/v1/policies/${policyId}/apply`, {
+        contractAddress,
+        network: 'ethereum',
+        chainId: chainId || 'unknown'
+      });
+      return {
+        success: result.success !== false,
+        activeRules: result.activeRules || [],
+        error: result.error
+      };
+    } catch (error: any) {
+      if (!this.fallback) {
+        return { success: false, activeRules: [], error: error.message };
+      }
+      console.error('❌ FORTE Cloud policy application failed:', error);
+      console.log('🔄 Falling back to local policy application...');
+      return this.fallback.applyPolicy(policyId, contractAddress, chainId);
+    }
+  }
+
+  async checkRules(policyId: string, transaction: TransactionContext, options: RuleCheckOptions = {}): Promise<RuleCheckResult> {
+    if (!this.apiKey) {
+      console.log('🔧 Using local rule evaluation (no FORTE API key)');
+      return this.requireFallback().checkRules(policyId, transaction, options);
+    }
+
+    console.log(`🔍 Checking FORTE rules via Cloud API for policy ${policyId}...`);
+    try {
+      const response = await this.request('POST', `/v1/policies/${policyId}/check`, {
+        transactionData: transaction,
+        options,
+        metadata: {
+          timestamp: Date.now(),
+          source: 'InstitutionalRWAPlatform',
+          version: '1.0.0'
+        }
+      });
+      const result = this.toRuleCheckResult(response);
+
+      console.log(`📊 FORTE Cloud Response:`);
+      console.log(`✅ Passed: ${result.passedRules.length}`);
+      console.log(`❌ Failed: ${result.failedRules.length}`);
+      console.log(`⚠️ Warnings: ${result.warnings.length}`);
+      return result;
+    } catch (error) {
+      if (!this.fallback) throw error;
+      console.error('❌ FORTE Cloud API call failed:', error);
+      console.log('🔄 Falling back to local rule evaluation...');
+      return this.fallback.checkRules(policyId, transaction, options);
+    }
+  }
+
+  /** Whether requests go to FORTE Cloud at all (an API key is set) */
+  get connected(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  get canFallBack(): boolean {
+    return Boolean(this.fallback);
+  }
+
+  /**
+   * POST a transaction to one of FORTE Cloud's /compliance/* summary routes; no local fallback
+   */
+  async complianceSummary(route: ComplianceRoute, policyId: string, transaction: TransactionContext): Promise<ComplianceSummary> {
+    if (!this.apiKey) {
+      throw new Error('FORTE_API_KEY is not set');
+    }
+    console.log(`🔍 Checking compliance via FORTE Cloud /compliance/${route} for policy ${policyId}...`);
+    return this.request('POST', `/compliance/${route}?policyId=${encodeURIComponent(policyId)}`, transaction);
+  }
+
+  async health(): Promise<EngineHealth> {
+    try {
+      const response = await this.request('GET', '/health');
+      return {
+        healthy: response.status === 'healthy',
+        backend: this.backend,
+        version: response.version,
+        details: response.region
+      };
+    } catch (error: any) {
+      return { healthy: false, backend: this.backend, details: error.message };
+    }
+  }
+
+  /**
+   * Older API versions return only the four rule lists; fill the rest so callers see one shape
+   */
+  private toRuleCheckResult(response: any): RuleCheckResult {
+    return {
+      compliant: Boolean(response.compliant),
+      passedRules: response.passedRules || [],
+      failedRules: response.failedRules || [],
+      warnings: response.warnings || [],
+      skippedRules: response.skippedRules || [],
+      evaluationOrder: response.evaluationOrder || [],
+      evaluations: response.evaluations || [],
+      adjustments: response.adjustments || [],
+      adjustedTransaction: response.adjustedTransaction,
+      adjustedVerdict: response.adjustedVerdict,
+      policy: response.policy
+    };
+  }
+
+  private requireFallback(): ComplianceEngine {
+    if (!this.fallback) {
+      throw new Error('FORTE_API_KEY is not set and local fallback is disabled');
+    }
+    return this.fallback;
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: any): Promise<any> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'InstitutionalRWA/1.0.0'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`FORTE API error: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
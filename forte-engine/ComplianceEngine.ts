@@ -0,0 +1,294 @@
+/**
+ * FORTE Compliance Engine
+ * One interface for registering policies and checking rules, with interchangeable backends:
+ * the local condition interpreter, the remote FORTE Cloud API and recorded-fixture replay
+ */
+
+import type { ConditionRegistry } from './ConditionRegistry.ts';
+import type { TransactionContext } from './TransactionContext.ts';
+import type { ZKProofReference } from '../zkpret-integration/ZKPretAdapter.ts';
+import type { RuleEvidence } from './ConditionInterpreter.ts';
+import { LocalComplianceEngine } from './LocalComplianceEngine.ts';
+import { CloudComplianceEngine } from './CloudComplianceEngine.ts';
+import { ReplayComplianceEngine } from './ReplayComplianceEngine.ts';
+
+export type RuleEvaluationMode = 'exhaustive' | 'stopOnCriticalDeny';
+export type RuleEvaluationOrder = 'ruleChain' | 'priority';
+
+export interface RuleCheckOptions {
+  /** 'exhaustive' evaluates every chained rule; 'stopOnCriticalDeny' stops at the first CRITICAL DENY failure */
+  mode?: RuleEvaluationMode;
+  /** 'ruleChain' follows the policy chain; 'priority' runs CRITICAL rules first, chain order within a priority */
+  order?: RuleEvaluationOrder;
+}
+
+export interface SkippedRule {
+  ruleId: string;
+  reason: string;
+}
+
+export interface RuleAdjustment {
+  ruleId: string;
+  patch: { [field: string]: any };
+  reason?: string;
+}
+
+export type RuleOutcome = 'PASSED' | 'FAILED' | 'WARNING' | 'ADJUSTED' | 'ADJUSTMENT_FAILED' | 'ERROR' | 'SKIPPED';
+export type RuleActionTaken = 'NONE' | 'DENIED' | 'WARNED' | 'ADJUSTED' | 'SKIPPED';
+
+export interface ThresholdCheck {
+  function: string;
+  comparison: string;
+  threshold: any;
+  actual: any;
+  passed: boolean;
+}
+
+/**
+ * Machine-readable record of one rule decision
+ */
+export interface RuleEvaluation {
+  ruleId: string;
+  ruleName: string;
+  priority: string;
+  action: 'DENY' | 'WARN' | 'ADJUST';
+  outcome: RuleOutcome;
+  actionTaken: RuleActionTaken;
+  reason?: string;
+  message?: string;
+  inputs: { [param: string]: any };
+  thresholds: ThresholdCheck[];
+  proofs: ZKProofReference[];
+  evidence: RuleEvidence[];
+  adjustment?: { [field: string]: any };
+  startedAt: number;
+  durationMs: number;
+}
+
+/** Exact policy version a decision was made under */
+export interface PolicyReference {
+  policyId: string;
+  policyName: string;
+  policyVersion: string;
+  hash: string;
+}
+
+export interface RuleCheckResult {
+  compliant: boolean;
+  passedRules: string[];
+  failedRules: string[];
+  warnings: string[];
+  skippedRules: SkippedRule[];
+  evaluationOrder: string[];
+  /** One entry per rule in evaluation order, skipped rules last */
+  evaluations: RuleEvaluation[];
+  /** Patches proposed by failed ADJUST rules, in evaluation order */
+  adjustments: RuleAdjustment[];
+  /** Transaction with every adjustment applied; present only when adjustments were made */
+  adjustedTransaction?: TransactionContext;
+  /** DENY rules re-evaluated against adjustedTransaction */
+  adjustedVerdict?: {
+    compliant: boolean;
+    failedRules: string[];
+  };
+  /** Policy version evaluated; absent in responses from older FORTE Cloud versions */
+  policy?: PolicyReference;
+}
+
+export interface PolicyApplication {
+  success: boolean;
+  activeRules: string[];
+  error?: string;
+}
+
+export interface EngineHealth {
+  healthy: boolean;
+  backend: ComplianceBackend;
+  version?: string;
+  details?: string;
+}
+
+export type ComplianceBackend = 'local' | 'cloud' | 'replay';
+
+/**
+ * Contract every backend implements, so the same transaction gets the same verdict
+ * whichever backend is selected
+ */
+export interface ComplianceEngine {
+  readonly backend: ComplianceBackend;
+  /** Register a validated policy; `policyId` forces the ID (used when mirroring a cloud policy locally) */
+  registerPolicy(policy: any, policyId?: string): Promise<string>;
+  getPolicy(policyId: string): any | undefined;
+  applyPolicy(policyId: string, contractAddress: string, chainId?: string): Promise<PolicyApplication>;
+  checkRules(policyId: string, transaction: TransactionContext, options?: RuleCheckOptions): Promise<RuleCheckResult>;
+  health(): Promise<EngineHealth>;
+}
+
+export interface ComplianceEngineConfig {
+  backend: ComplianceBackend;
+  /** FORTE Cloud base URL and key (cloud backend) */
+  apiUrl?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  /** Evaluate locally when the cloud is unreachable or no API key is set (cloud backend) */
+  fallbackToLocal?: boolean;
+  /** Recorded responses file (replay backend) */
+  fixturePath?: string;
+  /** Record misses by evaluating locally instead of failing (replay backend) */
+  record?: boolean;
+}
+
+/**
+ * Per-rule failure details and the ACTUS risk score, as reported in FORTE Cloud compliance responses
+ */
+export function summarizeFindings(result: RuleCheckResult): {
+  details: { [ruleId: string]: string };
+  riskScore: number;
+} {
+  const details: { [ruleId: string]: string } = {};
+  result.evaluations
+    .filter(evaluation => evaluation.outcome !== 'PASSED' && evaluation.outcome !== 'SKIPPED')
+    .forEach(evaluation => { details[evaluation.ruleId] = evaluation.message || evaluation.reason || 'Rule violation detected'; });
+
+  const actusCheck = result.evaluations
+    .flatMap(evaluation => evaluation.thresholds)
+    .find(threshold => threshold.function === 'zkPretACTUSRiskScore');
+
+  return { details, riskScore: typeof actusCheck?.actual === 'number' ? actusCheck.actual : 0 };
+}
+
+/** FORTE Cloud's summary routes, /compliance/verify and /compliance/pyusd-cross-border */
+export type ComplianceRoute = 'verify' | 'pyusd-cross-border';
+
+export interface CrossBorderDetails {
+  route: string;
+  regulatoryStatus: 'APPROVED' | 'RESTRICTED';
+  maxAmount: number;
+}
+
+/**
+ * Response of the FORTE Cloud /compliance/* routes
+ */
+export interface ComplianceSummary {
+  compliant: boolean;
+  passedRules: string[];
+  failedRules: string[];
+  warnings: string[];
+  riskScore: number;
+  processingTime: number;
+  cloudVerification: boolean;
+  details?: { [ruleId: string]: string };
+  evaluations?: RuleEvaluation[];
+  crossBorderDetails?: CrossBorderDetails;
+}
+
+/**
+ * PYUSD corridor for the buyer/seller pair: restricted when a PYUSD rule failed, capped by the policy's corridor limit
+ */
+export function crossBorderDetails(policy: any, transaction: TransactionContext, result: RuleCheckResult): CrossBorderDetails {
+  const corridorLimits = policy?.complianceThresholds?.pyusdCompliance?.corridorLimits || {};
+  const buyer = transaction.buyerCountry || 'US';
+  const seller = transaction.sellerCountry || 'US';
+  return {
+    route: `${buyer} → ${seller}`,
+    regulatoryStatus: ['RULE_13', 'RULE_14'].some(ruleId => result.failedRules.includes(ruleId)) ? 'RESTRICTED' : 'APPROVED',
+    maxAmount: corridorLimits[`${buyer}-${seller}`] || corridorLimits[`${seller}-${buyer}`] || corridorLimits['default'] || 0
+  };
+}
+
+/**
+ * Check a transaction with `engine` and answer in the /compliance/* response shape
+ */
+export async function summarizeCompliance(
+  engine: ComplianceEngine,
+  policyId: string,
+  transaction: TransactionContext,
+  route: ComplianceRoute = 'verify',
+  cloudVerification: boolean = false
+): Promise<ComplianceSummary> {
+  const startedAt = Date.now();
+  const result = await engine.checkRules(policyId, transaction);
+  const { details, riskScore } = summarizeFindings(result);
+  const summary: ComplianceSummary = {
+    compliant: result.compliant,
+    passedRules: result.passedRules,
+    failedRules: result.failedRules,
+    warnings: result.warnings,
+    riskScore,
+    processingTime: Date.now() - startedAt,
+    cloudVerification,
+    details,
+    evaluations: result.evaluations
+  };
+  return route === 'pyusd-cross-border'
+    ? { ...summary, crossBorderDetails: crossBorderDetails(engine.getPolicy(policyId), transaction, result) }
+    : summary;
+}
+
+/**
+ * /compliance/* summary from FORTE Cloud when the engine is the cloud backend with an API key,
+ * otherwise (or when the call fails and fallback is enabled) from the engine's own rule check
+ */
+export async function verifyCompliance(
+  engine: ComplianceEngine,
+  policyId: string,
+  transaction: TransactionContext,
+  route: ComplianceRoute = 'verify'
+): Promise<ComplianceSummary> {
+  if (engine instanceof CloudComplianceEngine && engine.connected) {
+    try {
+      return await engine.complianceSummary(route, policyId, transaction);
+    } catch (error) {
+      if (!engine.canFallBack) throw error;
+      console.error(`❌ FORTE Cloud /compliance/${route} call failed:`, error);
+      console.log('🔄 Falling back to local rule evaluation...');
+    }
+  }
+  return summarizeCompliance(engine, policyId, transaction, route);
+}
+
+const BACKENDS: ComplianceBackend[] = ['local', 'cloud', 'replay'];
+
+/**
+ * Read engine configuration from the environment (FORTE_ENGINE_BACKEND and friends)
+ */
+export function complianceEngineConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ComplianceEngineConfig {
+  const backend = (env.FORTE_ENGINE_BACKEND || 'local').toLowerCase() as ComplianceBackend;
+  if (!BACKENDS.includes(backend)) {
+    throw new Error(`Unknown FORTE_ENGINE_BACKEND ${env.FORTE_ENGINE_BACKEND}; expected one of ${BACKENDS.join(', ')}`);
+  }
+  return {
+    backend,
+    apiUrl: env.FORTE_API_URL || 'https://api.forte.cloud',
+    apiKey: env.FORTE_API_KEY || '',
+    timeoutMs: env.FORTE_API_TIMEOUT_MS ? Number(env.FORTE_API_TIMEOUT_MS) : 30000,
+    fallbackToLocal: env.FORTE_FALLBACK_TO_LOCAL !== 'false',
+    fixturePath: env.FORTE_FIXTURE_PATH || 'fixtures/forte-responses.json',
+    record: env.FORTE_FIXTURE_RECORD === 'true'
+  };
+}
+
+/**
+ * Build the configured backend. Local evaluation (directly, as a cloud fallback or to record
+ * fixtures) shares `registry` so custom condition functions apply everywhere.
+ */
+export function createComplianceEngine(config: ComplianceEngineConfig, registry?: ConditionRegistry): ComplianceEngine {
+  switch (config.backend) {
+    case 'local':
+      return new LocalComplianceEngine(registry);
+    case 'cloud':
+      return new CloudComplianceEngine({
+        apiUrl: config.apiUrl || 'https://api.forte.cloud',
+        apiKey: config.apiKey || '',
+        timeoutMs: config.timeoutMs,
+        fallback: config.fallbackToLocal === false ? undefined : new LocalComplianceEngine(registry)
+      });
+    case 'replay':
+      return new ReplayComplianceEngine(
+        config.fixturePath || 'fixtures/forte-responses.json',
+        config.record ? new LocalComplianceEngine(registry) : undefined
+      );
+    default:
+      throw new Error(`Unknown compliance backend ${config.backend}`);
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * FORTE Policy Condition Interpreter
+ * Walks the `conditions` tree of a policy rule (and / or / not / function leaves)
+ * and evaluates it against transaction data using registered condition functions
+ */
+
+import type { ConditionRegistry } from './ConditionRegistry.ts';
+import type { ZKProofReference } from '../zkpret-integration/ZKPretAdapter.ts';
+import type { TransactionContext } from './TransactionContext.ts';
+
+export type Comparison =
+  | 'equals'
+  | 'notEquals'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'within'
+  | 'outside'
+  | 'in'
+  | 'notIn';
+
+export interface FunctionCondition {
+  function: string;
+  params?: string[];
+  comparison: Comparison;
+  value: any;
+}
+
+export interface AdjustmentSpec {
+  function: string;
+  params?: string[];
+}
+
+export type ConditionNode =
+  | { and: ConditionNode[] }
+  | { or: ConditionNode[] }
+  | { not: ConditionNode }
+  | FunctionCondition;
+
+/** Supporting detail a condition function attaches to its rule's evaluation, e.g. a matched list entry */
+export interface RuleEvidence {
+  type: string;
+  summary: string;
+  details: { [field: string]: any };
+}
+
+export interface ConditionContext {
+  data: TransactionContext;
+  policy: any;
+  /** Collects references to ZK PRET proofs produced while evaluating, when provided */
+  proofs?: ZKProofReference[];
+  /** Collects evidence produced while evaluating, when provided */
+  evidence?: RuleEvidence[];
+}
+
+export type ConditionFunction = (args: any[], context: ConditionContext) => any | Promise<any>;
+
+/** One evaluated function leaf: resolved inputs, returned value and the threshold it was compared to */
+export interface ConditionTrace {
+  function: string;
+  inputs: { [param: string]: any };
+  actual: any;
+  comparison: Comparison;
+  threshold: any;
+  passed: boolean;
+}
+
+export interface ConditionOutcome {
+  passed: boolean;
+  reason?: string;
+  trace: ConditionTrace[];
+}
+
+/**
+ * Parameter names used by policy files that do not map 1:1 onto transaction fields.
+ * Each entry lists the transaction fields to try in order.
+ */
+const PARAM_ALIASES: { [key: string]: string[] } = {
+  lei: ['legalEntityIdentifier']
+};
+
+/** Parameter names that refer to the whole transaction rather than a single field */
+const WHOLE_TRANSACTION_PARAMS = ['assetData', 'transaction'];
+
+export class ConditionInterpreter {
+  private registry: ConditionRegistry;
+
+  constructor(registry: ConditionRegistry) {
+    this.registry = registry;
+  }
+
+  /**
+   * Evaluate a condition tree. `and` / `or` short-circuit in document order.
+   */
+  async evaluate(node: ConditionNode, context: ConditionContext): Promise<ConditionOutcome> {
+    if ('and' in node) {
+      const trace: ConditionTrace[] = [];
+      for (const child of node.and) {
+        const outcome = await this.evaluate(child, context);
+        trace.push(...outcome.trace);
+        if (!outcome.passed) return { ...outcome, trace };
+      }
+      return { passed: true, trace };
+    }
+
+    if ('or' in node) {
+      const trace: ConditionTrace[] = [];
+      const reasons: string[] = [];
+      for (const child of node.or) {
+        const outcome = await this.evaluate(child, context);
+        trace.push(...outcome.trace);
+        if (outcome.passed) return { passed: true, trace };
+        reasons.push(outcome.reason || 'condition not met');
+      }
+      return { passed: false, reason: `none of: ${reasons.join('; ')}`, trace };
+    }
+
+    if ('not' in node) {
+      const outcome = await this.evaluate(node.not, context);
+      return outcome.passed
+        ? { passed: false, reason: 'negated condition was met', trace: outcome.trace }
+        : { passed: true, trace: outcome.trace };
+    }
+
+    if ('function' in node) {
+      return this.evaluateFunction(node, context);
+    }
+
+    throw new Error(`Unsupported condition node: ${JSON.stringify(node)}`);
+  }
+
+  private async evaluateFunction(condition: FunctionCondition, context: ConditionContext): Promise<ConditionOutcome> {
+    const params = condition.params || [];
+    const args = params.map(param => this.resolveParam(param, context.data));
+    const actual = await this.registry.call(condition.function, args, context);
+    const passed = this.compare(actual, condition.comparison, condition.value);
+
+    const inputs: { [param: string]: any } = {};
+    params.forEach((param, index) => {
+      inputs[param] = WHOLE_TRANSACTION_PARAMS.includes(param) ? '<transaction>' : args[index];
+    });
+
+    return {
+      passed,
+      reason: passed
+        ? undefined
+        : `${condition.function}(${params.join(', ')}) = ${this.format(actual)}, expected ${condition.comparison} ${this.format(condition.value)}`,
+      trace: [{
+        function: condition.function,
+        inputs,
+        actual,
+        comparison: condition.comparison,
+        threshold: condition.value,
+        passed
+      }]
+    };
+  }
+
+  /**
+   * Compute the transaction patch proposed by an ADJUST rule
+   */
+  async evaluateAdjustment(adjustment: AdjustmentSpec, context: ConditionContext): Promise<{ [field: string]: any }> {
+    const args = (adjustment.params || []).map(param => this.resolveParam(param, context.data));
+    const patch = await this.registry.call(adjustment.function, args, context);
+    if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+      throw new Error(`Adjustment ${adjustment.function} must return an object patch`);
+    }
+    return patch;
+  }
+
+  /**
+   * Resolve a policy parameter name against the transaction data
+   */
+  resolveParam(param: string, data: any): any {
+    if (WHOLE_TRANSACTION_PARAMS.includes(param)) {
+      return data;
+    }
+    for (const field of PARAM_ALIASES[param] || [param]) {
+      const value = data?.[field];
+      if (value !== undefined && value !== null && value !== '' && value !== 0) {
+        return value;
+      }
+    }
+    return data?.[param];
+  }
+
+  compare(actual: any, comparison: Comparison, expected: any): boolean {
+    switch (comparison) {
+      case 'equals':
+        return actual === expected;
+      case 'notEquals':
+        return actual !== expected;
+      case 'greaterThan':
+        return Number(actual) > Number(expected);
+      case 'greaterThanOrEqual':
+        return Number(actual) >= Number(expected);
+      case 'lessThan':
+        return Number(actual) < Number(expected);
+      case 'lessThanOrEqual':
+        return Number(actual) <= Number(expected);
+      case 'within':
+        return Number(actual) >= Number(expected[0]) && Number(actual) <= Number(expected[1]);
+      case 'outside':
+        return Number(actual) < Number(expected[0]) || Number(actual) > Number(expected[1]);
+      case 'in':
+        return Array.isArray(expected) && expected.includes(actual);
+      case 'notIn':
+        return Array.isArray(expected) && !expected.includes(actual);
+      default:
+        throw new Error(`Unsupported comparison: ${comparison}`);
+    }
+  }
+
+  private format(value: any): string {
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  }
+}
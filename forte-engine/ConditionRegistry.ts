@@ -0,0 +1,182 @@
+/**
+ * FORTE Condition Function Registry
+ * Named condition functions with declared parameter and return types, so policies can be
+ * checked for unknown functions, wrong arity and incompatible comparisons before use
+ */
+
+import type { Comparison, ConditionContext, ConditionFunction, ConditionNode } from './ConditionInterpreter.ts';
+import type { PolicyIssue } from './PolicyValidator.ts';
+
+export type ConditionValueType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+export interface ConditionSignature {
+  params: ConditionValueType[];
+  returns: ConditionValueType;
+  description?: string;
+}
+
+export interface ConditionDefinition extends ConditionSignature {
+  implementation: ConditionFunction;
+}
+
+const NUMERIC_COMPARISONS: Comparison[] = [
+  'greaterThan', 'greaterThanOrEqual', 'lessThan', 'lessThanOrEqual', 'within', 'outside'
+];
+
+export function typeOfValue(value: any): ConditionValueType {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'object';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : 'any';
+}
+
+function matchesType(value: any, type: ConditionValueType): boolean {
+  return type === 'any' || typeOfValue(value) === type;
+}
+
+export class ConditionRegistry {
+  private definitions: Map<string, ConditionDefinition> = new Map();
+
+  constructor(definitions: { [name: string]: ConditionDefinition } = {}) {
+    for (const [name, definition] of Object.entries(definitions)) {
+      this.register(name, definition, definition.implementation);
+    }
+  }
+
+  /**
+   * Register a named condition function. Names must be unique unless `replace` is set.
+   */
+  register(name: string, signature: ConditionSignature, implementation: ConditionFunction, replace: boolean = false): void {
+    if (!name) {
+      throw new Error('Condition function name is required');
+    }
+    if (this.definitions.has(name) && !replace) {
+      throw new Error(`Condition function ${name} is already registered`);
+    }
+    if (typeof implementation !== 'function') {
+      throw new Error(`Condition function ${name} must have an implementation`);
+    }
+    this.definitions.set(name, {
+      params: [...signature.params],
+      returns: signature.returns,
+      description: signature.description,
+      implementation
+    });
+  }
+
+  unregister(name: string): boolean {
+    return this.definitions.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  get(name: string): ConditionDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  list(): Array<{ name: string } & ConditionSignature> {
+    return Array.from(this.definitions.entries()).map(([name, { params, returns, description }]) => ({
+      name, params, returns, description
+    }));
+  }
+
+  /**
+   * Invoke a registered function, enforcing its declared types at runtime.
+   * Undefined arguments are allowed so functions can fall back to other transaction fields.
+   */
+  async call(name: string, args: any[], context: ConditionContext): Promise<any> {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new Error(`Unknown condition function: ${name}`);
+    }
+    if (args.length !== definition.params.length) {
+      throw new Error(`${name} expects ${definition.params.length} argument(s), got ${args.length}`);
+    }
+    args.forEach((arg, index) => {
+      if (arg !== undefined && !matchesType(arg, definition.params[index])) {
+        throw new Error(`${name} argument ${index + 1} must be ${definition.params[index]}, got ${typeOfValue(arg)}`);
+      }
+    });
+
+    const result = await definition.implementation(args, context);
+    if (!matchesType(result, definition.returns)) {
+      throw new Error(`${name} must return ${definition.returns}, got ${typeOfValue(result)}`);
+    }
+    return result;
+  }
+
+  /**
+   * Check every function condition in a policy against the registry.
+   * Returns one issue per problem; an empty array means the policy is loadable.
+   */
+  validatePolicy(policy: any): PolicyIssue[] {
+    const errors: PolicyIssue[] = [];
+    (Array.isArray(policy?.rules) ? policy.rules : []).forEach((rule: any, index: number) => {
+      if (rule?.conditions) {
+        this.validateNode(rule.conditions, `$.rules[${index}].conditions`, rule.ruleId, errors);
+      }
+      if (rule?.adjustment) {
+        this.validateAdjustment(rule.adjustment, `$.rules[${index}].adjustment`, rule.ruleId, errors);
+      }
+    });
+    return errors;
+  }
+
+  private validateAdjustment(adjustment: any, path: string, ruleId: string, errors: PolicyIssue[]): void {
+    const definition = this.definitions.get(adjustment.function);
+    if (!definition) {
+      errors.push({ path: `${path}.function`, message: `${ruleId}: unregistered adjustment function ${adjustment.function}` });
+      return;
+    }
+    const arity = (adjustment.params || []).length;
+    if (arity !== definition.params.length) {
+      errors.push({ path: `${path}.params`, message: `${ruleId}: ${adjustment.function} expects ${definition.params.length} param(s), got ${arity}` });
+    }
+    if (!['object', 'any'].includes(definition.returns)) {
+      errors.push({ path: `${path}.function`, message: `${ruleId}: ${adjustment.function} returns ${definition.returns}, adjustments must return object` });
+    }
+  }
+
+  private validateNode(node: ConditionNode, path: string, ruleId: string, errors: PolicyIssue[]): void {
+    if (!node || typeof node !== 'object') return;
+
+    if ('and' in node || 'or' in node) {
+      const key = 'and' in node ? 'and' : 'or';
+      const children = (node as any)[key];
+      if (Array.isArray(children)) {
+        children.forEach((child: ConditionNode, index: number) =>
+          this.validateNode(child, `${path}.${key}[${index}]`, ruleId, errors)
+        );
+      }
+      return;
+    }
+
+    if ('not' in node) {
+      this.validateNode(node.not, `${path}.not`, ruleId, errors);
+      return;
+    }
+
+    if (!('function' in node)) return;
+
+    const definition = this.definitions.get(node.function);
+    if (!definition) {
+      errors.push({ path: `${path}.function`, message: `${ruleId}: unregistered condition function ${node.function}` });
+      return;
+    }
+
+    const arity = (node.params || []).length;
+    if (arity !== definition.params.length) {
+      errors.push({ path: `${path}.params`, message: `${ruleId}: ${node.function} expects ${definition.params.length} param(s), got ${arity}` });
+    }
+
+    if (NUMERIC_COMPARISONS.includes(node.comparison) && !['number', 'any'].includes(definition.returns)) {
+      errors.push({ path: `${path}.comparison`, message: `${ruleId}: ${node.function} returns ${definition.returns}, cannot compare with ${node.comparison}` });
+    }
+    if ((node.comparison === 'equals' || node.comparison === 'notEquals')
+      && definition.returns !== 'any' && !matchesType(node.value, definition.returns)) {
+      errors.push({ path: `${path}.value`, message: `${ruleId}: ${node.function} returns ${definition.returns}, compared to ${typeOfValue(node.value)} value` });
+    }
+  }
+}
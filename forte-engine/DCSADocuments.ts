@@ -0,0 +1,305 @@
+/**
+ * FORTE DCSA Document Verification
+ * Parses DCSA electronic Bill of Lading (Transport Document 3.0) and Booking 2.0 JSON documents
+ * listed in an asset's `tradeDocuments`, validates them against schemas/dcsa, cross-checks the
+ * parties and ports against the asset and derives a deterministic hash to compare with `documentHash`.
+ * Entries that are not JSON (e.g. "invoice_001.pdf") are listed as unstructured and not validated.
+ */
+
+import { existsSync, readFileSync, realpathSync } from 'fs';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { contentHash } from './Hashing.ts';
+import { nameSimilarity } from './NameMatcher.ts';
+import { validateAgainstSchema } from './PolicyValidator.ts';
+import type { PolicyIssue } from './PolicyValidator.ts';
+import type { AssetType, TransactionContext } from './TransactionContext.ts';
+
+export type DCSADocumentType = 'TRANSPORT_DOCUMENT' | 'BOOKING';
+
+/**
+ * Which asset types need which documents; policies set these under complianceThresholds.dcsaDocuments.
+ * Every asset type not listed as exempt needs at least one DCSA document that parses and hashes.
+ */
+export interface DCSARequirements {
+  /** Asset types that must be backed by a valid electronic Bill of Lading */
+  eblRequiredAssetTypes?: AssetType[];
+  /** Asset types without shipped goods, which only need a non-zero documentHash and one listed document */
+  exemptAssetTypes?: AssetType[];
+}
+
+export const DEFAULT_DCSA_REQUIREMENTS: DCSARequirements = {
+  eblRequiredAssetTypes: ['TRADE_FINANCE'],
+  exemptAssetTypes: []
+};
+
+/** Shipper or consignee name must match corporateName at least this closely */
+export const DEFAULT_PARTY_NAME_SCORE = 0.92;
+
+const ZERO_HASH = '0x0000000000000000000000000000000000000000';
+
+const SCHEMA_PATHS: { [type in DCSADocumentType]: URL } = {
+  TRANSPORT_DOCUMENT: new URL('../schemas/dcsa/ebl-3.0.schema.json', import.meta.url),
+  BOOKING: new URL('../schemas/dcsa/booking-2.0.schema.json', import.meta.url)
+};
+
+const cachedSchemas: Partial<{ [type in DCSADocumentType]: any }> = {};
+
+function loadSchema(type: DCSADocumentType): any {
+  if (!cachedSchemas[type]) {
+    cachedSchemas[type] = JSON.parse(readFileSync(SCHEMA_PATHS[type], 'utf-8'));
+  }
+  return cachedSchemas[type];
+}
+
+export interface DCSADocument {
+  /** The tradeDocuments entry the document was read from */
+  name: string;
+  type?: DCSADocumentType;
+  /** transportDocumentReference or carrierBookingReference */
+  reference?: string;
+  /** Hash of the document's canonical JSON, so formatting and key order do not matter */
+  hash?: string;
+  issues: PolicyIssue[];
+}
+
+export interface DCSAVerification {
+  verified: boolean;
+  documents: DCSADocument[];
+  /** tradeDocuments entries that are not DCSA JSON documents */
+  unstructured: string[];
+  /** Hash over every DCSA document, set when the asset lists at least one */
+  documentHash?: string;
+  declaredHash?: string;
+  /** Problems that are not tied to a single document */
+  issues: string[];
+  reason?: string;
+}
+
+export interface DCSADocumentVerifierOptions {
+  /** Directory tradeDocuments names resolve inside (FORTE_DCSA_DOCUMENTS_PATH, default the offline fixtures) */
+  path?: string;
+  minimumNameScore?: number;
+  requirements?: DCSARequirements;
+}
+
+/**
+ * Which DCSA document a parsed JSON value is, from its reference fields
+ */
+export function dcsaDocumentType(content: any): DCSADocumentType | undefined {
+  if (!content || typeof content !== 'object' || Array.isArray(content)) return undefined;
+  if ('transportDocumentReference' in content) return 'TRANSPORT_DOCUMENT';
+  if ('carrierBookingReference' in content || 'carrierBookingRequestReference' in content) return 'BOOKING';
+  return undefined;
+}
+
+/**
+ * Deterministic hash over a set of DCSA documents: the per-document canonical hashes are sorted,
+ * so neither formatting nor the order of tradeDocuments changes the result
+ */
+export function dcsaDocumentHash(documents: any[]): string {
+  return '0x' + contentHash(documents.map(contentHash).sort());
+}
+
+/** Country of a UN/LOCODE, e.g. INNSA -> IN */
+function locationCountry(unLocationCode: string | undefined): string | undefined {
+  return typeof unLocationCode === 'string' ? unLocationCode.slice(0, 2) : undefined;
+}
+
+function ports(type: DCSADocumentType, content: any): { loading?: string; discharge?: string } {
+  if (type === 'TRANSPORT_DOCUMENT') {
+    return {
+      loading: content.transports?.portOfLoading?.UNLocationCode,
+      discharge: content.transports?.portOfDischarge?.UNLocationCode
+    };
+  }
+  const locations: any[] = Array.isArray(content.shipmentLocations) ? content.shipmentLocations : [];
+  const find = (code: string) => locations.find(location => location?.locationTypeCode === code)?.location?.UNLocationCode;
+  return { loading: find('POL'), discharge: find('POD') };
+}
+
+/**
+ * Schema validation plus the checks that tie a document to the asset: the corporate is the shipper
+ * or consignee, goods leave the seller's country and arrive in the buyer's
+ */
+export function validateDCSADocument(
+  content: any,
+  asset: TransactionContext,
+  minimumNameScore: number = DEFAULT_PARTY_NAME_SCORE
+): { type?: DCSADocumentType; issues: PolicyIssue[] } {
+  const type = dcsaDocumentType(content);
+  if (!type) {
+    return { issues: [{ path: '$', message: 'is not a DCSA transport document or booking' }] };
+  }
+
+  const schema = loadSchema(type);
+  const issues: PolicyIssue[] = [];
+  validateAgainstSchema(content, schema, '$', schema, issues);
+
+  const { shipper, consignee } = content.documentParties || {};
+  if (type === 'TRANSPORT_DOCUMENT' && !content.isToOrder && !consignee) {
+    issues.push({ path: '$.documentParties', message: 'a straight Bill of Lading needs a consignee' });
+  }
+  if (asset.corporateName) {
+    const score = Math.max(
+      shipper?.partyName ? nameSimilarity(shipper.partyName, asset.corporateName) : 0,
+      consignee?.partyName ? nameSimilarity(consignee.partyName, asset.corporateName) : 0
+    );
+    if (score < minimumNameScore) {
+      issues.push({ path: '$.documentParties', message: `neither shipper nor consignee matches "${asset.corporateName}"` });
+    }
+  }
+
+  const checkCountry = (path: string, actual: string | undefined, expected: string | undefined, role: string) => {
+    if (actual && expected && actual !== expected) {
+      issues.push({ path, message: `${actual} does not match the ${role} country ${expected}` });
+    }
+  };
+  const { loading, discharge } = ports(type, content);
+  if (type === 'BOOKING' && (!loading || !discharge)) {
+    issues.push({ path: '$.shipmentLocations', message: 'needs a POL and a POD location' });
+  }
+  checkCountry('$.documentParties.shipper.address.countryCode', shipper?.address?.countryCode, asset.sellerCountry, 'seller');
+  checkCountry('$.documentParties.consignee.address.countryCode', consignee?.address?.countryCode, asset.buyerCountry, 'buyer');
+  const [loadingPath, dischargePath] = type === 'TRANSPORT_DOCUMENT'
+    ? ['$.transports.portOfLoading', '$.transports.portOfDischarge']
+    : ['$.shipmentLocations[POL]', '$.shipmentLocations[POD]'];
+  checkCountry(loadingPath, locationCountry(loading), asset.sellerCountry, 'seller');
+  checkCountry(dischargePath, locationCountry(discharge), asset.buyerCountry, 'buyer');
+
+  return { type, issues };
+}
+
+export class DCSADocumentVerifier {
+  private options: DCSADocumentVerifierOptions;
+
+  /** Options left unset are read from the environment on first use */
+  constructor(options: DCSADocumentVerifierOptions = {}) {
+    this.options = options;
+  }
+
+  get path(): string {
+    return this.options.path || process.env.FORTE_DCSA_DOCUMENTS_PATH || 'fixtures/dcsa';
+  }
+
+  /**
+   * Validate the DCSA documents in `asset.tradeDocuments` and compare their hash with `asset.documentHash`.
+   * A document set with no DCSA document that parses and hashes fails, unless the asset type is exempt:
+   * exempt assets keep the basic check (a non-zero documentHash and at least one document) and are
+   * flagged as unverified by RULE_16.
+   */
+  verify(asset: TransactionContext, requirements: DCSARequirements = this.options.requirements || DEFAULT_DCSA_REQUIREMENTS): DCSAVerification {
+    const names = asset.tradeDocuments || [];
+    const declaredHash = asset.documentHash;
+    const documents: DCSADocument[] = [];
+    const contents: any[] = [];
+    const unstructured: string[] = [];
+    const issues: string[] = [];
+
+    for (const name of names) {
+      if (!name.toLowerCase().endsWith('.json')) {
+        unstructured.push(name);
+        continue;
+      }
+      const { path, error } = this.resolve(name);
+      if (!path) {
+        documents.push({ name, issues: [{ path: '$', message: error }] });
+        continue;
+      }
+      let content: any;
+      try {
+        content = JSON.parse(readFileSync(path, 'utf-8'));
+      } catch (error: any) {
+        documents.push({ name, issues: [{ path: '$', message: `is not valid JSON: ${error.message}` }] });
+        continue;
+      }
+      const { type, issues: documentIssues } = validateDCSADocument(content, asset, this.options.minimumNameScore);
+      contents.push(content);
+      documents.push({
+        name,
+        type,
+        reference: content.transportDocumentReference || content.carrierBookingReference || content.carrierBookingRequestReference,
+        hash: '0x' + contentHash(content),
+        issues: documentIssues
+      });
+    }
+
+    const requiresEBL = (requirements.eblRequiredAssetTypes || []).includes(asset.assetType);
+    if (requiresEBL && !documents.some(document => document.type === 'TRANSPORT_DOCUMENT' && document.issues.length === 0)) {
+      issues.push(`${asset.assetType} assets need a valid DCSA electronic Bill of Lading`);
+    }
+
+    const documentHash = contents.length > 0 ? dcsaDocumentHash(contents) : undefined;
+    if (documentHash) {
+      if ((declaredHash || '').toLowerCase() !== documentHash) {
+        issues.push(`documentHash ${declaredHash || '(missing)'} does not match the DCSA documents (${documentHash})`);
+      }
+    } else if ((requirements.exemptAssetTypes || []).includes(asset.assetType)) {
+      if (!declaredHash || declaredHash === ZERO_HASH) issues.push('documentHash is missing or zero');
+      if (names.length === 0) issues.push('no trade documents');
+    } else if (!requiresEBL) {
+      issues.push(`no DCSA document in tradeDocuments could be parsed and hashed; ${asset.assetType || 'this asset type'} is not exempt`);
+    }
+
+    const problems = [
+      ...documents.flatMap(document => document.issues.map(issue => `${document.name} ${issue.path}: ${issue.message}`)),
+      ...issues
+    ];
+    return {
+      verified: problems.length === 0,
+      documents,
+      unstructured,
+      documentHash,
+      declaredHash,
+      issues,
+      reason: problems.length > 0 ? problems.join('; ') : undefined
+    };
+  }
+
+  /**
+   * Hash of the DCSA documents an asset lists, e.g. to fill in `documentHash`; undefined when it lists none.
+   * Documents that are missing or not valid JSON are left out, as in verify().
+   */
+  documentHash(tradeDocuments: string[]): string | undefined {
+    const contents: any[] = [];
+    for (const name of tradeDocuments.filter(candidate => candidate.toLowerCase().endsWith('.json'))) {
+      const { path } = this.resolve(name);
+      if (!path) continue;
+      try {
+        contents.push(JSON.parse(readFileSync(path, 'utf-8')));
+      } catch {
+        // verify() reports the parse error
+      }
+    }
+    return contents.length > 0 ? dcsaDocumentHash(contents) : undefined;
+  }
+
+  /**
+   * Names resolve inside the documents directory only: absolute paths and names that lead outside it
+   * (through "..", or a symlink) are refused, since tradeDocuments comes from the transaction
+   */
+  private resolve(name: string): { path?: string; error?: string } {
+    if (isAbsolute(name)) {
+      return { error: `must be a name relative to ${this.path}` };
+    }
+    const root = resolve(this.path);
+    const path = resolve(root, name);
+    if (!isInside(root, path)) {
+      return { error: `resolves outside ${this.path}` };
+    }
+    if (!existsSync(path)) {
+      return { error: `not found in ${this.path}` };
+    }
+    if (!isInside(realpathSync(root), realpathSync(path))) {
+      return { error: `resolves outside ${this.path}` };
+    }
+    return { path };
+  }
+}
+
+function isInside(root: string, path: string): boolean {
+  const rest = relative(root, path);
+  return rest !== '' && rest.split(sep)[0] !== '..' && !isAbsolute(rest);
+}
+
+// Export singleton instance
+export const dcsaDocuments = new DCSADocumentVerifier();
@@ -0,0 +1,60 @@
+/**
+ * EU Consolidated Financial Sanctions List parser
+ * Reads the Financial Sanctions Files (FSF) XML export (http://eu.europa.ec/fpi/fsd/export)
+ */
+
+import { readFileSync } from 'fs';
+import { parseXml, xmlChildren, xmlChildText } from './XmlParser.ts';
+import { extractDigitalCurrencyAddresses, uniqueValues } from './SanctionsList.ts';
+import type { SanctionsEntry, SanctionsSnapshot } from './SanctionsList.ts';
+
+export const EU_CONSOLIDATED_LIST_ID = 'EU_CONSOLIDATED';
+
+/** countryIso2Code "00" means unknown; fall back to the description */
+function country(attributes: { [name: string]: string }): string | undefined {
+  const iso2 = attributes.countryIso2Code;
+  return iso2 && iso2 !== '00' ? iso2 : attributes.countryDescription;
+}
+
+export function parseEUSanctionsXml(xml: string): SanctionsSnapshot {
+  const root = parseXml(xml);
+  if (root.name !== 'export') {
+    throw new Error(`Expected an EU FSF <export> document, found <${root.name}>`);
+  }
+  const generationDate = root.attributes.generationDate;
+  if (!generationDate) {
+    throw new Error('EU sanctions file has no generationDate');
+  }
+
+  const entries = xmlChildren(root, 'sanctionEntity').map((element): SanctionsEntry => {
+    const names = xmlChildren(element, 'nameAlias').map(alias => alias.attributes.wholeName);
+    const remarks = xmlChildText(element, 'remark');
+    const identificationText = xmlChildren(element, 'identification')
+      .map(identification => `${identification.attributes.identificationTypeDescription || ''} ${identification.attributes.number || ''}`)
+      .join('; ');
+
+    return {
+      uid: element.attributes.euReferenceNumber || element.attributes.logicalId,
+      name: names[0] || '',
+      entityType: xmlChildren(element, 'subjectType')[0]?.attributes.code === 'person' ? 'individual' : 'entity',
+      programs: uniqueValues(xmlChildren(element, 'regulation').map(regulation => regulation.attributes.programme)),
+      aliases: uniqueValues(names.slice(1)),
+      countries: uniqueValues([
+        ...xmlChildren(element, 'citizenship'),
+        ...xmlChildren(element, 'address')
+      ].map(location => country(location.attributes))),
+      digitalCurrencyAddresses: extractDigitalCurrencyAddresses(`${remarks || ''}; ${identificationText}`),
+      remarks
+    };
+  });
+
+  const missingUid = entries.findIndex(entry => !entry.uid);
+  if (missingUid >= 0) {
+    throw new Error(`EU sanctions entity #${missingUid + 1} has no euReferenceNumber or logicalId`);
+  }
+  return { listId: EU_CONSOLIDATED_LIST_ID, version: generationDate.slice(0, 10), entries };
+}
+
+export function loadEUSanctions(path: string): SanctionsSnapshot {
+  return parseEUSanctionsXml(readFileSync(path, 'utf-8'));
+}
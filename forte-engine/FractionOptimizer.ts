@@ -0,0 +1,260 @@
+/**
+ * FORTE Fraction Optimizer
+ * Chooses the fraction count for an asset (RULE_08/RULE_10/RULE_11) from its target investor base.
+ * Each investor class has log-normal ticket sizes; for a candidate fraction size the model estimates
+ * who can buy in, how much of the issue is placed (pro rata when oversubscribed) and the expected
+ * secondary volume: placed holdings times turnover, reduced by transfer cost relative to the
+ * fraction size and by thin holder depth. Every candidate is kept as the trade-off curve.
+ * Amounts are whole USD; volumes are per year.
+ */
+
+import { INVESTOR_CLASSES } from './TransactionContext.ts';
+import type { InvestorBase, InvestorClass, InvestorClassProfile, TransactionContext } from './TransactionContext.ts';
+
+export interface FractionOptimizationSettings {
+  /** Smallest fraction allowed (RULE_10 minimum and the asset type's fraction size) */
+  minimumTicket: number;
+  /** Fraction counts RULE_08 accepts */
+  countRange: [number, number];
+  /** Fraction counts RULE_11 prefers; used whenever a candidate falls inside it */
+  sweetSpot: [number, number];
+  investorBase: { [investorClass in InvestorClass]: InvestorClassProfile };
+  /** Gas and settlement cost of one transfer */
+  transferCost: number;
+  /** Transfer cost, as a share of one fraction, at which secondary trading stops */
+  maxTransferCostShare: number;
+  /** Largest share of the issue one holder may take (sets maximumSize) */
+  maxHolderShare: number;
+  /** Annual secondary volume goal; the cheapest structure reaching it is chosen */
+  targetLiquidity?: number;
+}
+
+/** complianceThresholds.fractionOptimization */
+export interface FractionOptimizationPolicy {
+  transferCost?: number;
+  maxTransferCostShare?: number;
+  maxHolderShare?: number;
+  investorBase?: InvestorBase;
+}
+
+export interface FractionCandidate {
+  totalFractions: number;
+  fractionSize: number;
+  /** Investors whose ticket covers at least one fraction, capped by the fraction count */
+  holders: number;
+  /** Demand over principal; above 1 is oversubscribed */
+  subscription: number;
+  placedAmount: number;
+  transferCostShare: number;
+  /** Cost of one primary transfer per holder */
+  distributionCost: number;
+  /** Expected annual secondary volume */
+  expectedLiquidity: number;
+  inSweetSpot: boolean;
+}
+
+export interface FractionOptimization {
+  totalFractions: number;
+  minimumFractionSize: number;
+  /** Principal left after totalFractions whole-dollar fractions of minimumFractionSize; 0 when the count divides it */
+  residual: number;
+  maximumSize: number;
+  expectedLiquidity: number;
+  holders: number;
+  subscription: number;
+  /** Whether targetLiquidity is reached; undefined without a target */
+  meetsLiquidityTarget?: boolean;
+  reason: string;
+  /** Every candidate evaluated, by fraction count */
+  curve: FractionCandidate[];
+  settings: FractionOptimizationSettings;
+}
+
+export const DEFAULT_INVESTOR_BASE: { [investorClass in InvestorClass]: InvestorClassProfile } = {
+  retail: { investors: 2000, medianTicket: 2500, ticketDispersion: 1.0, annualTurnover: 0.6 },
+  accredited: { investors: 300, medianTicket: 50000, ticketDispersion: 0.8, annualTurnover: 0.3 },
+  institutional: { investors: 25, medianTicket: 1000000, ticketDispersion: 0.7, annualTurnover: 0.15 }
+};
+
+const DEFAULT_MINIMUM_TICKET = 500;
+const DEFAULT_COUNT_RANGE: [number, number] = [10, 10000];
+const DEFAULT_SWEET_SPOT: [number, number] = [100, 5000];
+const DEFAULT_TRANSFER_COST = 0.5;
+const DEFAULT_MAX_TRANSFER_COST_SHARE = 0.01;
+const DEFAULT_MAX_HOLDER_SHARE = 0.1;
+/** Holder count at which secondary depth reaches half its potential */
+const HALF_DEPTH_HOLDERS = 50;
+const CURVE_POINTS = 40;
+/** Without a liquidity target, the fewest fractions within this share of the best volume win */
+const NEAR_OPTIMAL_SHARE = 0.99;
+
+/** Standard normal CDF (Abramowitz-Stegun 7.1.26, error below 1.5e-7) */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Investors able to buy a fraction of `size`, and their demand with tickets rounded down to whole
+ * fractions (on average half a fraction below the ticket)
+ */
+function classDemand(profile: InvestorClassProfile, size: number): { eligible: number; demand: number } {
+  const { investors, medianTicket, ticketDispersion: sigma } = profile;
+  if (investors <= 0 || medianTicket <= 0) return { eligible: 0, demand: 0 };
+  if (sigma <= 0) {
+    return medianTicket >= size
+      ? { eligible: investors, demand: investors * Math.floor(medianTicket / size) * size }
+      : { eligible: 0, demand: 0 };
+  }
+  const z = (Math.log(size) - Math.log(medianTicket)) / sigma;
+  const share = 1 - normalCdf(z);
+  const ticketsAbove = medianTicket * Math.exp(sigma * sigma / 2) * normalCdf(sigma - z);
+  return { eligible: investors * share, demand: investors * Math.max(0, ticketsAbove - size / 2 * share) };
+}
+
+/**
+ * Placement, holders and expected secondary volume for one fraction count
+ */
+export function evaluateFractionCount(principalAmount: number, totalFractions: number, settings: FractionOptimizationSettings): FractionCandidate {
+  const size = principalAmount / totalFractions;
+  const classes = INVESTOR_CLASSES.map(investorClass => ({
+    profile: settings.investorBase[investorClass],
+    ...classDemand(settings.investorBase[investorClass], size)
+  }));
+  const demand = classes.reduce((total, entry) => total + entry.demand, 0);
+  const allocation = demand > 0 ? Math.min(1, principalAmount / demand) : 0;
+  const holders = Math.min(totalFractions, classes.reduce((total, entry) => total + entry.eligible, 0));
+
+  const transferCostShare = settings.transferCost / size;
+  const friction = Math.max(0, 1 - transferCostShare / settings.maxTransferCostShare);
+  const depth = holders / (holders + HALF_DEPTH_HOLDERS);
+  const turnover = classes.reduce((total, entry) => total + entry.demand * allocation * entry.profile.annualTurnover, 0);
+
+  return {
+    totalFractions,
+    fractionSize: Math.floor(size),
+    holders: Math.round(holders),
+    subscription: Math.round(demand / principalAmount * 100) / 100,
+    placedAmount: Math.round(Math.min(principalAmount, demand)),
+    transferCostShare: Math.round(transferCostShare * 1e6) / 1e6,
+    distributionCost: Math.round(holders * settings.transferCost * 100) / 100,
+    expectedLiquidity: Math.round(turnover * friction * depth),
+    inSweetSpot: totalFractions >= settings.sweetSpot[0] && totalFractions <= settings.sweetSpot[1]
+  };
+}
+
+/** Log-spaced fraction counts between the bounds, plus the sweet-spot edges */
+function candidateCounts(low: number, high: number, sweetSpot: [number, number]): number[] {
+  const counts = new Set<number>([low, high]);
+  for (let i = 1; i < CURVE_POINTS; i++) {
+    counts.add(Math.round(low * Math.pow(high / low, i / CURVE_POINTS)));
+  }
+  sweetSpot.filter(edge => edge >= low && edge <= high).forEach(edge => counts.add(edge));
+  return [...counts].sort((a, b) => a - b);
+}
+
+/**
+ * Fraction structure for an asset: the cheapest count reaching targetLiquidity, otherwise the fewest
+ * fractions within 1% of the best expected volume, preferring counts in the sweet spot
+ */
+export function optimizeFractions(principalAmount: number, settings: FractionOptimizationSettings): FractionOptimization {
+  if (!(principalAmount > 0)) {
+    throw new Error('principalAmount must be positive to optimize fractions');
+  }
+  const maxCount = Math.min(settings.countRange[1], Math.floor(principalAmount / settings.minimumTicket));
+  if (maxCount < 1) {
+    throw new Error(`principalAmount $${principalAmount.toLocaleString()} is below the $${settings.minimumTicket.toLocaleString()} minimum fraction`);
+  }
+  const minCount = Math.max(1, Math.min(settings.countRange[0], maxCount));
+
+  const curve = candidateCounts(minCount, maxCount, settings.sweetSpot)
+    .map(count => evaluateFractionCount(principalAmount, count, settings));
+  const preferred = curve.some(candidate => candidate.inSweetSpot) ? curve.filter(candidate => candidate.inSweetSpot) : curve;
+  const best = preferred.reduce((top, candidate) => candidate.expectedLiquidity > top.expectedLiquidity ? candidate : top);
+
+  let chosen: FractionCandidate;
+  let reason: string;
+  const target = settings.targetLiquidity;
+  const reaching = target ? preferred.find(candidate => candidate.expectedLiquidity >= target) : undefined;
+  if (target && reaching) {
+    chosen = reaching;
+    reason = `fewest fractions reaching the $${target.toLocaleString()} liquidity target`;
+  } else {
+    chosen = preferred.find(candidate => candidate.expectedLiquidity >= best.expectedLiquidity * NEAR_OPTIMAL_SHARE) || best;
+    reason = target
+      ? `no structure reaches the $${target.toLocaleString()} liquidity target; highest expected liquidity`
+      : 'highest expected liquidity with the fewest fractions';
+  }
+  if (preferred !== curve) reason += ` within the ${settings.sweetSpot[0]}-${settings.sweetSpot[1]} sweet spot`;
+
+  const holderCap = Math.floor(principalAmount * settings.maxHolderShare / chosen.fractionSize) * chosen.fractionSize;
+  return {
+    totalFractions: chosen.totalFractions,
+    minimumFractionSize: chosen.fractionSize,
+    residual: Math.round((principalAmount - chosen.totalFractions * chosen.fractionSize) * 100) / 100,
+    maximumSize: Math.max(chosen.fractionSize, holderCap),
+    expectedLiquidity: chosen.expectedLiquidity,
+    holders: chosen.holders,
+    subscription: chosen.subscription,
+    meetsLiquidityTarget: target ? chosen.expectedLiquidity >= target : undefined,
+    reason,
+    curve,
+    settings
+  };
+}
+
+/** Value of the first policy condition calling `functionName` */
+function conditionValue(policy: any, functionName: string): any {
+  const visit = (node: any): any => {
+    if (!node || typeof node !== 'object') return undefined;
+    if (node.function === functionName) return node.value;
+    for (const child of [...(node.and || []), ...(node.or || []), node.not]) {
+      const value = visit(child);
+      if (value !== undefined) return value;
+    }
+    return undefined;
+  };
+  for (const rule of policy?.rules || []) {
+    const value = visit(rule.conditions);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function numericRange(value: any, fallback: [number, number]): [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every(bound => typeof bound === 'number') ? [value[0], value[1]] : fallback;
+}
+
+/**
+ * Optimizer settings from a policy (RULE_08/10/11 condition values, fractionSizes and
+ * complianceThresholds.fractionOptimization) and the asset's own investorBase and targetLiquidity
+ */
+export function fractionSettingsFromPolicy(policy: any, asset: Partial<TransactionContext>): FractionOptimizationSettings {
+  const thresholds = policy?.complianceThresholds || {};
+  const optimization: FractionOptimizationPolicy = thresholds.fractionOptimization || {};
+  const ruleMinimum = conditionValue(policy, 'checkMinimumFractionSize');
+  const assetTypeMinimum = asset.assetType ? thresholds.fractionSizes?.[asset.assetType] : undefined;
+  const minimumTicket = Math.max(
+    typeof ruleMinimum === 'number' ? ruleMinimum : 0,
+    typeof assetTypeMinimum === 'number' ? assetTypeMinimum : 0
+  ) || DEFAULT_MINIMUM_TICKET;
+
+  const investorBase = Object.fromEntries(INVESTOR_CLASSES.map(investorClass => [investorClass, {
+    ...DEFAULT_INVESTOR_BASE[investorClass],
+    ...optimization.investorBase?.[investorClass],
+    ...asset.investorBase?.[investorClass]
+  }])) as FractionOptimizationSettings['investorBase'];
+
+  return {
+    minimumTicket,
+    countRange: numericRange(conditionValue(policy, 'calculateOptimalFractions'), DEFAULT_COUNT_RANGE),
+    sweetSpot: numericRange(conditionValue(policy, 'checkSweetSpotRange'), DEFAULT_SWEET_SPOT),
+    investorBase,
+    transferCost: optimization.transferCost ?? DEFAULT_TRANSFER_COST,
+    maxTransferCostShare: optimization.maxTransferCostShare ?? DEFAULT_MAX_TRANSFER_COST_SHARE,
+    maxHolderShare: optimization.maxHolderShare ?? DEFAULT_MAX_HOLDER_SHARE,
+    targetLiquidity: asset.targetLiquidity || undefined
+  };
+}
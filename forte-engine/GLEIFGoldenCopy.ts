@@ -0,0 +1,193 @@
+/**
+ * GLEIF LEI validation and golden-copy parsers
+ * Validates Legal Entity Identifiers against ISO 17442 and reads locally downloaded golden-copy
+ * extracts: Level 1 records (LEI-CDF) and Level 2 relationships (RR-CDF), each as the concatenated
+ * CSV or GLEIF API-style JSON
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parseCsv } from './CsvParser.ts';
+import { uniqueValues } from './SanctionsList.ts';
+
+/** 18 alphanumeric characters followed by two numeric check digits */
+const LEI_PATTERN = /^[A-Z0-9]{18}[0-9]{2}$/;
+
+export type LEIFormatError = 'LENGTH' | 'CHARACTER_SET' | 'CHECKSUM';
+
+export interface LEIRecord {
+  lei: string;
+  legalName: string;
+  /** Other and transliterated names the entity is registered under */
+  otherNames: string[];
+  /** Entity.EntityStatus: ACTIVE or INACTIVE */
+  entityStatus: string;
+  /** Registration.RegistrationStatus, e.g. ISSUED, LAPSED, RETIRED */
+  registrationStatus: string;
+  country?: string;
+  lastUpdateDate?: string;
+}
+
+export type LEIRelationshipType = 'DIRECT_PARENT' | 'ULTIMATE_PARENT';
+
+/** A Level 2 accounting-consolidation relationship from child to parent */
+export interface LEIRelationship {
+  childLei: string;
+  parentLei: string;
+  type: LEIRelationshipType;
+  /** Relationship.RelationshipStatus: ACTIVE or INACTIVE */
+  status: string;
+}
+
+const RELATIONSHIP_TYPES: { [type: string]: LEIRelationshipType } = {
+  IS_DIRECTLY_CONSOLIDATED_BY: 'DIRECT_PARENT',
+  IS_ULTIMATELY_CONSOLIDATED_BY: 'ULTIMATE_PARENT'
+};
+
+/**
+ * ISO 7064 MOD 97-10 over the LEI with letters expanded to 10..35; valid LEIs leave remainder 1
+ */
+export function leiCheckDigitsValid(lei: string): boolean {
+  let remainder = 0;
+  for (const character of lei) {
+    const digits = parseInt(character, 36).toString();
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * First ISO 17442 rule the identifier breaks, or undefined when it is well formed
+ */
+export function validateLEI(lei: string): LEIFormatError | undefined {
+  if (typeof lei !== 'string' || lei.length !== 20) return 'LENGTH';
+  if (!LEI_PATTERN.test(lei)) return 'CHARACTER_SET';
+  if (!leiCheckDigitsValid(lei)) return 'CHECKSUM';
+  return undefined;
+}
+
+export function isValidLEI(lei: string): boolean {
+  return validateLEI(lei) === undefined;
+}
+
+/** Name columns such as Entity.OtherEntityNames.OtherEntityName.1, excluding their .xmllang/.type companions */
+const OTHER_NAME_COLUMN = /^Entity\.(OtherEntityNames\.OtherEntityName|TransliteratedOtherEntityNames\.TransliteratedOtherEntityName)\.\d+$/;
+
+/**
+ * Parse the golden-copy concatenated CSV (LEI-CDF), one record per row with a header row
+ */
+export function parseGLEIFGoldenCopyCsv(csv: string): LEIRecord[] {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    throw new Error('GLEIF golden copy is empty');
+  }
+  const columns = new Map(header.map((name, index) => [name.trim(), index]));
+  for (const required of ['LEI', 'Entity.LegalName', 'Entity.EntityStatus', 'Registration.RegistrationStatus']) {
+    if (!columns.has(required)) {
+      throw new Error(`GLEIF golden copy is missing the "${required}" column`);
+    }
+  }
+  const otherNameColumns = header.map(name => name.trim()).filter(name => OTHER_NAME_COLUMN.test(name));
+  const cell = (row: string[], column: string) => (row[columns.get(column) ?? -1] || '').trim();
+
+  return rows
+    .filter(row => cell(row, 'LEI'))
+    .map(row => ({
+      lei: cell(row, 'LEI').toUpperCase(),
+      legalName: cell(row, 'Entity.LegalName'),
+      otherNames: uniqueValues(otherNameColumns.map(column => cell(row, column))),
+      entityStatus: cell(row, 'Entity.EntityStatus').toUpperCase(),
+      registrationStatus: cell(row, 'Registration.RegistrationStatus').toUpperCase(),
+      country: cell(row, 'Entity.LegalAddress.Country') || undefined,
+      lastUpdateDate: cell(row, 'Registration.LastUpdateDate') || undefined
+    }));
+}
+
+/**
+ * Parse JSON shaped like the GLEIF API's lei-records: `{ data: [{ attributes: {...} }] }`,
+ * or a bare array of records or of their `attributes`
+ */
+export function parseGLEIFGoldenCopyJson(json: string): LEIRecord[] {
+  const document = JSON.parse(json);
+  const items: any[] = Array.isArray(document) ? document : document?.data;
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a GLEIF JSON array or a { data: [...] } document');
+  }
+
+  return items.map((item, index): LEIRecord => {
+    const attributes = item?.attributes || item;
+    const entity = attributes?.entity || {};
+    const lei = String(attributes?.lei || item?.id || '').trim().toUpperCase();
+    if (!lei) {
+      throw new Error(`GLEIF record #${index + 1} has no LEI`);
+    }
+    return {
+      lei,
+      legalName: entity.legalName?.name || '',
+      otherNames: uniqueValues([...(entity.otherNames || []), ...(entity.transliteratedOtherNames || [])].map((name: any) => name?.name)),
+      entityStatus: String(entity.status || '').toUpperCase(),
+      registrationStatus: String(attributes.registration?.status || '').toUpperCase(),
+      country: entity.legalAddress?.country || undefined,
+      lastUpdateDate: attributes.registration?.lastUpdateDate || undefined
+    };
+  });
+}
+
+export function loadGLEIFGoldenCopy(path: string): LEIRecord[] {
+  const content = readFileSync(path, 'utf-8');
+  return extname(path).toLowerCase() === '.json' ? parseGLEIFGoldenCopyJson(content) : parseGLEIFGoldenCopyCsv(content);
+}
+
+/**
+ * Parse the Level 2 relationship-record concatenated CSV (RR-CDF). Only parent relationships
+ * between two LEIs are kept; branch and fund-management relationships are skipped.
+ */
+export function parseGLEIFRelationshipsCsv(csv: string): LEIRelationship[] {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    throw new Error('GLEIF relationship file is empty');
+  }
+  const columns = new Map(header.map((name, index) => [name.trim(), index]));
+  for (const required of ['Relationship.StartNode.NodeID', 'Relationship.EndNode.NodeID', 'Relationship.RelationshipType']) {
+    if (!columns.has(required)) {
+      throw new Error(`GLEIF relationship file is missing the "${required}" column`);
+    }
+  }
+  const cell = (row: string[], column: string) => (row[columns.get(column) ?? -1] || '').trim();
+
+  return rows.flatMap((row): LEIRelationship[] => {
+    const type = RELATIONSHIP_TYPES[cell(row, 'Relationship.RelationshipType').toUpperCase()];
+    const childLei = cell(row, 'Relationship.StartNode.NodeID').toUpperCase();
+    const parentLei = cell(row, 'Relationship.EndNode.NodeID').toUpperCase();
+    if (!type || !childLei || !parentLei) return [];
+    return [{ childLei, parentLei, type, status: cell(row, 'Relationship.RelationshipStatus').toUpperCase() || 'ACTIVE' }];
+  });
+}
+
+/**
+ * Parse JSON shaped like the GLEIF API's relationship-records: `{ data: [{ attributes: { relationship } }] }`,
+ * or a bare array of records or of their `relationship` objects
+ */
+export function parseGLEIFRelationshipsJson(json: string): LEIRelationship[] {
+  const document = JSON.parse(json);
+  const items: any[] = Array.isArray(document) ? document : document?.data;
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a GLEIF JSON array or a { data: [...] } document');
+  }
+
+  return items.flatMap((item): LEIRelationship[] => {
+    const relationship = item?.attributes?.relationship || item?.relationship || item;
+    const type = RELATIONSHIP_TYPES[String(relationship?.type || '').toUpperCase()];
+    const childLei = String(relationship?.startNode?.id || '').trim().toUpperCase();
+    const parentLei = String(relationship?.endNode?.id || '').trim().toUpperCase();
+    if (!type || !childLei || !parentLei) return [];
+    return [{ childLei, parentLei, type, status: String(relationship.status || 'ACTIVE').toUpperCase() }];
+  });
+}
+
+export function loadGLEIFRelationships(path: string): LEIRelationship[] {
+  const content = readFileSync(path, 'utf-8');
+  return extname(path).toLowerCase() === '.json' ? parseGLEIFRelationshipsJson(content) : parseGLEIFRelationshipsCsv(content);
+}
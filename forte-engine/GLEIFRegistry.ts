@@ -0,0 +1,111 @@
+/**
+ * FORTE GLEIF Registry
+ * Resolves LEIs against a locally loaded GLEIF golden-copy extract and verifies that an LEI is
+ * well formed, registered to the named legal entity and ACTIVE. The extract is re-read whenever
+ * its file changes.
+ */
+
+import { existsSync, statSync } from 'fs';
+import { loadGLEIFGoldenCopy, validateLEI } from './GLEIFGoldenCopy.ts';
+import type { LEIFormatError, LEIRecord } from './GLEIFGoldenCopy.ts';
+import { nameSimilarity } from './NameMatcher.ts';
+
+/** corporateName must score at least this against the legal name or another registered name */
+export const DEFAULT_GLEIF_NAME_SCORE = 0.92;
+
+export interface GLEIFRegistryOptions {
+  /** Golden-copy CSV or JSON (FORTE_GLEIF_GOLDEN_COPY_PATH, default the offline fixture) */
+  path?: string;
+  minimumNameScore?: number;
+}
+
+export interface LEIVerification {
+  lei: string;
+  verified: boolean;
+  formatError?: LEIFormatError;
+  record?: LEIRecord;
+  /** Registered name that best matched corporateName */
+  matchedName?: string;
+  nameScore: number;
+  /** Why verification failed */
+  reason?: string;
+}
+
+export class GLEIFRegistry {
+  private options: GLEIFRegistryOptions;
+  private records = new Map<string, LEIRecord>();
+  private signature: string | undefined;
+
+  /** Options left unset are read from the environment on first use */
+  constructor(options: GLEIFRegistryOptions = {}) {
+    this.options = options;
+  }
+
+  get path(): string {
+    return this.options.path || process.env.FORTE_GLEIF_GOLDEN_COPY_PATH || 'fixtures/gleif/golden-copy.csv';
+  }
+
+  get size(): number {
+    this.refresh();
+    return this.records.size;
+  }
+
+  /**
+   * Re-read the golden copy if its file changed since it was last loaded
+   */
+  refresh(): void {
+    if (!existsSync(this.path)) {
+      this.records.clear();
+      this.signature = undefined;
+      return;
+    }
+    const stats = statSync(this.path);
+    const signature = `${stats.mtimeMs}:${stats.size}`;
+    if (signature === this.signature) return;
+
+    this.records = new Map(loadGLEIFGoldenCopy(this.path).map(record => [record.lei, record]));
+    this.signature = signature;
+    console.log(`🏢 GLEIF golden copy loaded: ${this.records.size} LEI records from ${this.path}`);
+  }
+
+  lookup(lei: string): LEIRecord | undefined {
+    this.refresh();
+    return this.records.get((lei || '').trim().toUpperCase());
+  }
+
+  /**
+   * Check digits and character set, then registration, legal name and entity status
+   */
+  verify(lei: string, corporateName: string): LEIVerification {
+    const normalized = (lei || '').trim().toUpperCase();
+    const formatError = validateLEI(normalized);
+    if (formatError) {
+      return { lei: normalized, verified: false, formatError, nameScore: 0, reason: `LEI fails ISO 17442 ${formatError.toLowerCase().replace('_', ' ')} check` };
+    }
+
+    this.refresh();
+    if (!this.signature) {
+      return { lei: normalized, verified: false, nameScore: 0, reason: `GLEIF golden copy not found at ${this.path}` };
+    }
+    const record = this.records.get(normalized);
+    if (!record) {
+      return { lei: normalized, verified: false, nameScore: 0, reason: 'LEI not found in GLEIF golden copy' };
+    }
+
+    const [best] = [record.legalName, ...record.otherNames]
+      .map(name => ({ name, score: corporateName ? nameSimilarity(corporateName, name) : 0 }))
+      .sort((a, b) => b.score - a.score);
+    const result: LEIVerification = { lei: normalized, verified: false, record, matchedName: best.name, nameScore: best.score };
+
+    if (best.score < (this.options.minimumNameScore ?? DEFAULT_GLEIF_NAME_SCORE)) {
+      return { ...result, reason: `"${corporateName}" does not match registered legal name "${record.legalName}"` };
+    }
+    if (record.entityStatus !== 'ACTIVE') {
+      return { ...result, reason: `Entity status is ${record.entityStatus || 'unknown'}` };
+    }
+    return { ...result, verified: true };
+  }
+}
+
+// Export singleton instance
+export const gleifRegistry = new GLEIFRegistry();
@@ -0,0 +1,24 @@
+/**
+ * Content hashing helpers shared by policy IDs, fixture keys and audit records
+ */
+
+import { createHash } from 'crypto';
+
+/** JSON with object keys sorted and undefined members dropped, so equal content always hashes the same */
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** SHA-256 of the canonical JSON form, hex encoded */
+export function contentHash(value: any): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
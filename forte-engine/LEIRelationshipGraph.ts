@@ -0,0 +1,161 @@
+/**
+ * FORTE LEI Relationship Graph
+ * Corporate group structure from GLEIF Level 2 relationship records: direct and ultimate
+ * accounting-consolidation parents, and every subsidiary beneath an entity. Only ACTIVE
+ * relationships are followed. The relationship file is re-read whenever it changes.
+ */
+
+import { existsSync, statSync } from 'fs';
+import { loadGLEIFRelationships } from './GLEIFGoldenCopy.ts';
+import type { LEIRecord } from './GLEIFGoldenCopy.ts';
+import { gleifRegistry } from './GLEIFRegistry.ts';
+
+export interface LEIRelationshipGraphOptions {
+  /** Level 2 RR-CDF CSV or JSON (FORTE_GLEIF_RELATIONSHIPS_PATH, default the offline fixture) */
+  path?: string;
+}
+
+export interface CorporateGroupMember {
+  lei: string;
+  /** Level 1 record from the golden copy, when the LEI is registered there */
+  record?: LEIRecord;
+}
+
+export interface CorporateGroup extends CorporateGroupMember {
+  directParent?: CorporateGroupMember;
+  ultimateParent?: CorporateGroupMember;
+  /** Parents from the direct parent upwards, ending at the ultimate parent */
+  parents: CorporateGroupMember[];
+  subsidiaries: CorporateGroupMember[];
+}
+
+function normalizeLEI(lei: string): string {
+  return (lei || '').trim().toUpperCase();
+}
+
+export class LEIRelationshipGraph {
+  private options: LEIRelationshipGraphOptions;
+  private directParents = new Map<string, string>();
+  private ultimateParents = new Map<string, string>();
+  private children = new Map<string, Set<string>>();
+  private signature: string | undefined;
+
+  /** Options left unset are read from the environment on first use */
+  constructor(options: LEIRelationshipGraphOptions = {}) {
+    this.options = options;
+  }
+
+  get path(): string {
+    return this.options.path || process.env.FORTE_GLEIF_RELATIONSHIPS_PATH || 'fixtures/gleif/relationships.csv';
+  }
+
+  /**
+   * Re-read the relationship file if it changed since it was last loaded
+   */
+  refresh(): void {
+    if (!existsSync(this.path)) {
+      this.directParents.clear();
+      this.ultimateParents.clear();
+      this.children.clear();
+      this.signature = undefined;
+      return;
+    }
+    const stats = statSync(this.path);
+    const signature = `${stats.mtimeMs}:${stats.size}`;
+    if (signature === this.signature) return;
+
+    const directParents = new Map<string, string>();
+    const ultimateParents = new Map<string, string>();
+    const children = new Map<string, Set<string>>();
+    const relationships = loadGLEIFRelationships(this.path).filter(relationship => relationship.status === 'ACTIVE');
+    for (const relationship of relationships) {
+      (relationship.type === 'DIRECT_PARENT' ? directParents : ultimateParents).set(relationship.childLei, relationship.parentLei);
+      if (relationship.type === 'DIRECT_PARENT') {
+        children.set(relationship.parentLei, (children.get(relationship.parentLei) || new Set()).add(relationship.childLei));
+      }
+    }
+    // Ultimate-parent records also link entities whose intermediate parents are not published
+    for (const [childLei, parentLei] of ultimateParents) {
+      if (!directParents.has(childLei)) {
+        children.set(parentLei, (children.get(parentLei) || new Set()).add(childLei));
+      }
+    }
+
+    this.directParents = directParents;
+    this.ultimateParents = ultimateParents;
+    this.children = children;
+    this.signature = signature;
+    console.log(`🏢 GLEIF relationships loaded: ${relationships.length} active from ${this.path}`);
+  }
+
+  directParent(lei: string): string | undefined {
+    this.refresh();
+    return this.directParents.get(normalizeLEI(lei));
+  }
+
+  /**
+   * The published ultimate parent, otherwise the top of the direct-parent chain
+   */
+  ultimateParent(lei: string): string | undefined {
+    this.refresh();
+    const normalized = normalizeLEI(lei);
+    return this.ultimateParents.get(normalized) || this.parents(normalized).pop();
+  }
+
+  /**
+   * Parents from the direct parent upwards, including the ultimate parent
+   */
+  parents(lei: string): string[] {
+    this.refresh();
+    const normalized = normalizeLEI(lei);
+    const chain: string[] = [];
+    const seen = new Set([normalized]);
+    for (let parent = this.directParents.get(normalized); parent && !seen.has(parent); parent = this.directParents.get(parent)) {
+      chain.push(parent);
+      seen.add(parent);
+    }
+    const ultimate = this.ultimateParents.get(normalized);
+    if (ultimate && !seen.has(ultimate)) chain.push(ultimate);
+    return chain;
+  }
+
+  /**
+   * Every entity consolidated beneath `lei`, nearest first
+   */
+  subsidiaries(lei: string): string[] {
+    this.refresh();
+    const normalized = normalizeLEI(lei);
+    const found: string[] = [];
+    const seen = new Set([normalized]);
+    const queue = [normalized];
+    while (queue.length > 0) {
+      for (const child of this.children.get(queue.shift()) || []) {
+        if (seen.has(child)) continue;
+        seen.add(child);
+        found.push(child);
+        queue.push(child);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * The entity's parents and subsidiaries, joined with their golden-copy records
+   */
+  group(lei: string): CorporateGroup {
+    const normalized = normalizeLEI(lei);
+    const member = (memberLei: string | undefined): CorporateGroupMember | undefined =>
+      memberLei ? { lei: memberLei, record: gleifRegistry.lookup(memberLei) } : undefined;
+
+    return {
+      ...member(normalized),
+      directParent: member(this.directParent(normalized)),
+      ultimateParent: member(this.ultimateParent(normalized)),
+      parents: this.parents(normalized).map(member),
+      subsidiaries: this.subsidiaries(normalized).map(member)
+    };
+  }
+}
+
+// Export singleton instance
+export const leiRelationships = new LEIRelationshipGraph();
@@ -0,0 +1,323 @@
+/**
+ * Local FORTE compliance backend
+ * Evaluates policy rules in-process with the condition interpreter
+ */
+
+import { ConditionInterpreter } from './ConditionInterpreter.ts';
+import type { ConditionOutcome, RuleEvidence } from './ConditionInterpreter.ts';
+import { ConditionRegistry } from './ConditionRegistry.ts';
+import { builtinConditions } from './BuiltinConditions.ts';
+import type { TransactionContext } from './TransactionContext.ts';
+import type { ZKProofReference } from '../zkpret-integration/ZKPretAdapter.ts';
+import { contentHash } from './Hashing.ts';
+import { policyIdFor } from './PolicyStore.ts';
+import type {
+  ComplianceEngine,
+  EngineHealth,
+  PolicyApplication,
+  RuleActionTaken,
+  RuleCheckOptions,
+  RuleCheckResult,
+  RuleEvaluation,
+  RuleEvaluationOrder,
+  RuleOutcome,
+  SkippedRule
+} from './ComplianceEngine.ts';
+
+const PRIORITY_RANK: { [priority: string]: number } = {
+  CRITICAL: 0,
+  HIGH: 1,
+  MEDIUM: 2,
+  LOW: 3
+};
+
+export class LocalComplianceEngine implements ComplianceEngine {
+  readonly backend = 'local' as const;
+  private policies: Map<string, any> = new Map();
+  private interpreter: ConditionInterpreter;
+
+  constructor(registry: ConditionRegistry = new ConditionRegistry(builtinConditions)) {
+    this.interpreter = new ConditionInterpreter(registry);
+  }
+
+  async registerPolicy(policy: any, policyId: string = policyIdFor(policy)): Promise<string> {
+    this.policies.set(policyId, policy);
+    return policyId;
+  }
+
+  getPolicy(policyId: string): any | undefined {
+    return this.policies.get(policyId);
+  }
+
+  /**
+   * Local policies are enforced off-chain, so application only reports the active rules
+   */
+  async applyPolicy(policyId: string, contractAddress: string, chainId?: string): Promise<PolicyApplication> {
+    const policy = this.policies.get(policyId);
+    if (!policy) {
+      return { success: false, activeRules: [], error: `Policy ${policyId} not found` };
+    }
+    if (!/^0x[0-9a-fA-F]{40}$/.test(contractAddress)) {
+      return { success: false, activeRules: [], error: `Invalid contract address ${contractAddress}` };
+    }
+    return {
+      success: true,
+      activeRules: policy.rules.map((r: any) => r.ruleId)
+    };
+  }
+
+  async health(): Promise<EngineHealth> {
+    return { healthy: true, backend: this.backend, details: `${this.policies.size} policy(ies) loaded` };
+  }
+
+  /**
+   * Check rules compliance for an already-normalized transaction
+   */
+  async checkRules(policyId: string, transactionData: TransactionContext, options: RuleCheckOptions = {}): Promise<RuleCheckResult> {
+    const policy = this.policies.get(policyId);
+    if (!policy) {
+      throw new Error(`Policy ${policyId} not found`);
+    }
+
+    const mode = options.mode || 'exhaustive';
+    const { orderedRules, skippedRules } = this.planRuleEvaluation(policy, options.order || 'ruleChain');
+
+    const result: RuleCheckResult = {
+      compliant: true,
+      passedRules: [],
+      failedRules: [],
+      warnings: [],
+      skippedRules,
+      evaluationOrder: orderedRules.map((rule: any) => rule.ruleId),
+      evaluations: [],
+      adjustments: [],
+      policy: {
+        policyId,
+        policyName: policy.policyName,
+        policyVersion: policy.policyVersion,
+        hash: contentHash(policy)
+      }
+    };
+    const evaluatedRules: any[] = [];
+    let adjustedTransaction: TransactionContext = { ...transactionData };
+
+    console.log(`🔍 Checking ${orderedRules.length} FORTE rules (${mode}, ${options.order || 'ruleChain'} order)...`);
+
+    for (let index = 0; index < orderedRules.length; index++) {
+      const rule = orderedRules[index];
+      let deniedCritical = false;
+      evaluatedRules.push(rule);
+
+      const startedAt = Date.now();
+      const proofs: ZKProofReference[] = [];
+      const evidence: RuleEvidence[] = [];
+      let evaluation: RuleEvaluation;
+
+      try {
+        const ruleResult = await this.evaluateRule(rule, transactionData, policy, proofs, evidence);
+        evaluation = this.toRuleEvaluation(rule, ruleResult, proofs, evidence, startedAt);
+        
+        if (ruleResult.passed) {
+          result.passedRules.push(rule.ruleId);
+          console.log(`✅ ${rule.ruleId}: ${rule.name} - PASSED`);
+        } else {
+          if (rule.action === 'DENY') {
+            result.failedRules.push(rule.ruleId);
+            result.compliant = false;
+            deniedCritical = rule.priority === 'CRITICAL';
+            console.log(`❌ ${rule.ruleId}: ${rule.name} - FAILED (${ruleResult.reason})`);
+          } else if (rule.action === 'WARN') {
+            result.warnings.push(rule.ruleId);
+            console.log(`⚠️ ${rule.ruleId}: ${rule.name} - WARNING (${ruleResult.reason})`);
+          } else if (rule.action === 'ADJUST') {
+            let patch: { [field: string]: any } | undefined;
+            let adjustmentError: string | undefined;
+            if (rule.adjustment) {
+              try {
+                patch = await this.interpreter.evaluateAdjustment(rule.adjustment, { data: adjustedTransaction, policy });
+              } catch (error: any) {
+                adjustmentError = error?.message || String(error);
+              }
+            }
+
+            result.warnings.push(rule.ruleId);
+            if (adjustmentError !== undefined) {
+              // The rule still flags the transaction, but nothing was rewritten
+              evaluation = {
+                ...evaluation,
+                outcome: 'ADJUSTMENT_FAILED',
+                actionTaken: 'WARNED',
+                reason: `${ruleResult.reason}; adjustment failed: ${adjustmentError}`
+              };
+              console.log(`🔧 ${rule.ruleId}: ${rule.name} - ADJUSTMENT FAILED (${adjustmentError})`);
+            } else if (patch) {
+              adjustedTransaction = { ...adjustedTransaction, ...patch };
+              result.adjustments.push({ ruleId: rule.ruleId, patch, reason: ruleResult.reason });
+              evaluation.adjustment = patch;
+              console.log(`🔧 ${rule.ruleId}: ${rule.name} - ADJUSTED (${ruleResult.reason}) → ${JSON.stringify(patch)}`);
+            } else {
+              console.log(`🔧 ${rule.ruleId}: ${rule.name} - ADJUSTED (${ruleResult.reason})`);
+            }
+          }
+        }
+      } catch (error: any) {
+        // Only a DENY rule can make the transaction non-compliant; a WARN or ADJUST rule that
+        // cannot be evaluated is surfaced as a warning
+        if (rule.action === 'DENY') {
+          result.failedRules.push(rule.ruleId);
+          result.compliant = false;
+          deniedCritical = rule.priority === 'CRITICAL';
+        } else {
+          result.warnings.push(rule.ruleId);
+        }
+        evaluation = {
+          ...this.toRuleEvaluation(rule, { passed: false, reason: error?.message || String(error), trace: [] }, proofs, evidence, startedAt),
+          outcome: 'ERROR',
+          actionTaken: rule.action === 'DENY' ? 'DENIED' : 'WARNED'
+        };
+        console.log(`💥 ${rule.ruleId}: ${rule.name} - ERROR (${error})`);
+      }
+      result.evaluations.push(evaluation);
+
+      if (deniedCritical && mode === 'stopOnCriticalDeny') {
+        for (const remaining of orderedRules.slice(index + 1)) {
+          result.skippedRules.push({
+            ruleId: remaining.ruleId,
+            reason: `Short-circuited after CRITICAL DENY failure of ${rule.ruleId}`
+          });
+        }
+        console.log(`⛔ Stopping after CRITICAL DENY failure of ${rule.ruleId}; ${orderedRules.length - index - 1} rule(s) skipped`);
+        break;
+      }
+    }
+
+    const rulesById = new Map<string, any>(policy.rules.map((rule: any) => [rule.ruleId, rule]));
+    for (const skipped of result.skippedRules) {
+      const rule = rulesById.get(skipped.ruleId);
+      result.evaluations.push({
+        ...this.toRuleEvaluation(rule, { passed: false, reason: skipped.reason, trace: [] }, [], [], Date.now()),
+        outcome: 'SKIPPED',
+        actionTaken: 'SKIPPED'
+      });
+    }
+
+    if (result.adjustments.length > 0) {
+      result.adjustedTransaction = adjustedTransaction;
+      result.adjustedVerdict = await this.reevaluateDenyRules(evaluatedRules, adjustedTransaction, policy);
+    }
+
+    console.log(`\n📊 Rules Summary:`);
+    console.log(`✅ Passed: ${result.passedRules.length}`);
+    console.log(`❌ Failed: ${result.failedRules.length}`);
+    console.log(`⚠️ Warnings: ${result.warnings.length}`);
+    console.log(`⏭️ Skipped: ${result.skippedRules.length}`);
+    console.log(`🎯 Overall Compliance: ${result.compliant ? 'COMPLIANT' : 'NON-COMPLIANT'}`);
+    if (result.adjustedVerdict) {
+      console.log(`🔧 Adjusted Compliance: ${result.adjustedVerdict.compliant ? 'COMPLIANT' : 'NON-COMPLIANT'} (${result.adjustments.length} adjustment(s))`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-run the DENY rules that were evaluated against the ADJUST-patched transaction
+   */
+  private async reevaluateDenyRules(rules: any[], adjustedTransaction: TransactionContext, policy: any): Promise<{
+    compliant: boolean;
+    failedRules: string[];
+  }> {
+    const denyRules = rules.filter(rule => rule.action === 'DENY');
+    const failedRules: string[] = [];
+
+    console.log(`\n🔁 Re-evaluating ${denyRules.length} DENY rules against adjusted transaction...`);
+    for (const rule of denyRules) {
+      try {
+        const ruleResult = await this.evaluateRule(rule, adjustedTransaction, policy);
+        if (!ruleResult.passed) {
+          failedRules.push(rule.ruleId);
+          console.log(`❌ ${rule.ruleId}: ${rule.name} - FAILED after adjustment (${ruleResult.reason})`);
+        }
+      } catch (error) {
+        failedRules.push(rule.ruleId);
+        console.log(`💥 ${rule.ruleId}: ${rule.name} - ERROR after adjustment (${error})`);
+      }
+    }
+
+    return { compliant: failedRules.length === 0, failedRules };
+  }
+
+  /**
+   * Order rules by the policy's ruleChain (optionally by priority) and record
+   * rules that will not be evaluated because the chain does not include them
+   */
+  private planRuleEvaluation(policy: any, order: RuleEvaluationOrder): {
+    orderedRules: any[];
+    skippedRules: SkippedRule[];
+  } {
+    const rulesById = new Map<string, any>(policy.rules.map((rule: any) => [rule.ruleId, rule]));
+    const chain: string[] = Array.isArray(policy.ruleChain) ? policy.ruleChain : policy.rules.map((rule: any) => rule.ruleId);
+
+    const orderedRules = chain
+      .map(ruleId => rulesById.get(ruleId))
+      .filter((rule): rule is any => rule !== undefined);
+
+    if (order === 'priority') {
+      // Array.prototype.sort is stable, so chain order is kept within each priority
+      orderedRules.sort((a, b) => (PRIORITY_RANK[a.priority] ?? 99) - (PRIORITY_RANK[b.priority] ?? 99));
+    }
+
+    const skippedRules = policy.rules
+      .filter((rule: any) => !chain.includes(rule.ruleId))
+      .map((rule: any) => ({ ruleId: rule.ruleId, reason: 'Not included in policy ruleChain' }));
+
+    return { orderedRules, skippedRules };
+  }
+
+  /**
+   * Evaluate individual rule by interpreting its policy conditions
+   */
+  private async evaluateRule(rule: any, transactionData: TransactionContext, policy: any, proofs?: ZKProofReference[], evidence?: RuleEvidence[]): Promise<ConditionOutcome> {
+    if (!rule.conditions) {
+      return { passed: false, reason: 'Rule has no conditions', trace: [] };
+    }
+    return this.interpreter.evaluate(rule.conditions, { data: transactionData, policy, proofs, evidence });
+  }
+
+  /**
+   * Build the structured evaluation record for a rule from its condition outcome
+   */
+  private toRuleEvaluation(rule: any, outcome: ConditionOutcome, proofs: ZKProofReference[], evidence: RuleEvidence[], startedAt: number): RuleEvaluation {
+    const outcomes: { [action: string]: [RuleOutcome, RuleActionTaken] } = {
+      DENY: ['FAILED', 'DENIED'],
+      WARN: ['WARNING', 'WARNED'],
+      ADJUST: ['ADJUSTED', 'ADJUSTED']
+    };
+    const [failedOutcome, failedAction] = outcomes[rule.action] || ['FAILED', 'DENIED'];
+
+    const inputs: { [param: string]: any } = {};
+    outcome.trace.forEach(entry => Object.assign(inputs, entry.inputs));
+
+    return {
+      ruleId: rule.ruleId,
+      ruleName: rule.name,
+      priority: rule.priority,
+      action: rule.action,
+      outcome: outcome.passed ? 'PASSED' : failedOutcome,
+      actionTaken: outcome.passed ? 'NONE' : failedAction,
+      reason: outcome.reason,
+      message: outcome.passed ? undefined : rule.message,
+      inputs,
+      thresholds: outcome.trace.map(entry => ({
+        function: entry.function,
+        comparison: entry.comparison,
+        threshold: entry.threshold,
+        actual: entry.actual,
+        passed: entry.passed
+      })),
+      proofs,
+      evidence,
+      startedAt,
+      durationMs: Date.now() - startedAt
+    };
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * FORTE Metadata Scoring Model
+ * The 100-point metadata score (RULE_09/RULE_12) as data: each component has a weight and a
+ * partial-credit curve (or, for the financial component, a rating map) turning its verifier result
+ * into a share of that weight. Policies set the model in complianceThresholds.metadataScore.scoringModel
+ * and may re-weight components per asset type; every model must weigh 100 points in total.
+ */
+
+import type { PolicyIssue } from './PolicyValidator.ts';
+import { ASSET_TYPES, CREDIT_RATINGS } from './TransactionContext.ts';
+import type { AssetType } from './TransactionContext.ts';
+
+export const METADATA_COMPONENTS = ['gleif', 'bpmn', 'actus', 'dcsa', 'financial'] as const;
+
+export type MetadataComponent = typeof METADATA_COMPONENTS[number];
+
+/** [input, credit] points, credit 0-1, interpolated linearly and flat beyond the ends */
+export type ScoringCurve = [number, number][];
+
+export interface MetadataComponentModel {
+  /** Points the component is worth; 0 leaves it out for the asset type */
+  weight: number;
+  curve?: ScoringCurve;
+  /** Financial component: credit per credit rating, "unrated" for a missing or unknown rating */
+  ratings?: { [rating: string]: number };
+}
+
+export interface MetadataScoringModel {
+  components?: Partial<{ [component in MetadataComponent]: Partial<MetadataComponentModel> }>;
+  /** Per-asset-type overrides, merged into the components above */
+  assetTypes?: Partial<{ [assetType in AssetType]: { components: Partial<{ [component in MetadataComponent]: Partial<MetadataComponentModel> }> } }>;
+}
+
+export type ResolvedScoringModel = { [component in MetadataComponent]: MetadataComponentModel };
+
+export interface MetadataComponentScore {
+  component: MetadataComponent;
+  weight: number;
+  /** Verifier result the credit was read from: 1/0 for verified, fitness, risk score or rating */
+  input?: number | string;
+  credit: number;
+  points: number;
+  explanation: string;
+}
+
+export const METADATA_SCORE_TOTAL = 100;
+
+/**
+ * Inputs: GLEIF and DCSA 1 when verified, else 0; BPMN conformance fitness 0-1; ACTUS risk score 0-1000
+ */
+export const DEFAULT_METADATA_SCORING_MODEL: { components: ResolvedScoringModel } = {
+  components: {
+    gleif: { weight: 25, curve: [[0, 0], [1, 1]] },
+    bpmn: { weight: 20, curve: [[0, 0], [1, 1]] },
+    actus: { weight: 20, curve: [[0, 1], [1000, 0]] },
+    dcsa: { weight: 15, curve: [[0, 0.5], [1, 1]] },
+    financial: {
+      weight: 20,
+      ratings: { AAA: 1, AA: 0.95, A: 0.9, BBB: 0.75, BB: 0.6, B: 0.4, CCC: 0.25, CC: 0.15, C: 0.05, D: 0, unrated: 0.5 }
+    }
+  }
+};
+
+const COMPONENT_LABELS: { [component in MetadataComponent]: string } = {
+  gleif: 'GLEIF',
+  bpmn: 'BPMN',
+  actus: 'ACTUS',
+  dcsa: 'DCSA',
+  financial: 'Financial'
+};
+
+/**
+ * Components for an asset type: the defaults, then the model's components, then its asset-type override
+ */
+export function resolveScoringModel(model: MetadataScoringModel | undefined, assetType?: string): ResolvedScoringModel {
+  const override = assetType ? model?.assetTypes?.[assetType as AssetType]?.components : undefined;
+  return Object.fromEntries(METADATA_COMPONENTS.map(component => [component, {
+    ...DEFAULT_METADATA_SCORING_MODEL.components[component],
+    ...model?.components?.[component],
+    ...override?.[component]
+  }])) as ResolvedScoringModel;
+}
+
+export function curveCredit(curve: ScoringCurve, input: number): number {
+  if (input <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [x1, y1] = curve[i];
+    if (input <= x1) {
+      const [x0, y0] = curve[i - 1];
+      return y0 + (y1 - y0) * (input - x0) / (x1 - x0);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+/**
+ * Points for one component; `detail` describes the input, e.g. "LEI verified" or "risk score 153"
+ */
+export function scoreComponent(component: MetadataComponent, model: MetadataComponentModel, input: number | string | undefined, detail: string): MetadataComponentScore {
+  const label = COMPONENT_LABELS[component];
+  if (model.weight === 0) {
+    return { component, weight: 0, credit: 0, points: 0, explanation: `${label}: not scored for this asset type` };
+  }
+  const credit = component === 'financial'
+    ? (model.ratings?.[input as string] ?? model.ratings?.unrated ?? 0)
+    : curveCredit(model.curve, typeof input === 'number' ? input : 0);
+  const points = Math.round(model.weight * credit);
+  return { component, weight: model.weight, input, credit: Math.round(credit * 1000) / 1000, points, explanation: `${label}: ${detail} -> ${points}/${model.weight}` };
+}
+
+function checkComponent(component: string, model: any, path: string, issues: PolicyIssue[]): void {
+  if (!(METADATA_COMPONENTS as readonly string[]).includes(component)) {
+    issues.push({ path, message: `unknown component; expected one of ${METADATA_COMPONENTS.join(', ')}` });
+    return;
+  }
+  if (!model || typeof model !== 'object' || Array.isArray(model)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  if (model.weight !== undefined && (typeof model.weight !== 'number' || model.weight < 0)) {
+    issues.push({ path: `${path}.weight`, message: 'must be a non-negative number' });
+  }
+  if (model.curve !== undefined) {
+    if (component === 'financial') {
+      issues.push({ path: `${path}.curve`, message: 'financial is scored from ratings, not a curve' });
+    } else if (!Array.isArray(model.curve) || model.curve.length < 2
+      || model.curve.some((point: any) => !Array.isArray(point) || point.length !== 2 || point.some((value: any) => typeof value !== 'number'))) {
+      issues.push({ path: `${path}.curve`, message: 'must be at least two [input, credit] number pairs' });
+    } else {
+      model.curve.forEach(([input, credit]: [number, number], index: number) => {
+        if (credit < 0 || credit > 1) {
+          issues.push({ path: `${path}.curve[${index}]`, message: `credit ${credit} is outside 0-1` });
+        }
+        if (index > 0 && input <= model.curve[index - 1][0]) {
+          issues.push({ path: `${path}.curve[${index}]`, message: 'inputs must increase' });
+        }
+      });
+    }
+  }
+  if (model.ratings !== undefined) {
+    if (component !== 'financial') {
+      issues.push({ path: `${path}.ratings`, message: 'only the financial component is scored from ratings' });
+    } else if (!model.ratings || typeof model.ratings !== 'object' || Array.isArray(model.ratings)) {
+      issues.push({ path: `${path}.ratings`, message: 'must be an object of rating credits' });
+    } else {
+      for (const [rating, credit] of Object.entries<any>(model.ratings)) {
+        if (rating !== 'unrated' && !(CREDIT_RATINGS as readonly string[]).includes(rating)) {
+          issues.push({ path: `${path}.ratings.${rating}`, message: `unknown rating; expected one of ${CREDIT_RATINGS.join(', ')} or unrated` });
+        } else if (typeof credit !== 'number' || credit < 0 || credit > 1) {
+          issues.push({ path: `${path}.ratings.${rating}`, message: 'credit must be a number from 0 to 1' });
+        }
+      }
+    }
+  }
+}
+
+function checkComponents(components: any, path: string, issues: PolicyIssue[]): void {
+  if (!components || typeof components !== 'object' || Array.isArray(components)) {
+    issues.push({ path, message: 'must be an object of components' });
+    return;
+  }
+  for (const [component, model] of Object.entries(components)) {
+    checkComponent(component, model, `${path}.${component}`, issues);
+  }
+}
+
+/**
+ * Structural checks plus the weight total, for the model itself and every asset-type override
+ */
+export function validateScoringModel(model: any, path: string): PolicyIssue[] {
+  const issues: PolicyIssue[] = [];
+  if (!model || typeof model !== 'object' || Array.isArray(model)) {
+    return [{ path, message: 'must be an object' }];
+  }
+  if (model.components !== undefined) {
+    checkComponents(model.components, `${path}.components`, issues);
+  }
+  if (model.assetTypes !== undefined) {
+    for (const [assetType, override] of Object.entries<any>(model.assetTypes || {})) {
+      if (!(ASSET_TYPES as readonly string[]).includes(assetType)) {
+        issues.push({ path: `${path}.assetTypes.${assetType}`, message: `unknown asset type; expected one of ${ASSET_TYPES.join(', ')}` });
+      } else {
+        checkComponents(override?.components, `${path}.assetTypes.${assetType}.components`, issues);
+      }
+    }
+  }
+  if (issues.length > 0) return issues;
+
+  for (const assetType of [undefined, ...Object.keys(model.assetTypes || {})]) {
+    const resolved = resolveScoringModel(model, assetType);
+    const total = METADATA_COMPONENTS.reduce((sum, component) => sum + resolved[component].weight, 0);
+    if (total !== METADATA_SCORE_TOTAL) {
+      issues.push({
+        path: assetType ? `${path}.assetTypes.${assetType}` : `${path}.components`,
+        message: `component weights sum to ${total}${assetType ? ` for ${assetType}` : ''}, expected ${METADATA_SCORE_TOTAL}`
+      });
+    }
+  }
+  return issues;
+}
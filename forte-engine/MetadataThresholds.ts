@@ -0,0 +1,280 @@
+/**
+ * FORTE Metadata Thresholds
+ * Required metadata score for RULE_12 from the policy's complianceThresholds.metadataScore:
+ * a base level, the highest principal tier the asset reaches, then every adjustment whose asset
+ * types, jurisdiction pairs and credit ratings all match, capped at the maximum. The defaults
+ * mirror InstitutionalAssetParams.getMinimumMetadataScore. metadataThresholdParity compares a
+ * policy's table with that function as written in the Solidity source; it parses the source and
+ * does not run the contract, which test/InstitutionalAssetParams.t.sol does with forge test.
+ */
+
+import type { PolicyIssue } from './PolicyValidator.ts';
+import { ASSET_TYPES, CREDIT_RATINGS } from './TransactionContext.ts';
+import type { AssetType, CreditRating, TransactionContext } from './TransactionContext.ts';
+import type { MetadataScoringModel } from './MetadataScoring.ts';
+
+/** Named levels of complianceThresholds.metadataScore that tiers may refer to */
+export const METADATA_SCORE_LEVELS = ['minimum', 'institutional', 'premium'] as const;
+
+export type MetadataScoreLevel = typeof METADATA_SCORE_LEVELS[number];
+
+export interface MetadataPrincipalTier {
+  name: string;
+  /** Whole USD; the highest tier the principal reaches applies */
+  minPrincipal: number;
+  /** A fixed score, or one of the named levels */
+  score?: number;
+  level?: MetadataScoreLevel;
+}
+
+export interface MetadataThresholdAdjustment {
+  name: string;
+  /** Points added (or, if negative, removed) when every listed criterion matches */
+  add: number;
+  assetTypes?: AssetType[];
+  /** "BUYER-SELLER" country pairs, matched in either direction, e.g. "US-IN" */
+  jurisdictions?: string[];
+  creditRatings?: CreditRating[];
+}
+
+export interface MetadataThresholdTable {
+  /** Score below the first principal tier (default the minimum level) */
+  base?: number | MetadataScoreLevel;
+  principalTiers?: MetadataPrincipalTier[];
+  adjustments?: MetadataThresholdAdjustment[];
+  maximum?: number;
+}
+
+/** complianceThresholds.metadataScore */
+export interface MetadataScorePolicy {
+  minimum?: number;
+  institutional?: number;
+  premium?: number;
+  scoringModel?: MetadataScoringModel;
+  thresholds?: MetadataThresholdTable;
+}
+
+export interface MetadataThresholdResult {
+  requiredScore: number;
+  /** Principal tier applied, "base" below the first one */
+  tier: string;
+  /** Adjustments that matched, in table order */
+  adjustments: { name: string; add: number }[];
+  explanation: string;
+}
+
+export interface MetadataThresholdMismatch {
+  assetType: AssetType;
+  principalAmount: number;
+  typescript: number;
+  solidity: number;
+}
+
+export interface MetadataThresholdParity {
+  inParity: boolean;
+  /** Asset type and principal combinations compared */
+  checked: number;
+  mismatches: MetadataThresholdMismatch[];
+  /** Adjustments keyed on jurisdictions or credit ratings, which getMinimumMetadataScore cannot see */
+  offChainOnly: string[];
+}
+
+export const DEFAULT_METADATA_LEVELS: { [level in MetadataScoreLevel]: number } = {
+  minimum: 70,
+  institutional: 85,
+  premium: 95
+};
+
+export const DEFAULT_METADATA_THRESHOLDS: MetadataThresholdTable = {
+  base: 'minimum',
+  principalTiers: [
+    { name: 'premium', minPrincipal: 10000000, level: 'premium' },
+    { name: 'institutional', minPrincipal: 5000000, level: 'institutional' },
+    { name: 'large', minPrincipal: 1000000, score: 75 }
+  ],
+  adjustments: [
+    { name: 'structured products', assetTypes: ['STRUCTURED_PRODUCTS'], add: 5 },
+    { name: 'trade finance', assetTypes: ['TRADE_FINANCE'], add: 3 }
+  ],
+  maximum: 100
+};
+
+function levelScore(value: number | MetadataScoreLevel, policy: MetadataScorePolicy): number {
+  return typeof value === 'number' ? value : policy[value] ?? DEFAULT_METADATA_LEVELS[value];
+}
+
+function matchesJurisdiction(pairs: string[], buyerCountry?: string, sellerCountry?: string): boolean {
+  if (!buyerCountry || !sellerCountry) return false;
+  return pairs.some(pair => pair === `${buyerCountry}-${sellerCountry}` || pair === `${sellerCountry}-${buyerCountry}`);
+}
+
+/**
+ * Required score for an asset under the policy's table (DEFAULT_METADATA_THRESHOLDS when it has none)
+ */
+export function resolveMetadataThreshold(policy: MetadataScorePolicy | undefined, asset: Partial<TransactionContext>): MetadataThresholdResult {
+  const levels = policy || {};
+  const table = levels.thresholds || DEFAULT_METADATA_THRESHOLDS;
+  const principal = asset.principalAmount || 0;
+
+  const tier = [...(table.principalTiers || [])]
+    .sort((a, b) => b.minPrincipal - a.minPrincipal)
+    .find(candidate => principal >= candidate.minPrincipal);
+  let requiredScore = tier ? levelScore(tier.level ?? tier.score, levels) : levelScore(table.base ?? 'minimum', levels);
+
+  const adjustments = (table.adjustments || [])
+    .filter(adjustment => (!adjustment.assetTypes || adjustment.assetTypes.includes(asset.assetType))
+      && (!adjustment.jurisdictions || matchesJurisdiction(adjustment.jurisdictions, asset.buyerCountry, asset.sellerCountry))
+      && (!adjustment.creditRatings || adjustment.creditRatings.includes(asset.creditRating)))
+    .map(({ name, add }) => ({ name, add }));
+  requiredScore += adjustments.reduce((total, adjustment) => total + adjustment.add, 0);
+  requiredScore = Math.max(0, Math.min(table.maximum ?? 100, requiredScore));
+
+  const tierName = tier?.name || 'base';
+  const explanation = [
+    tier ? `${tierName} tier ($${tier.minPrincipal.toLocaleString()}+)` : 'base level',
+    ...adjustments.map(adjustment => `${adjustment.add >= 0 ? '+' : ''}${adjustment.add} ${adjustment.name}`)
+  ].join(', ') + ` -> ${requiredScore}`;
+  return { requiredScore, tier: tierName, adjustments, explanation };
+}
+
+function isLevelOrScore(value: any): boolean {
+  return (typeof value === 'number' && value >= 0 && value <= 100) || (METADATA_SCORE_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Structural checks for complianceThresholds.metadataScore.thresholds
+ */
+export function validateMetadataThresholds(table: any, path: string): PolicyIssue[] {
+  if (!table || typeof table !== 'object' || Array.isArray(table)) {
+    return [{ path, message: 'must be an object' }];
+  }
+  const issues: PolicyIssue[] = [];
+  const levels = `a score from 0 to 100 or one of ${METADATA_SCORE_LEVELS.join(', ')}`;
+  if (table.base !== undefined && !isLevelOrScore(table.base)) {
+    issues.push({ path: `${path}.base`, message: `must be ${levels}` });
+  }
+  if (table.maximum !== undefined && (typeof table.maximum !== 'number' || table.maximum < 0 || table.maximum > 100)) {
+    issues.push({ path: `${path}.maximum`, message: 'must be a score from 0 to 100' });
+  }
+
+  if (table.principalTiers !== undefined && !Array.isArray(table.principalTiers)) {
+    issues.push({ path: `${path}.principalTiers`, message: 'must be an array' });
+  }
+  const seen = new Set<number>();
+  (Array.isArray(table.principalTiers) ? table.principalTiers : []).forEach((tier: any, index: number) => {
+    const tierPath = `${path}.principalTiers[${index}]`;
+    if (typeof tier?.name !== 'string' || !tier.name) {
+      issues.push({ path: `${tierPath}.name`, message: 'is required' });
+    }
+    if (typeof tier?.minPrincipal !== 'number' || tier.minPrincipal < 0) {
+      issues.push({ path: `${tierPath}.minPrincipal`, message: 'must be a non-negative USD amount' });
+    } else if (seen.has(tier.minPrincipal)) {
+      issues.push({ path: `${tierPath}.minPrincipal`, message: `another tier already starts at ${tier.minPrincipal}` });
+    } else {
+      seen.add(tier.minPrincipal);
+    }
+    if ((tier?.score === undefined) === (tier?.level === undefined)) {
+      issues.push({ path: tierPath, message: 'needs exactly one of score or level' });
+    } else if (!isLevelOrScore(tier.score ?? tier.level)) {
+      issues.push({ path: tierPath, message: `score or level must be ${levels}` });
+    }
+  });
+
+  if (table.adjustments !== undefined && !Array.isArray(table.adjustments)) {
+    issues.push({ path: `${path}.adjustments`, message: 'must be an array' });
+  }
+  (Array.isArray(table.adjustments) ? table.adjustments : []).forEach((adjustment: any, index: number) => {
+    const adjustmentPath = `${path}.adjustments[${index}]`;
+    if (typeof adjustment?.name !== 'string' || !adjustment.name) {
+      issues.push({ path: `${adjustmentPath}.name`, message: 'is required' });
+    }
+    if (typeof adjustment?.add !== 'number') {
+      issues.push({ path: `${adjustmentPath}.add`, message: 'must be a number' });
+    }
+    const criteria: [string, readonly string[] | RegExp][] = [
+      ['assetTypes', ASSET_TYPES],
+      ['jurisdictions', /^[A-Z]{2}-[A-Z]{2}$/],
+      ['creditRatings', CREDIT_RATINGS]
+    ];
+    if (!criteria.some(([field]) => adjustment?.[field] !== undefined)) {
+      issues.push({ path: adjustmentPath, message: 'needs at least one of assetTypes, jurisdictions or creditRatings' });
+    }
+    for (const [field, allowed] of criteria) {
+      const values = adjustment?.[field];
+      if (values === undefined) continue;
+      if (!Array.isArray(values) || values.length === 0) {
+        issues.push({ path: `${adjustmentPath}.${field}`, message: 'must be a non-empty array' });
+        continue;
+      }
+      values.forEach((value: any, valueIndex: number) => {
+        const valid = allowed instanceof RegExp ? typeof value === 'string' && allowed.test(value) : allowed.includes(value);
+        if (!valid) {
+          issues.push({
+            path: `${adjustmentPath}.${field}[${valueIndex}]`,
+            message: allowed instanceof RegExp ? 'must be a BUYER-SELLER pair of ISO country codes, e.g. US-IN' : `must be one of ${allowed.join(', ')}`
+          });
+        }
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * The tiers getMinimumMetadataScore encodes, read from the Solidity source by pattern: the parity
+ * check is only as good as this parse, so unexpected structure is an error rather than a guess
+ */
+function solidityThresholds(source: string): { minimumScore: (assetType: AssetType, principalAmount: number) => number; boundaries: number[] } {
+  const body = source.match(/function getMinimumMetadataScore[\s\S]*?\n    }/)?.[0];
+  if (!body) {
+    throw new Error('getMinimumMetadataScore not found in the Solidity source');
+  }
+  const base = Number(body.match(/uint8 baseScore = (\d+);/)?.[1]);
+  const tiers = [...body.matchAll(/principalInUSD >= (\d+)\) baseScore = (\d+);/g)].map(match => [Number(match[1]), Number(match[2])]);
+  const bumps = [...body.matchAll(/assetType == AssetType\.(\w+)\) baseScore \+= (\d+);/g)].map(match => [match[1], Number(match[2])] as [string, number]);
+  const cap = body.match(/baseScore > (\d+) \? (\d+)/);
+  if (!Number.isFinite(base) || tiers.length === 0 || !cap) {
+    throw new Error('getMinimumMetadataScore no longer has the expected base/tier/cap structure; update the parity check');
+  }
+  const minimumScore = (assetType: AssetType, principalAmount: number) => {
+    // Same order as the Solidity if/else chain, which lists tiers from the highest down
+    let score = tiers.find(([minimum]) => principalAmount >= minimum)?.[1] ?? base;
+    bumps.forEach(([type, add]) => { if (type === assetType) score += add; });
+    return score > Number(cap[1]) ? Number(cap[2]) : score;
+  };
+  return { minimumScore, boundaries: tiers.map(([minimum]) => minimum) };
+}
+
+/**
+ * Compare the policy's thresholds with getMinimumMetadataScore for every asset type at each tier boundary.
+ * Only asset type and principal are compared: the on-chain function has no jurisdiction or rating tiers.
+ */
+export function metadataThresholdParity(policy: MetadataScorePolicy | undefined, soliditySource: string): MetadataThresholdParity {
+  const { minimumScore, boundaries: solidityBoundaries } = solidityThresholds(soliditySource);
+  const table = policy?.thresholds || DEFAULT_METADATA_THRESHOLDS;
+  const boundaries = new Set<number>([0]);
+  [...(table.principalTiers || []).map(tier => tier.minPrincipal), ...solidityBoundaries].forEach(minimum => {
+    boundaries.add(minimum);
+    if (minimum > 0) boundaries.add(minimum - 1);
+  });
+
+  const mismatches: MetadataThresholdMismatch[] = [];
+  let checked = 0;
+  for (const assetType of ASSET_TYPES) {
+    for (const principalAmount of [...boundaries].sort((a, b) => a - b)) {
+      checked++;
+      const typescript = resolveMetadataThreshold(
+        { ...policy, thresholds: { ...table, adjustments: (table.adjustments || []).filter(adjustment => !adjustment.jurisdictions && !adjustment.creditRatings) } },
+        { assetType, principalAmount }
+      ).requiredScore;
+      const onChain = minimumScore(assetType, principalAmount);
+      if (typescript !== onChain) {
+        mismatches.push({ assetType, principalAmount, typescript, solidity: onChain });
+      }
+    }
+  }
+  const offChainOnly = (table.adjustments || [])
+    .filter(adjustment => adjustment.jurisdictions || adjustment.creditRatings)
+    .map(adjustment => adjustment.name);
+  return { inParity: mismatches.length === 0, checked, mismatches, offChainOnly };
+}
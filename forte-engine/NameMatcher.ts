@@ -0,0 +1,170 @@
+/**
+ * FORTE Entity Name Matcher
+ * Scores how closely two entity names match after normalizing legal suffixes, punctuation and
+ * common transliteration variants, e.g. "ROSNEFT OIL CO" vs "Rosneft" or "PETROFF" vs "PETROV"
+ */
+
+/** Reported candidates score at least this much unless the caller asks otherwise */
+export const DEFAULT_MINIMUM_NAME_SCORE = 0.6;
+
+/** Token pairs less similar than this contribute nothing to a name score */
+const TOKEN_MATCH_FLOOR = 0.84;
+
+/** Weight of "the shorter name is contained in the longer" versus "both names fully covered" */
+const CONTAINMENT_WEIGHT = 0.5;
+
+/** Weight of a generic token relative to a distinctive one, matched or not */
+const GENERIC_TOKEN_WEIGHT = 0.1;
+
+/** A distinctive token loses credit this many times faster than its similarity drops ("ROSTOV" is not "ROSTOK") */
+const DISTINCTIVE_MISMATCH_PENALTY = 2;
+
+const LEGAL_SUFFIXES = new Set([
+  'AB', 'AG', 'AS', 'ASA', 'BHD', 'BV', 'CO', 'COMPANY', 'CORP', 'CORPORATION', 'CV', 'EV', 'FZCO', 'FZE', 'FZC',
+  'GMBH', 'INC', 'INCORPORATED', 'JSC', 'KG', 'KK', 'LIMITED', 'LLC', 'LLP', 'LP', 'LTD', 'NV', 'OAO', 'OJSC',
+  'OOO', 'OY', 'PAO', 'PJSC', 'PLC', 'PTE', 'PTY', 'SA', 'SAS', 'SARL', 'SDN', 'SE', 'SPA', 'SRL', 'ZAO'
+]);
+
+const STOP_WORDS = new Set(['THE', 'OF', 'AND']);
+
+/** Industry and descriptor words shared by many unrelated entities; they cannot carry a match on their own */
+const GENERIC_WORDS = [
+  'BANK', 'CAPITAL', 'COMMERCIAL', 'ENERGY', 'ENTERPRISES', 'FINANCE', 'FINANCIAL', 'GAS', 'GENERAL', 'GLOBAL',
+  'GROUP', 'HOLDING', 'HOLDINGS', 'INDUSTRIAL', 'INDUSTRIES', 'INTERNATIONAL', 'INVESTMENT', 'INVESTMENTS',
+  'LOGISTICS', 'MARINE', 'MARITIME', 'NATIONAL', 'OIL', 'PETROLEUM', 'SERVICES', 'SHIPPING', 'TECHNOLOGIES',
+  'TECHNOLOGY', 'TRADE', 'TRADING', 'TRANSPORT'
+];
+
+/** Spelling variants produced by different transliteration schemes, folded to one form */
+const TRANSLITERATIONS: Array<[RegExp, string]> = [
+  [/TSCH|TCH/g, 'CH'],
+  [/SCH/g, 'SH'],
+  [/KH/g, 'H'],
+  [/PH/g, 'F'],
+  [/CK/g, 'K'],
+  [/Q/g, 'K'],
+  [/W/g, 'V'],
+  [/FF$/, 'V'],
+  [/Y/g, 'I'],
+  [/(.)\1+/g, '$1']
+];
+
+/** Uppercase, diacritics and punctuation stripped, whitespace collapsed */
+export function normalizeEntityName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+}
+
+function foldTransliteration(token: string): string {
+  return TRANSLITERATIONS.reduce((folded, [pattern, replacement]) => folded.replace(pattern, replacement), token);
+}
+
+const GENERIC_TOKENS = new Set(GENERIC_WORDS.map(foldTransliteration));
+
+function tokenWeight(token: string): number {
+  return GENERIC_TOKENS.has(token) ? GENERIC_TOKEN_WEIGHT : 1;
+}
+
+/**
+ * Comparable tokens of a name: legal suffixes and stop words removed, transliterations folded.
+ * Runs of single letters are joined first so "S.A." and "N.V." are recognized as suffixes.
+ */
+export function nameTokens(name: string): string[] {
+  const tokens: string[] = [];
+  let letters = '';
+  for (const token of [...normalizeEntityName(name).split(' ').filter(Boolean), '']) {
+    if (token.length === 1) {
+      letters += token;
+      continue;
+    }
+    if (letters) tokens.push(letters);
+    letters = '';
+    if (token) tokens.push(token);
+  }
+
+  const significant = tokens.filter(token => !LEGAL_SUFFIXES.has(token) && !STOP_WORDS.has(token));
+  // A name made only of suffixes ("CO LTD") is compared as written
+  return (significant.length > 0 ? significant : tokens).map(foldTransliteration);
+}
+
+/**
+ * Jaro-Winkler similarity of two strings, 0 to 1
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Similarity of two entity names, 0 to 1. Each token of the shorter name is paired with its most
+ * similar unused token of the longer one; the score blends how much of the shorter name is found
+ * (containment) with how much of both names is accounted for (coverage). Generic tokens ("BANK",
+ * "SHIPPING") weigh little, and containment only counts once a distinctive token matches, so a
+ * generic or partial name does not score as a match of a longer one.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const aTokens = nameTokens(a);
+  const bTokens = nameTokens(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const [shorter, longer] = aTokens.length <= bTokens.length ? [aTokens, bTokens] : [bTokens, aTokens];
+  const unused = [...longer];
+  let total = 0;
+  let distinctiveMatched = false;
+  for (const token of shorter) {
+    let bestIndex = -1;
+    let best = 0;
+    unused.forEach((candidate, index) => {
+      const similarity = jaroWinkler(token, candidate);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0 && best >= TOKEN_MATCH_FLOOR) {
+      const generic = GENERIC_TOKENS.has(token);
+      const credit = generic ? best : Math.max(0, 1 - DISTINCTIVE_MISMATCH_PENALTY * (1 - best));
+      total += tokenWeight(token) * credit;
+      distinctiveMatched = distinctiveMatched || !generic;
+      unused.splice(bestIndex, 1);
+    }
+  }
+
+  const weight = (tokens: string[]) => tokens.reduce((sum, token) => sum + tokenWeight(token), 0);
+  const containment = total / weight(shorter);
+  const coverage = total / weight(longer);
+  const score = distinctiveMatched ? CONTAINMENT_WEIGHT * containment + (1 - CONTAINMENT_WEIGHT) * coverage : coverage;
+  return Math.round(score * 1000) / 1000;
+}
@@ -0,0 +1,151 @@
+/**
+ * OFAC Specially Designated Nationals (SDN) list parsers
+ * Reads the Treasury's sdn.xml and the legacy sdn.csv / alt.csv / add.csv files, including the
+ * "Digital Currency Address - <ticker>" identifiers used for wallet screening
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import { parseXml, xmlChild, xmlChildren, xmlChildText } from './XmlParser.ts';
+import { parseCsv } from './CsvParser.ts';
+import type { XmlElement } from './XmlParser.ts';
+import { extractDigitalCurrencyAddresses, uniqueValues } from './SanctionsList.ts';
+import type { DigitalCurrencyAddress, SanctionsEntityType, SanctionsEntry, SanctionsSnapshot } from './SanctionsList.ts';
+
+export const OFAC_SDN_LIST_ID = 'OFAC_SDN';
+
+const DIGITAL_CURRENCY_ID = /^Digital Currency Address - (\S+)$/i;
+/** Null marker used throughout the legacy CSV files */
+const CSV_NULL = '-0-';
+
+function entityType(value: string | undefined): SanctionsEntityType {
+  switch ((value || '').trim().toLowerCase()) {
+    case 'individual': return 'individual';
+    case 'vessel': return 'vessel';
+    case 'aircraft': return 'aircraft';
+    default: return 'entity';
+  }
+}
+
+/** MM/DD/YYYY as published by OFAC → YYYY-MM-DD */
+function isoDate(publishDate: string): string {
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(publishDate.trim());
+  if (!match) {
+    throw new Error(`Unrecognized OFAC publish date "${publishDate}"`);
+  }
+  return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+}
+
+function xmlName(element: XmlElement): string {
+  const lastName = xmlChildText(element, 'lastName') || '';
+  const firstName = xmlChildText(element, 'firstName');
+  return firstName ? `${lastName}, ${firstName}` : lastName;
+}
+
+/**
+ * Parse sdn.xml (the http://tempuri.org/sdnList.xsd schema)
+ */
+export function parseOFACSdnXml(xml: string): SanctionsSnapshot {
+  const root = parseXml(xml);
+  if (root.name !== 'sdnList') {
+    throw new Error(`Expected an OFAC <sdnList> document, found <${root.name}>`);
+  }
+
+  // OFAC's schema really does spell it "publshInformation"
+  const publishInformation = xmlChild(root, 'publshInformation') || xmlChild(root, 'publishInformation');
+  const publishDate = xmlChildText(publishInformation, 'Publish_Date');
+  if (!publishDate) {
+    throw new Error('OFAC SDN file has no Publish_Date');
+  }
+
+  const entries = xmlChildren(root, 'sdnEntry').map((element): SanctionsEntry => {
+    const ids = xmlChildren(xmlChild(element, 'idList'), 'id');
+    const digitalCurrencyAddresses: DigitalCurrencyAddress[] = ids.flatMap(id => {
+      const match = DIGITAL_CURRENCY_ID.exec(xmlChildText(id, 'idType') || '');
+      const address = xmlChildText(id, 'idNumber');
+      return match && address ? [{ currency: match[1].toUpperCase(), address }] : [];
+    });
+    const countries = [
+      ...xmlChildren(xmlChild(element, 'addressList'), 'address'),
+      ...xmlChildren(xmlChild(element, 'nationalityList'), 'nationality'),
+      ...xmlChildren(xmlChild(element, 'citizenshipList'), 'citizenship')
+    ].map(location => xmlChildText(location, 'country'));
+
+    return {
+      uid: xmlChildText(element, 'uid'),
+      name: xmlName(element),
+      entityType: entityType(xmlChildText(element, 'sdnType')),
+      programs: uniqueValues(xmlChildren(xmlChild(element, 'programList'), 'program').map(program => program.text)),
+      aliases: uniqueValues(xmlChildren(xmlChild(element, 'akaList'), 'aka').map(xmlName)),
+      countries: uniqueValues(countries),
+      digitalCurrencyAddresses,
+      remarks: xmlChildText(element, 'remarks')
+    };
+  });
+
+  const missingUid = entries.findIndex(entry => !entry.uid);
+  if (missingUid >= 0) {
+    throw new Error(`OFAC SDN entry #${missingUid + 1} has no uid`);
+  }
+  return { listId: OFAC_SDN_LIST_ID, version: isoDate(publishDate), entries };
+}
+
+function csvValue(value: string | undefined): string | undefined {
+  const trimmed = (value || '').trim();
+  return trimmed && trimmed !== CSV_NULL ? trimmed : undefined;
+}
+
+/**
+ * Parse the legacy CSV set: sdn.csv plus the optional alt.csv (aliases) and add.csv (addresses).
+ * The CSV files have no header row and carry no publish date, so the version must be supplied.
+ */
+export function parseOFACSdnCsv(files: { sdn: string; alt?: string; add?: string }, version: string): SanctionsSnapshot {
+  const aliases = new Map<string, string[]>();
+  for (const [entNum, , , altName] of parseCsv(files.alt || '')) {
+    const name = csvValue(altName);
+    if (name) aliases.set(entNum.trim(), [...(aliases.get(entNum.trim()) || []), name]);
+  }
+  const countries = new Map<string, string[]>();
+  for (const [entNum, , , , country] of parseCsv(files.add || '')) {
+    const value = csvValue(country);
+    if (value) countries.set(entNum.trim(), [...(countries.get(entNum.trim()) || []), value]);
+  }
+
+  const entries = parseCsv(files.sdn).map(([entNum, name, type, program, , , , , , , , remarks]): SanctionsEntry => {
+    const uid = entNum.trim();
+    const remarkText = csvValue(remarks);
+    return {
+      uid,
+      name: csvValue(name) || '',
+      entityType: entityType(csvValue(type)),
+      // Multiple programs are published as "SDGT] [CYBER2"
+      programs: uniqueValues((csvValue(program) || '').split(/\]\s*\[/).map(value => value.replace(/[[\]]/g, '').trim())),
+      aliases: uniqueValues(aliases.get(uid) || []),
+      countries: uniqueValues(countries.get(uid) || []),
+      digitalCurrencyAddresses: extractDigitalCurrencyAddresses(remarkText),
+      remarks: remarkText
+    };
+  });
+
+  return { listId: OFAC_SDN_LIST_ID, version, entries };
+}
+
+/**
+ * Load an SDN publication from sdn.xml, or from sdn.csv (or its directory) with alt.csv/add.csv
+ * beside it. CSV versions come from `version` or the file's modification date.
+ */
+export function loadOFACSdn(path: string, version?: string): SanctionsSnapshot {
+  if (extname(path).toLowerCase() === '.xml') {
+    return parseOFACSdnXml(readFileSync(path, 'utf-8'));
+  }
+
+  const sdnPath = statSync(path).isDirectory() ? join(path, 'sdn.csv') : path;
+  const sibling = (name: string) => {
+    const siblingPath = join(dirname(sdnPath), basename(sdnPath).replace(/sdn/i, name));
+    return siblingPath !== sdnPath && existsSync(siblingPath) ? readFileSync(siblingPath, 'utf-8') : undefined;
+  };
+  return parseOFACSdnCsv(
+    { sdn: readFileSync(sdnPath, 'utf-8'), alt: sibling('alt'), add: sibling('add') },
+    version || statSync(sdnPath).mtime.toISOString().slice(0, 10)
+  );
+}
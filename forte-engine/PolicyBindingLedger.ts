@@ -0,0 +1,196 @@
+/**
+ * FORTE Policy Binding Ledger
+ * Records which policy version governs each contract (chainId + address), who applied it and when,
+ * with un-apply, re-apply and rollback kept as an append-only event history
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { PolicyVersionRecord } from './PolicyStore.ts';
+
+export type BindingStatus = 'ACTIVE' | 'UNAPPLIED';
+export type BindingEventType = 'APPLY' | 'UNAPPLY' | 'REAPPLY' | 'ROLLBACK';
+
+export interface PolicyBinding {
+  chainId: string;
+  contractAddress: string;
+  policyId: string;
+  policyName: string;
+  policyVersion: string;
+  status: BindingStatus;
+  appliedAt: string;
+  appliedBy: string;
+  unappliedAt?: string;
+  unappliedBy?: string;
+}
+
+export interface BindingEvent {
+  type: BindingEventType;
+  chainId: string;
+  contractAddress: string;
+  policyId: string;
+  wallet: string;
+  timestamp: string;
+}
+
+interface LedgerFile {
+  version: 1;
+  bindings: { [key: string]: PolicyBinding };
+  events: BindingEvent[];
+}
+
+export class PolicyBindingLedger {
+  private ledgerPath: string;
+  private data: LedgerFile;
+
+  constructor(ledgerPath: string = 'data/policy-bindings.json') {
+    this.ledgerPath = ledgerPath;
+    this.data = existsSync(ledgerPath)
+      ? JSON.parse(readFileSync(ledgerPath, 'utf-8'))
+      : { version: 1, bindings: {}, events: [] };
+  }
+
+  /**
+   * Bind a contract to a policy version, replacing any current binding
+   */
+  apply(chainId: string, contractAddress: string, record: PolicyVersionRecord, wallet: string): PolicyBinding {
+    return this.bind('APPLY', chainId, contractAddress, record, wallet);
+  }
+
+  /**
+   * Detach the policy from a contract; the binding is kept so it can be re-applied
+   */
+  unapply(chainId: string, contractAddress: string, wallet: string): PolicyBinding {
+    const binding = this.get(chainId, contractAddress);
+    if (!binding || binding.status !== 'ACTIVE') {
+      throw new Error(`Contract ${contractAddress} on chain ${chainId} has no active policy to un-apply`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const updated: PolicyBinding = { ...binding, status: 'UNAPPLIED', unappliedAt: timestamp, unappliedBy: wallet };
+    this.data.bindings[this.key(chainId, contractAddress)] = updated;
+    this.record('UNAPPLY', updated, wallet, timestamp);
+    return updated;
+  }
+
+  /**
+   * Re-activate the policy that was last un-applied from a contract
+   */
+  reapply(chainId: string, contractAddress: string, record: PolicyVersionRecord, wallet: string): PolicyBinding {
+    const binding = this.get(chainId, contractAddress);
+    if (!binding || binding.status !== 'UNAPPLIED') {
+      throw new Error(`Contract ${contractAddress} on chain ${chainId} has no un-applied policy to re-apply`);
+    }
+    return this.bind('REAPPLY', chainId, contractAddress, record, wallet);
+  }
+
+  /**
+   * Policy ID the contract was bound to before its current one, if any.
+   * Rolled-back bindings are dropped from the walk, so repeated rollbacks keep going back
+   */
+  previousPolicyId(chainId: string, contractAddress: string): string | undefined {
+    const current = this.get(chainId, contractAddress)?.policyId;
+    const bound = this.bindingStack(chainId, contractAddress);
+    // Walk back past the current policy's most recent run of bindings
+    let index = bound.length - 1;
+    while (index >= 0 && bound[index] === current) index--;
+    return index >= 0 ? bound[index] : undefined;
+  }
+
+  /**
+   * Whether the contract has ever been bound to a policy ID
+   */
+  wasBoundTo(chainId: string, contractAddress: string, policyId: string): boolean {
+    return this.history(chainId, contractAddress).some(event => event.type !== 'UNAPPLY' && event.policyId === policyId);
+  }
+
+  /**
+   * Re-bind a contract to a policy version it was bound to earlier
+   */
+  rollback(chainId: string, contractAddress: string, record: PolicyVersionRecord, wallet: string): PolicyBinding {
+    return this.bind('ROLLBACK', chainId, contractAddress, record, wallet);
+  }
+
+  get(chainId: string, contractAddress: string): PolicyBinding | undefined {
+    return this.data.bindings[this.key(chainId, contractAddress)];
+  }
+
+  /**
+   * Current bindings, optionally only those for one policy or chain
+   */
+  list(filter: { policyId?: string; chainId?: string; status?: BindingStatus } = {}): PolicyBinding[] {
+    return Object.values(this.data.bindings).filter(binding =>
+      (!filter.policyId || binding.policyId === filter.policyId)
+      && (!filter.chainId || binding.chainId === filter.chainId)
+      && (!filter.status || binding.status === filter.status)
+    );
+  }
+
+  history(chainId: string, contractAddress: string): BindingEvent[] {
+    const address = contractAddress.toLowerCase();
+    return this.data.events.filter(event => event.chainId === chainId && event.contractAddress === address);
+  }
+
+  /**
+   * Policy IDs bound to a contract, oldest first; a rollback pops the bindings it undid
+   */
+  private bindingStack(chainId: string, contractAddress: string): string[] {
+    const stack: string[] = [];
+    for (const event of this.history(chainId, contractAddress)) {
+      if (event.type === 'UNAPPLY') continue;
+      if (event.type === 'ROLLBACK' && stack.includes(event.policyId)) {
+        while (stack[stack.length - 1] !== event.policyId) stack.pop();
+        continue;
+      }
+      stack.push(event.policyId);
+    }
+    return stack;
+  }
+
+  private bind(
+    type: BindingEventType,
+    chainId: string,
+    contractAddress: string,
+    record: PolicyVersionRecord,
+    wallet: string
+  ): PolicyBinding {
+    const timestamp = new Date().toISOString();
+    const binding: PolicyBinding = {
+      chainId,
+      contractAddress: contractAddress.toLowerCase(),
+      policyId: record.policyId,
+      policyName: record.policyName,
+      policyVersion: record.policyVersion,
+      status: 'ACTIVE',
+      appliedAt: timestamp,
+      appliedBy: wallet
+    };
+    this.data.bindings[this.key(chainId, contractAddress)] = binding;
+    this.record(type, binding, wallet, timestamp);
+    return binding;
+  }
+
+  private record(type: BindingEventType, binding: PolicyBinding, wallet: string, timestamp: string): void {
+    this.data.events.push({
+      type,
+      chainId: binding.chainId,
+      contractAddress: binding.contractAddress,
+      policyId: binding.policyId,
+      wallet,
+      timestamp
+    });
+    this.save();
+  }
+
+  private key(chainId: string, contractAddress: string): string {
+    return `${chainId}:${contractAddress.toLowerCase()}`;
+  }
+
+  /** Write to a temp file and rename, so a crash never leaves a truncated ledger */
+  private save(): void {
+    mkdirSync(dirname(this.ledgerPath), { recursive: true });
+    const tempPath = `${this.ledgerPath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.data, null, 2) + '\n');
+    renameSync(tempPath, this.ledgerPath);
+  }
+}
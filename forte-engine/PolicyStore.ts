@@ -0,0 +1,201 @@
+/**
+ * FORTE Persistent Policy Store
+ * File-backed registry of content-addressed policy versions, with per-policyName history,
+ * version diffs and rollback, so any decision can be traced to the exact policy
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { contentHash } from './Hashing.ts';
+
+export interface PolicyVersionRecord {
+  policyId: string;
+  policyName: string;
+  policyVersion: string;
+  /** SHA-256 of the canonical policy JSON */
+  hash: string;
+  /** 1-based position in this policyName's history */
+  sequence: number;
+  registeredAt: string;
+  policy: any;
+}
+
+export interface PolicyChange {
+  path: string;
+  before: any;
+  after: any;
+}
+
+export interface PolicyDiff {
+  from: string;
+  to: string;
+  addedRules: string[];
+  removedRules: string[];
+  changedRules: Array<{ ruleId: string; changes: PolicyChange[] }>;
+  /** Changes outside the rules array (ruleChain, thresholds, metadata) */
+  changes: PolicyChange[];
+}
+
+interface PolicyStoreFile {
+  version: 1;
+  policies: { [policyId: string]: PolicyVersionRecord };
+  /** policyName → policy IDs in registration order */
+  history: { [policyName: string]: string[] };
+  /** policyName → policy ID currently in force for new applications */
+  active: { [policyName: string]: string };
+}
+
+/**
+ * Reproducible policy ID: the same policy content always gets the same ID
+ */
+export function policyIdFor(policy: any): string {
+  const name = String(policy.policyName || 'POLICY').replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+  return `POLICY_${name}_${contentHash(policy).slice(0, 12)}`;
+}
+
+/** Structural JSON diff; arrays compare element-wise */
+function diffValues(before: any, after: any, path: string, changes: PolicyChange[]): void {
+  if (before === after) return;
+  const bothObjects = before && after && typeof before === 'object' && typeof after === 'object'
+    && Array.isArray(before) === Array.isArray(after);
+  if (!bothObjects) {
+    changes.push({ path, before, after });
+    return;
+  }
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    diffValues(before[key], after[key], Array.isArray(before) ? `${path}[${key}]` : `${path}.${key}`, changes);
+  }
+}
+
+export class PolicyStore {
+  private storePath: string;
+  private data: PolicyStoreFile;
+
+  constructor(storePath: string = 'data/policy-registry.json') {
+    this.storePath = storePath;
+    this.data = existsSync(storePath)
+      ? JSON.parse(readFileSync(storePath, 'utf-8'))
+      : { version: 1, policies: {}, history: {}, active: {} };
+  }
+
+  /**
+   * Store a policy version. Re-registering identical content returns the existing record.
+   * A new version becomes the active one for its policyName.
+   */
+  register(policy: any): PolicyVersionRecord {
+    const policyId = policyIdFor(policy);
+    const existing = this.data.policies[policyId];
+    if (existing) {
+      return existing;
+    }
+
+    const history = this.data.history[policy.policyName] || [];
+    const record: PolicyVersionRecord = {
+      policyId,
+      policyName: policy.policyName,
+      policyVersion: policy.policyVersion,
+      hash: contentHash(policy),
+      sequence: history.length + 1,
+      registeredAt: new Date().toISOString(),
+      policy
+    };
+
+    this.data.policies[policyId] = record;
+    this.data.history[policy.policyName] = [...history, policyId];
+    this.data.active[policy.policyName] = policyId;
+    this.save();
+    return record;
+  }
+
+  get(policyId: string): PolicyVersionRecord | undefined {
+    return this.data.policies[policyId];
+  }
+
+  list(): PolicyVersionRecord[] {
+    return Object.values(this.data.policies);
+  }
+
+  history(policyName: string): PolicyVersionRecord[] {
+    return (this.data.history[policyName] || []).map(policyId => this.data.policies[policyId]);
+  }
+
+  getActive(policyName: string): PolicyVersionRecord | undefined {
+    const policyId = this.data.active[policyName];
+    return policyId ? this.data.policies[policyId] : undefined;
+  }
+
+  /**
+   * A stored version by its exact policyId, or the active version when given a policyName;
+   * undefined when the store knows neither
+   */
+  resolve(reference: string): PolicyVersionRecord | undefined {
+    return this.data.policies[reference] ?? this.getActive(reference);
+  }
+
+  /**
+   * Make an earlier version of a policy the active one: `toPolicyId`, or the version before the current one
+   */
+  rollbackPolicy(policyName: string, toPolicyId?: string): PolicyVersionRecord {
+    const history = this.data.history[policyName] || [];
+    const currentIndex = history.indexOf(this.data.active[policyName]);
+    const targetId = toPolicyId ?? history[currentIndex - 1];
+
+    if (!targetId) {
+      throw new Error(`${policyName} has no earlier version to roll back to`);
+    }
+    if (!history.includes(targetId)) {
+      throw new Error(`${targetId} is not a version of ${policyName}`);
+    }
+
+    this.data.active[policyName] = targetId;
+    this.save();
+    return this.data.policies[targetId];
+  }
+
+  diff(fromPolicyId: string, toPolicyId: string): PolicyDiff {
+    const from = this.require(fromPolicyId).policy;
+    const to = this.require(toPolicyId).policy;
+
+    const fromRules = new Map<string, any>((from.rules || []).map((rule: any) => [rule.ruleId, rule]));
+    const toRules = new Map<string, any>((to.rules || []).map((rule: any) => [rule.ruleId, rule]));
+    const result: PolicyDiff = {
+      from: fromPolicyId,
+      to: toPolicyId,
+      addedRules: [...toRules.keys()].filter(ruleId => !fromRules.has(ruleId)),
+      removedRules: [...fromRules.keys()].filter(ruleId => !toRules.has(ruleId)),
+      changedRules: [],
+      changes: []
+    };
+
+    for (const [ruleId, rule] of toRules) {
+      if (!fromRules.has(ruleId)) continue;
+      const changes: PolicyChange[] = [];
+      diffValues(fromRules.get(ruleId), rule, ruleId, changes);
+      if (changes.length > 0) {
+        result.changedRules.push({ ruleId, changes });
+      }
+    }
+
+    const { rules: _fromRules, ...fromRest } = from;
+    const { rules: _toRules, ...toRest } = to;
+    diffValues(fromRest, toRest, '$', result.changes);
+    return result;
+  }
+
+  private require(policyId: string): PolicyVersionRecord {
+    const record = this.data.policies[policyId];
+    if (!record) {
+      throw new Error(`Policy ${policyId} not found in ${this.storePath}`);
+    }
+    return record;
+  }
+
+  /** Write to a temp file and rename, so a crash never leaves a truncated registry */
+  private save(): void {
+    mkdirSync(dirname(this.storePath), { recursive: true });
+    const tempPath = `${this.storePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.data, null, 2) + '\n');
+    renameSync(tempPath, this.storePath);
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * FORTE Policy Validator
+ * Structural validation against policies/policy.schema.json plus semantic cross-reference
+ * checks (ruleChain, zkPretIntegrations, condition functions, metadata scoring model and thresholds,
+ * DCSA document requirements, description drift)
+ */
+
+import { readFileSync } from 'fs';
+import type { ConditionRegistry } from './ConditionRegistry.ts';
+import { validateScoringModel } from './MetadataScoring.ts';
+import { validateMetadataThresholds } from './MetadataThresholds.ts';
+import { ASSET_TYPES } from './TransactionContext.ts';
+
+export interface PolicyIssue {
+  path: string;
+  message: string;
+}
+
+export interface PolicyValidationResult {
+  valid: boolean;
+  errors: PolicyIssue[];
+  warnings: PolicyIssue[];
+}
+
+const SCHEMA_PATH = new URL('../policies/policy.schema.json', import.meta.url);
+
+let cachedSchema: any;
+
+function loadSchema(): any {
+  if (!cachedSchema) {
+    cachedSchema = JSON.parse(readFileSync(SCHEMA_PATH, 'utf-8'));
+  }
+  return cachedSchema;
+}
+
+function jsonType(value: any): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+/**
+ * Evaluates the subset of JSON Schema draft-07 used by policy.schema.json and the DCSA schemas:
+ * $ref (local), type, required, properties, additionalProperties, items,
+ * minItems, minLength, pattern, enum and oneOf.
+ */
+export function validateAgainstSchema(value: any, schema: any, path: string, root: any, issues: PolicyIssue[]): void {
+  if (schema.$ref) {
+    const target = schema.$ref.replace(/^#\//, '').split('/').reduce((node: any, key: string) => node?.[key], root);
+    if (!target) throw new Error(`Unresolvable schema reference ${schema.$ref}`);
+    validateAgainstSchema(value, target, path, root, issues);
+    return;
+  }
+
+  if (schema.type && jsonType(value) !== schema.type) {
+    issues.push({ path, message: `must be ${schema.type}, got ${jsonType(value)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must not be empty` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `${JSON.stringify(value)} does not match ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateAgainstSchema(item, schema.items, `${path}[${index}]`, root, issues));
+    }
+  }
+
+  if (jsonType(value) === 'object') {
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        issues.push({ path, message: `missing required property "${key}"` });
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key]
+        ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+      if (propertySchema) {
+        validateAgainstSchema(child, propertySchema, `${path}.${key}`, root, issues);
+      }
+    }
+  }
+
+  if (schema.oneOf) {
+    const attempts = schema.oneOf.map((branch: any) => {
+      const branchIssues: PolicyIssue[] = [];
+      validateAgainstSchema(value, branch, path, root, branchIssues);
+      return { branch, branchIssues };
+    });
+    const matches = attempts.filter((attempt: any) => attempt.branchIssues.length === 0);
+    if (matches.length === 1) return;
+    if (matches.length > 1) {
+      issues.push({ path, message: 'is ambiguous: matches more than one allowed form' });
+      return;
+    }
+    // Report the errors of the branch whose required keys are present, if any
+    const chosen = attempts.find((attempt: any) =>
+      jsonType(value) === 'object' && (attempt.branch.required || []).some((key: string) => key in value)
+    );
+    if (chosen) {
+      issues.push(...chosen.branchIssues);
+    } else {
+      issues.push({ path, message: 'does not match any allowed form' });
+    }
+  }
+}
+
+export class PolicyValidator {
+  private registry?: ConditionRegistry;
+
+  constructor(registry?: ConditionRegistry) {
+    this.registry = registry;
+  }
+
+  validate(policy: any): PolicyValidationResult {
+    const errors: PolicyIssue[] = [];
+    const warnings: PolicyIssue[] = [];
+
+    const schema = loadSchema();
+    validateAgainstSchema(policy, schema, '$', schema, errors);
+
+    if (jsonType(policy) === 'object') {
+      this.checkRuleReferences(policy, errors);
+      this.checkConditionValues(policy, errors);
+      this.checkMetadataScore(policy, errors);
+      this.checkDCSADocuments(policy, errors);
+      this.checkDescriptionDrift(policy, warnings);
+      this.checkAdjustments(policy, warnings);
+      if (this.registry) {
+        errors.push(...this.registry.validatePolicy(policy));
+      }
+    }
+
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
+  private checkRuleReferences(policy: any, errors: PolicyIssue[]): void {
+    const rules: any[] = Array.isArray(policy.rules) ? policy.rules : [];
+    const ruleChain: any[] = Array.isArray(policy.ruleChain) ? policy.ruleChain : [];
+    const ruleIds = new Set<string>();
+
+    rules.forEach((rule, index) => {
+      if (!rule?.ruleId) return;
+      if (ruleIds.has(rule.ruleId)) {
+        errors.push({ path: `$.rules[${index}].ruleId`, message: `duplicate rule ID ${rule.ruleId}` });
+      }
+      ruleIds.add(rule.ruleId);
+    });
+
+    const chained = new Set<string>();
+    ruleChain.forEach((ruleId, index) => {
+      if (!ruleIds.has(ruleId)) {
+        errors.push({ path: `$.ruleChain[${index}]`, message: `references undefined rule ${ruleId}` });
+      }
+      if (chained.has(ruleId)) {
+        errors.push({ path: `$.ruleChain[${index}]`, message: `${ruleId} appears more than once` });
+      }
+      chained.add(ruleId);
+    });
+
+    rules.forEach((rule, index) => {
+      if (rule?.ruleId && !chained.has(rule.ruleId)) {
+        errors.push({ path: `$.rules[${index}]`, message: `${rule.ruleId} is defined but missing from ruleChain` });
+      }
+    });
+
+    for (const [name, integration] of Object.entries<any>(policy.zkPretIntegrations || {})) {
+      (integration?.rules || []).forEach((ruleId: string, index: number) => {
+        if (!ruleIds.has(ruleId)) {
+          errors.push({
+            path: `$.zkPretIntegrations.${name}.rules[${index}]`,
+            message: `references undefined rule ${ruleId}`
+          });
+        }
+      });
+    }
+  }
+
+  private checkConditionValues(policy: any, errors: PolicyIssue[]): void {
+    const visit = (node: any, path: string): void => {
+      if (!node || typeof node !== 'object') return;
+      for (const key of ['and', 'or']) {
+        if (Array.isArray(node[key])) {
+          node[key].forEach((child: any, index: number) => visit(child, `${path}.${key}[${index}]`));
+        }
+      }
+      if (node.not) visit(node.not, `${path}.not`);
+
+      if (node.comparison === 'within' || node.comparison === 'outside') {
+        const range = node.value;
+        if (!Array.isArray(range) || range.length !== 2 || range.some((bound: any) => typeof bound !== 'number')) {
+          errors.push({ path: `${path}.value`, message: `${node.comparison} requires a [min, max] numeric range` });
+        } else if (range[0] > range[1]) {
+          errors.push({ path: `${path}.value`, message: `range minimum ${range[0]} exceeds maximum ${range[1]}` });
+        }
+      }
+      if ((node.comparison === 'in' || node.comparison === 'notIn') && !Array.isArray(node.value)) {
+        errors.push({ path: `${path}.value`, message: `${node.comparison} requires an array value` });
+      }
+    };
+
+    (Array.isArray(policy.rules) ? policy.rules : []).forEach((rule: any, index: number) =>
+      visit(rule?.conditions, `$.rules[${index}].conditions`)
+    );
+  }
+
+  private checkMetadataScore(policy: any, errors: PolicyIssue[]): void {
+    const { scoringModel, thresholds } = policy.complianceThresholds?.metadataScore || {};
+    if (scoringModel !== undefined) {
+      errors.push(...validateScoringModel(scoringModel, '$.complianceThresholds.metadataScore.scoringModel'));
+    }
+    if (thresholds !== undefined) {
+      errors.push(...validateMetadataThresholds(thresholds, '$.complianceThresholds.metadataScore.thresholds'));
+    }
+  }
+
+  private checkDCSADocuments(policy: any, errors: PolicyIssue[]): void {
+    const requirements = policy.complianceThresholds?.dcsaDocuments;
+    if (requirements === undefined) return;
+    const path = '$.complianceThresholds.dcsaDocuments';
+    for (const key of ['eblRequiredAssetTypes', 'exemptAssetTypes']) {
+      const assetTypes = requirements[key];
+      if (assetTypes === undefined) continue;
+      if (!Array.isArray(assetTypes)) {
+        errors.push({ path: `${path}.${key}`, message: `must be array, got ${jsonType(assetTypes)}` });
+        continue;
+      }
+      assetTypes.forEach((assetType: any, index: number) => {
+        if (!(ASSET_TYPES as readonly string[]).includes(assetType)) {
+          errors.push({ path: `${path}.${key}[${index}]`, message: `unknown asset type ${JSON.stringify(assetType)}` });
+        }
+      });
+    }
+    const eblRequired: any[] = Array.isArray(requirements.eblRequiredAssetTypes) ? requirements.eblRequiredAssetTypes : [];
+    (Array.isArray(requirements.exemptAssetTypes) ? requirements.exemptAssetTypes : []).forEach((assetType: any, index: number) => {
+      if (eblRequired.includes(assetType)) {
+        errors.push({ path: `${path}.exemptAssetTypes[${index}]`, message: `${assetType} needs an eBL and cannot be exempt` });
+      }
+    });
+  }
+
+  private checkAdjustments(policy: any, warnings: PolicyIssue[]): void {
+    (Array.isArray(policy.rules) ? policy.rules : []).forEach((rule: any, index: number) => {
+      if (rule?.action === 'ADJUST' && !rule.adjustment) {
+        warnings.push({ path: `$.rules[${index}]`, message: `${rule.ruleId} is ADJUST but defines no adjustment; failures only warn` });
+      }
+      if (rule?.adjustment && rule.action !== 'ADJUST') {
+        warnings.push({ path: `$.rules[${index}].adjustment`, message: `${rule.ruleId} defines an adjustment but its action is ${rule.action}` });
+      }
+    });
+  }
+
+  private checkDescriptionDrift(policy: any, warnings: PolicyIssue[]): void {
+    const ruleCount = Array.isArray(policy.rules) ? policy.rules.length : 0;
+    const claimed = typeof policy.description === 'string' ? policy.description.match(/(\d+)-rule/i) : null;
+    if (claimed && Number(claimed[1]) !== ruleCount) {
+      warnings.push({
+        path: '$.description',
+        message: `describes a ${claimed[1]}-rule policy but ${ruleCount} rules are defined`
+      });
+    }
+  }
+}
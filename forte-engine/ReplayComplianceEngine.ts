@@ -0,0 +1,127 @@
+/**
+ * Recorded-fixture compliance backend
+ * Replays rule check results recorded earlier, keyed by policy and transaction content, so demos
+ * and CI get deterministic verdicts without FORTE Cloud or ZK PRET access
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { contentHash } from './Hashing.ts';
+import { policyIdFor } from './PolicyStore.ts';
+import type { TransactionContext } from './TransactionContext.ts';
+import type {
+  ComplianceEngine,
+  EngineHealth,
+  PolicyApplication,
+  RuleCheckOptions,
+  RuleCheckResult
+} from './ComplianceEngine.ts';
+
+interface FixtureRecording {
+  policyName: string;
+  policyVersion: string;
+  transaction: TransactionContext;
+  options: RuleCheckOptions;
+  result: RuleCheckResult;
+  recordedAt: string;
+}
+
+interface FixtureFile {
+  version: 1;
+  recordings: { [key: string]: FixtureRecording };
+}
+
+export class ReplayComplianceEngine implements ComplianceEngine {
+  readonly backend = 'replay' as const;
+  private fixturePath: string;
+  private recorder?: ComplianceEngine;
+  private policies: Map<string, any> = new Map();
+  private fixtures: FixtureFile;
+
+  /**
+   * With a `recorder`, missing recordings are evaluated by it and saved;
+   * without one, a missing recording is an error.
+   */
+  constructor(fixturePath: string, recorder?: ComplianceEngine) {
+    this.fixturePath = fixturePath;
+    this.recorder = recorder;
+    this.fixtures = existsSync(fixturePath)
+      ? JSON.parse(readFileSync(fixturePath, 'utf-8'))
+      : { version: 1, recordings: {} };
+  }
+
+  async registerPolicy(policy: any, policyId?: string): Promise<string> {
+    const registeredId = this.recorder
+      ? await this.recorder.registerPolicy(policy, policyId)
+      : policyId || policyIdFor(policy);
+    this.policies.set(registeredId, policy);
+    return registeredId;
+  }
+
+  getPolicy(policyId: string): any | undefined {
+    return this.policies.get(policyId);
+  }
+
+  async applyPolicy(policyId: string, contractAddress: string, chainId?: string): Promise<PolicyApplication> {
+    const policy = this.policies.get(policyId);
+    if (!policy) {
+      return { success: false, activeRules: [], error: `Policy ${policyId} not found` };
+    }
+    return { success: true, activeRules: policy.rules.map((rule: any) => rule.ruleId) };
+  }
+
+  async checkRules(policyId: string, transaction: TransactionContext, options: RuleCheckOptions = {}): Promise<RuleCheckResult> {
+    const policy = this.policies.get(policyId);
+    if (!policy) {
+      throw new Error(`Policy ${policyId} not found`);
+    }
+
+    const key = this.recordingKey(policy, transaction, options);
+    const recording = this.fixtures.recordings[key];
+    if (recording) {
+      console.log(`📼 Replaying recorded FORTE result ${key.slice(0, 12)} (${recording.recordedAt})`);
+      return recording.result;
+    }
+
+    if (!this.recorder) {
+      throw new Error(
+        `No recorded FORTE result for ${policy.policyName} ${policy.policyVersion} and this transaction in ${this.fixturePath}; ` +
+        'set FORTE_FIXTURE_RECORD=true to record it'
+      );
+    }
+
+    const result = await this.recorder.checkRules(policyId, transaction, options);
+    this.fixtures.recordings[key] = {
+      policyName: policy.policyName,
+      policyVersion: policy.policyVersion,
+      transaction,
+      options,
+      result,
+      recordedAt: new Date().toISOString()
+    };
+    this.save();
+    console.log(`📼 Recorded FORTE result ${key.slice(0, 12)} to ${this.fixturePath}`);
+    return result;
+  }
+
+  async health(): Promise<EngineHealth> {
+    return {
+      healthy: true,
+      backend: this.backend,
+      details: `${Object.keys(this.fixtures.recordings).length} recording(s) in ${this.fixturePath}`
+    };
+  }
+
+  private recordingKey(policy: any, transaction: TransactionContext, options: RuleCheckOptions): string {
+    return contentHash({
+      policy,
+      transaction,
+      options: { mode: options.mode || 'exhaustive', order: options.order || 'ruleChain' }
+    });
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.fixturePath), { recursive: true });
+    writeFileSync(this.fixturePath, JSON.stringify(this.fixtures, null, 2) + '\n');
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * FORTE Sanctions Lists
+ * Normalized sanctions entries, an in-memory lookup index and a file-backed store that keeps
+ * each list's version history and applies updates as deltas
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { contentHash } from './Hashing.ts';
+import { DEFAULT_MINIMUM_NAME_SCORE, nameSimilarity, nameTokens } from './NameMatcher.ts';
+
+export type SanctionsEntityType = 'individual' | 'entity' | 'vessel' | 'aircraft';
+
+export interface DigitalCurrencyAddress {
+  /** Ticker as published, e.g. ETH, XBT, USDT */
+  currency: string;
+  address: string;
+}
+
+export interface SanctionsEntry {
+  /** Identifier assigned by the list publisher */
+  uid: string;
+  /** Primary name; individuals as "LAST, First" */
+  name: string;
+  entityType: SanctionsEntityType;
+  programs: string[];
+  aliases: string[];
+  countries: string[];
+  digitalCurrencyAddresses: DigitalCurrencyAddress[];
+  remarks?: string;
+}
+
+export interface SanctionsSnapshot {
+  listId: string;
+  /** Publication date (YYYY-MM-DD) */
+  version: string;
+  entries: SanctionsEntry[];
+}
+
+export interface SanctionsDelta {
+  listId: string;
+  fromVersion: string | null;
+  toVersion: string;
+  added: SanctionsEntry[];
+  changed: SanctionsEntry[];
+  /** UIDs of removed entries */
+  removed: string[];
+}
+
+export interface SanctionsListVersion {
+  version: string;
+  /** Content hash of the entries after this version was applied */
+  hash: string;
+  entryCount: number;
+  loadedAt: string;
+  source: string;
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+export interface NameCandidate {
+  entry: SanctionsEntry;
+  /** The primary name or alias that scored highest */
+  matchedName: string;
+  score: number;
+}
+
+interface SanctionsStoreFile {
+  listId: string;
+  version: string | null;
+  hash: string | null;
+  entries: { [uid: string]: SanctionsEntry };
+  versions: SanctionsListVersion[];
+}
+
+/**
+ * Canonical form for address lookups: EVM and bech32 addresses are case-insensitive,
+ * base58 addresses (BTC legacy, TRX, XMR) are case-sensitive and kept as published
+ */
+export function normalizeDigitalCurrencyAddress(address: string): string {
+  const trimmed = address.trim();
+  if (/^0x[0-9a-fA-F]{40}$/.test(trimmed) || /^[a-z]{1,4}1[02-9ac-hj-np-z]{6,}$/i.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  return trimmed;
+}
+
+/** Distinct non-empty values, in first-seen order */
+export function uniqueValues(values: Array<string | undefined>): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+/**
+ * Addresses written as "Digital Currency Address - <ticker> <address>" in free-text remarks,
+ * the form OFAC uses and other publishers copy
+ */
+export function extractDigitalCurrencyAddresses(text: string | undefined): DigitalCurrencyAddress[] {
+  return [...(text || '').matchAll(/Digital Currency Address - (\S+) ([^;,\s]+)/gi)]
+    .map(match => ({ currency: match[1].toUpperCase(), address: match[2].replace(/\.$/, '') }));
+}
+
+/** Names are only scored against entries sharing a token prefix with them */
+function blockingKey(token: string): string {
+  return token.slice(0, 3);
+}
+
+/**
+ * Lookup index over one list's entries, updated entry by entry when deltas arrive
+ */
+export class SanctionsIndex {
+  private entries = new Map<string, SanctionsEntry>();
+  private byAddress = new Map<string, Set<string>>();
+  private byNameToken = new Map<string, Set<string>>();
+
+  constructor(entries: SanctionsEntry[] = []) {
+    entries.forEach(entry => this.add(entry));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  add(entry: SanctionsEntry): void {
+    this.remove(entry.uid);
+    this.entries.set(entry.uid, entry);
+    entry.digitalCurrencyAddresses.forEach(({ address }) =>
+      this.link(this.byAddress, normalizeDigitalCurrencyAddress(address), entry.uid));
+    this.nameKeys(entry).forEach(key => this.link(this.byNameToken, key, entry.uid));
+  }
+
+  remove(uid: string): void {
+    const entry = this.entries.get(uid);
+    if (!entry) return;
+    this.entries.delete(uid);
+    entry.digitalCurrencyAddresses.forEach(({ address }) =>
+      this.unlink(this.byAddress, normalizeDigitalCurrencyAddress(address), uid));
+    this.nameKeys(entry).forEach(key => this.unlink(this.byNameToken, key, uid));
+  }
+
+  get(uid: string): SanctionsEntry | undefined {
+    return this.entries.get(uid);
+  }
+
+  all(): SanctionsEntry[] {
+    return [...this.entries.values()];
+  }
+
+  findByAddress(address: string): SanctionsEntry[] {
+    return this.resolve(this.byAddress.get(normalizeDigitalCurrencyAddress(address)));
+  }
+
+  /**
+   * Entries whose primary name or an alias scores at least `minimumScore` against `name`, best first
+   */
+  findByName(name: string, minimumScore: number = DEFAULT_MINIMUM_NAME_SCORE): NameCandidate[] {
+    const uids = new Set<string>();
+    nameTokens(name).forEach(token => this.byNameToken.get(blockingKey(token))?.forEach(uid => uids.add(uid)));
+
+    const candidates: NameCandidate[] = [];
+    for (const entry of this.resolve(uids)) {
+      const [best] = [entry.name, ...entry.aliases]
+        .map(candidate => ({ entry, matchedName: candidate, score: nameSimilarity(name, candidate) }))
+        .sort((a, b) => b.score - a.score);
+      if (best && best.score >= minimumScore) candidates.push(best);
+    }
+    return candidates.sort((a, b) => b.score - a.score);
+  }
+
+  private nameKeys(entry: SanctionsEntry): Set<string> {
+    return new Set([entry.name, ...entry.aliases].flatMap(name => nameTokens(name).map(blockingKey)));
+  }
+
+  private resolve(uids: Set<string> | undefined): SanctionsEntry[] {
+    return uids ? [...uids].map(uid => this.entries.get(uid)) : [];
+  }
+
+  private link(index: Map<string, Set<string>>, key: string, uid: string): void {
+    if (!key) return;
+    if (!index.has(key)) index.set(key, new Set());
+    index.get(key).add(uid);
+  }
+
+  private unlink(index: Map<string, Set<string>>, key: string, uid: string): void {
+    const uids = index.get(key);
+    uids?.delete(uid);
+    if (uids && uids.size === 0) index.delete(key);
+  }
+}
+
+/**
+ * Entries added, changed and removed between two snapshots of the same list
+ */
+export function diffSanctionsSnapshots(from: SanctionsEntry[], to: SanctionsSnapshot, fromVersion: string | null): SanctionsDelta {
+  const before = new Map(from.map(entry => [entry.uid, entry]));
+  const after = new Map(to.entries.map(entry => [entry.uid, entry]));
+  return {
+    listId: to.listId,
+    fromVersion,
+    toVersion: to.version,
+    added: to.entries.filter(entry => !before.has(entry.uid)),
+    changed: to.entries.filter(entry => before.has(entry.uid) && contentHash(before.get(entry.uid)) !== contentHash(entry)),
+    removed: from.filter(entry => !after.has(entry.uid)).map(entry => entry.uid)
+  };
+}
+
+/**
+ * Current entries and version history of one list, persisted as <storeDir>/<listId>.json
+ */
+export class SanctionsListStore {
+  readonly listId: string;
+  readonly index: SanctionsIndex;
+  private storePath: string;
+  private data: SanctionsStoreFile;
+
+  constructor(listId: string, storeDir: string = 'data/sanctions') {
+    this.listId = listId;
+    this.storePath = join(storeDir, `${listId.toLowerCase()}.json`);
+    this.data = existsSync(this.storePath)
+      ? JSON.parse(readFileSync(this.storePath, 'utf-8'))
+      : { listId, version: null, hash: null, entries: {}, versions: [] };
+    this.index = new SanctionsIndex(Object.values(this.data.entries));
+  }
+
+  get version(): string | null {
+    return this.data.version;
+  }
+
+  get hash(): string | null {
+    return this.data.hash;
+  }
+
+  versions(): SanctionsListVersion[] {
+    return this.data.versions;
+  }
+
+  /**
+   * Load a full publication; only the difference from the current version is applied.
+   * Returns undefined when the content is unchanged.
+   */
+  ingest(snapshot: SanctionsSnapshot, source: string): SanctionsDelta | undefined {
+    if (snapshot.listId !== this.listId) {
+      throw new Error(`Cannot load ${snapshot.listId} into the ${this.listId} store`);
+    }
+    if (contentHash(this.sortedEntries(snapshot.entries)) === this.data.hash) {
+      return undefined;
+    }
+    const delta = diffSanctionsSnapshots(Object.values(this.data.entries), snapshot, this.data.version);
+    this.applyDelta(delta, source);
+    return delta;
+  }
+
+  /**
+   * Apply a published delta; it must start from the version currently loaded
+   */
+  applyDelta(delta: SanctionsDelta, source: string): SanctionsListVersion {
+    if (delta.listId !== this.listId) {
+      throw new Error(`Delta for ${delta.listId} cannot be applied to ${this.listId}`);
+    }
+    if (delta.fromVersion !== this.data.version) {
+      throw new Error(`${this.listId} delta starts from ${delta.fromVersion ?? 'an empty list'} but ${this.data.version ?? 'no version'} is loaded`);
+    }
+
+    delta.removed.forEach(uid => {
+      delete this.data.entries[uid];
+      this.index.remove(uid);
+    });
+    [...delta.added, ...delta.changed].forEach(entry => {
+      this.data.entries[entry.uid] = entry;
+      this.index.add(entry);
+    });
+
+    const entries = Object.values(this.data.entries);
+    const record: SanctionsListVersion = {
+      version: delta.toVersion,
+      hash: contentHash(this.sortedEntries(entries)),
+      entryCount: entries.length,
+      loadedAt: new Date().toISOString(),
+      source,
+      added: delta.added.length,
+      changed: delta.changed.length,
+      removed: delta.removed.length
+    };
+    this.data.version = record.version;
+    this.data.hash = record.hash;
+    this.data.versions.push(record);
+    this.save();
+    return record;
+  }
+
+  private sortedEntries(entries: SanctionsEntry[]): SanctionsEntry[] {
+    return [...entries].sort((a, b) => a.uid.localeCompare(b.uid));
+  }
+
+  /** Write to a temp file and rename, so a crash never leaves a truncated list */
+  private save(): void {
+    mkdirSync(dirname(this.storePath), { recursive: true });
+    const tempPath = `${this.storePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.data, null, 2) + '\n');
+    renameSync(tempPath, this.storePath);
+  }
+}
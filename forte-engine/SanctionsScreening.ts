@@ -0,0 +1,220 @@
+/**
+ * FORTE Sanctions Screening
+ * Screens wallet addresses and entity names against the loaded sanctions lists. Lists are read
+ * from their source files on first use and re-read as deltas whenever a source file changes.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { OFAC_SDN_LIST_ID, loadOFACSdn } from './OFACSdnParser.ts';
+import { EU_CONSOLIDATED_LIST_ID, loadEUSanctions } from './EUSanctionsParser.ts';
+import { UN_SC_LIST_ID, loadUNSanctions } from './UNSanctionsParser.ts';
+import { UK_HMT_LIST_ID, loadUKHMTSanctions } from './UKHMTSanctionsParser.ts';
+import { SanctionsListStore } from './SanctionsList.ts';
+import { DEFAULT_MINIMUM_NAME_SCORE } from './NameMatcher.ts';
+import type { SanctionsDelta, SanctionsEntityType, SanctionsEntry, SanctionsListVersion, SanctionsSnapshot } from './SanctionsList.ts';
+
+export interface SanctionsSource {
+  listId: string;
+  path: string;
+  load: (path: string) => SanctionsSnapshot;
+}
+
+export interface SanctionsMatch {
+  listId: string;
+  listVersion: string;
+  uid: string;
+  name: string;
+  entityType: SanctionsEntityType;
+  programs: string[];
+  matchedOn: 'digitalCurrencyAddress' | 'name';
+  /** The list's address, name or alias that matched */
+  matchedValue: string;
+  /** 1 for address and exact name matches; fuzzy name similarity otherwise */
+  score: number;
+}
+
+export interface SanctionsScreeningResult {
+  subject: string;
+  matched: boolean;
+  matches: SanctionsMatch[];
+  /** List versions the subject was screened against */
+  lists: Array<{ listId: string; version: string }>;
+  screenedAt: string;
+}
+
+export interface SanctionsScreeningOptions {
+  /** Directory holding each list's versioned store (FORTE_SANCTIONS_STORE, default data/sanctions) */
+  storeDir?: string;
+  sources?: SanctionsSource[];
+}
+
+/**
+ * Lists screened by default, each read from a local file: FORTE_OFAC_SDN_PATH (sdn.xml or sdn.csv),
+ * FORTE_EU_SANCTIONS_PATH (FSF XML), FORTE_UN_SANCTIONS_PATH (consolidated XML) and
+ * FORTE_UK_SANCTIONS_PATH (ConList.csv). Paths default to the offline fixtures so demos work without network access.
+ */
+export function defaultSanctionsSources(env: NodeJS.ProcessEnv = process.env): SanctionsSource[] {
+  return [
+    { listId: OFAC_SDN_LIST_ID, path: env.FORTE_OFAC_SDN_PATH || 'fixtures/sanctions/ofac-sdn.xml', load: loadOFACSdn },
+    { listId: EU_CONSOLIDATED_LIST_ID, path: env.FORTE_EU_SANCTIONS_PATH || 'fixtures/sanctions/eu-consolidated.xml', load: loadEUSanctions },
+    { listId: UN_SC_LIST_ID, path: env.FORTE_UN_SANCTIONS_PATH || 'fixtures/sanctions/un-consolidated.xml', load: loadUNSanctions },
+    { listId: UK_HMT_LIST_ID, path: env.FORTE_UK_SANCTIONS_PATH || 'fixtures/sanctions/uk-hmt-conlist.csv', load: loadUKHMTSanctions }
+  ];
+}
+
+export class SanctionsScreeningService {
+  private options: SanctionsScreeningOptions;
+  private stores: Map<string, SanctionsListStore> | undefined;
+  private sources: SanctionsSource[] = [];
+  /** Source file signature (mtime + size) last ingested, per list */
+  private sourceSignatures = new Map<string, string>();
+  private refreshed = false;
+
+  /** Options left unset are read from the environment on first use */
+  constructor(options: SanctionsScreeningOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Re-read every source file that changed since it was last ingested and apply the difference.
+   * Returns the deltas applied, keyed by list.
+   */
+  refresh(): { [listId: string]: SanctionsDelta } {
+    const stores = this.loadStores();
+    const applied: { [listId: string]: SanctionsDelta } = {};
+    this.refreshed = true;
+
+    for (const source of this.sources) {
+      if (!existsSync(source.path)) continue;
+      const stats = statSync(source.path);
+      const signature = `${stats.mtimeMs}:${stats.size}`;
+      if (this.sourceSignatures.get(source.listId) === signature) continue;
+
+      const store = stores.get(source.listId);
+      const snapshot = source.load(source.path);
+      this.sourceSignatures.set(source.listId, signature);
+      // Never step back to an older publication than one already ingested, e.g. from the CLI
+      if (store.version && snapshot.version < store.version) {
+        console.warn(`⚠️ ${source.path} is ${source.listId} ${snapshot.version}; keeping newer ${store.version}`);
+        continue;
+      }
+
+      const delta = store.ingest(snapshot, source.path);
+      if (delta) {
+        applied[source.listId] = delta;
+        console.log(`🛡️ ${source.listId} updated to ${delta.toVersion}: +${delta.added.length} ~${delta.changed.length} -${delta.removed.length}`);
+      }
+    }
+    return applied;
+  }
+
+  /**
+   * Load a publication for one list from an explicit file
+   */
+  ingest(listId: string, path: string, load?: (path: string) => SanctionsSnapshot): SanctionsDelta | undefined {
+    const store = this.store(listId);
+    const loader = load || this.sources.find(source => source.listId === listId).load;
+    return store.ingest(loader(path), path);
+  }
+
+  /**
+   * Apply a delta file (JSON SanctionsDelta) published against the currently loaded version
+   */
+  applyDeltaFile(path: string): SanctionsListVersion {
+    const delta: SanctionsDelta = JSON.parse(readFileSync(path, 'utf-8'));
+    return this.store(delta.listId).applyDelta(delta, path);
+  }
+
+  /**
+   * Exact match of a digital currency address against every list (or the given ones)
+   */
+  screenAddress(address: string, listIds?: string[]): SanctionsScreeningResult {
+    return this.screen(address, listIds, (store) =>
+      store.index.findByAddress(address).map(entry => this.toMatch(store, entry, 'digitalCurrencyAddress', address, 1)));
+  }
+
+  /**
+   * Fuzzy match of an entity name against primary names and aliases; matches are scored
+   * 0 to 1 and sorted best first, and only those scoring at least `minimumScore` are returned
+   */
+  screenName(name: string, listIds?: string[], minimumScore: number = DEFAULT_MINIMUM_NAME_SCORE): SanctionsScreeningResult {
+    const result = this.screen(name, listIds, (store) =>
+      store.index.findByName(name, minimumScore)
+        .map(candidate => this.toMatch(store, candidate.entry, 'name', candidate.matchedName, candidate.score)));
+    result.matches.sort((a, b) => b.score - a.score);
+    return result;
+  }
+
+  listVersions(): Array<{ listId: string; version: string | null; entries: number; history: SanctionsListVersion[] }> {
+    return [...this.loadStores().values()].map(store => ({
+      listId: store.listId,
+      version: store.version,
+      entries: store.index.size,
+      history: store.versions()
+    }));
+  }
+
+  private screen(
+    subject: string,
+    listIds: string[] | undefined,
+    find: (store: SanctionsListStore) => SanctionsMatch[]
+  ): SanctionsScreeningResult {
+    if (!this.refreshed) this.refresh();
+    const stores = (listIds || [...this.loadStores().keys()]).map(listId => this.store(listId));
+
+    // Fail closed: screening against a list that was never loaded must not look like a clear result
+    const unloaded = stores.filter(store => !store.version).map(store => store.listId);
+    if (unloaded.length > 0) {
+      throw new Error(`Sanctions list(s) not loaded: ${unloaded.join(', ')}`);
+    }
+
+    const matches = subject ? stores.flatMap(find) : [];
+    return {
+      subject,
+      matched: matches.length > 0,
+      matches,
+      lists: stores.map(store => ({ listId: store.listId, version: store.version })),
+      screenedAt: new Date().toISOString()
+    };
+  }
+
+  private toMatch(
+    store: SanctionsListStore,
+    entry: SanctionsEntry,
+    matchedOn: SanctionsMatch['matchedOn'],
+    matchedValue: string,
+    score: number
+  ): SanctionsMatch {
+    return {
+      listId: store.listId,
+      listVersion: store.version,
+      uid: entry.uid,
+      name: entry.name,
+      entityType: entry.entityType,
+      programs: entry.programs,
+      matchedOn,
+      matchedValue,
+      score
+    };
+  }
+
+  private store(listId: string): SanctionsListStore {
+    const store = this.loadStores().get(listId);
+    if (!store) {
+      throw new Error(`Unknown sanctions list ${listId}`);
+    }
+    return store;
+  }
+
+  private loadStores(): Map<string, SanctionsListStore> {
+    if (!this.stores) {
+      const storeDir = this.options.storeDir || process.env.FORTE_SANCTIONS_STORE || 'data/sanctions';
+      this.sources = this.options.sources || defaultSanctionsSources();
+      this.stores = new Map(this.sources.map(source => [source.listId, new SanctionsListStore(source.listId, storeDir)]));
+    }
+    return this.stores;
+  }
+}
+
+// Export singleton instance
+export const sanctionsScreening = new SanctionsScreeningService();
@@ -0,0 +1,315 @@
+/**
+ * Typed transaction model for FORTE rule evaluation
+ * Mirrors InstitutionalAssetParams.InstitutionalAsset (src/InstitutionalAssetParams.sol) plus the
+ * transfer fields rules read, with runtime validation and normalization of raw demo/API payloads
+ */
+
+import { formatUnits } from 'ethers';
+
+/** Enum orderings match the Solidity declarations so on-chain ordinals map to names */
+export const ASSET_TYPES = [
+  'SUPPLY_CHAIN_INVOICE',
+  'EQUIPMENT_FINANCE',
+  'TRADE_FINANCE',
+  'WORKING_CAPITAL',
+  'COMMERCIAL_REAL_ESTATE',
+  'CORPORATE_BONDS',
+  'STRUCTURED_PRODUCTS'
+] as const;
+
+export const CREDIT_RATINGS = ['AAA', 'AA', 'A', 'BBB', 'BB', 'B', 'CCC', 'CC', 'C', 'D'] as const;
+
+export const ASSET_STATUSES = [
+  'PENDING_VERIFICATION',
+  'COMPLIANCE_REVIEW',
+  'APPROVED',
+  'ACTIVE',
+  'MATURED',
+  'DEFAULT',
+  'LIQUIDATED'
+] as const;
+
+export type AssetType = typeof ASSET_TYPES[number];
+export type CreditRating = typeof CREDIT_RATINGS[number];
+export type AssetStatus = typeof ASSET_STATUSES[number];
+
+/**
+ * Off-chain view of the InstitutionalAsset struct.
+ * Amounts are whole USD (on-chain values are 18-decimal), rates are basis points,
+ * countries are ISO 3166-1 alpha-2 codes and addresses are lower-case hex.
+ */
+export interface InstitutionalAsset {
+  // Corporate Identity (GLEIF Integration)
+  corporateName?: string;
+  legalEntityIdentifier?: string;
+  corporateWallet?: string;
+
+  // Asset Classification
+  assetType?: AssetType;
+  assetDescription?: string;
+  industryCode?: string;
+
+  // Financial Terms
+  principalAmount?: number;
+  interestRate?: number;
+  maturityDays?: number;
+  paymentFrequency?: number;
+
+  // Risk Assessment (ACTUS Integration)
+  creditRating?: CreditRating;
+  riskScore?: number;
+  liquidityScore?: number;
+
+  // Compliance & Documentation (DCSA Integration)
+  tradeDocuments?: string[];
+  documentHash?: string;
+  dcsaVerified?: boolean;
+
+  // Tokenization Parameters
+  totalFractions?: number;
+  minimumFractionSize?: number;
+  targetLiquidity?: number;
+
+  // PYUSD Cross-Border Integration (Rules 13 & 14)
+  pyusdAmount?: number;
+  isCrossBorder?: boolean;
+  buyerCountry?: string;
+  sellerCountry?: string;
+
+  // Operational Data
+  status?: AssetStatus;
+  createdAt?: number;
+  lastUpdated?: number;
+  manager?: string;
+}
+
+export const INVESTOR_CLASSES = ['retail', 'accredited', 'institutional'] as const;
+
+export type InvestorClass = typeof INVESTOR_CLASSES[number];
+
+/** Target investors of one class; ticket sizes are log-normal around the median */
+export interface InvestorClassProfile {
+  investors: number;
+  /** Whole USD */
+  medianTicket: number;
+  /** Standard deviation of log ticket size */
+  ticketDispersion: number;
+  /** Share of holdings traded per year */
+  annualTurnover: number;
+}
+
+/** Deal-specific investor base; classes and fields left out come from the policy */
+export type InvestorBase = Partial<{ [investorClass in InvestorClass]: Partial<InvestorClassProfile> }>;
+
+/** One observed step of the asset's business process, by activity name or BPMN task id */
+export type ProcessEvent = string | { activity: string; timestamp?: string | number };
+
+/**
+ * Transaction checked by checkRules: the asset plus the transfer being made.
+ * Unrecognised fields are carried through untouched for custom condition functions.
+ */
+export interface TransactionContext extends InstitutionalAsset {
+  sender?: string;
+  recipient?: string;
+  transferAmount?: number;
+  kycLevel?: number;
+  /** Event log checked against the BPMN reference model (RULE_05) */
+  processEvents?: ProcessEvent[];
+  /** BPMN 2.0 model overriding the asset type's reference model: a .bpmn name in FORTE_BPMN_MODELS_PATH or inline XML */
+  processDefinition?: string;
+  /** Target investors for fraction optimization (RULE_08/RULE_11) */
+  investorBase?: InvestorBase;
+  [field: string]: any;
+}
+
+/** Raw payload accepted from demos, config files and API callers before normalization */
+export type TransactionContextInput = { [field: string]: any };
+
+export interface TransactionContextIssue {
+  field: string;
+  message: string;
+}
+
+const AMOUNT_FIELDS = [
+  'principalAmount', 'pyusdAmount', 'transferAmount', 'minimumFractionSize', 'targetLiquidity'
+];
+const COUNT_FIELDS = [
+  'maturityDays', 'paymentFrequency', 'totalFractions', 'riskScore', 'liquidityScore', 'kycLevel', 'createdAt', 'lastUpdated'
+];
+const ADDRESS_FIELDS = ['corporateWallet', 'manager', 'sender', 'recipient'];
+const COUNTRY_FIELDS = ['buyerCountry', 'sellerCountry'];
+const STRING_FIELDS = ['corporateName', 'assetDescription', 'industryCode', 'processDefinition'];
+
+/** Common alpha-3 and legacy codes seen in demo data, mapped to alpha-2 */
+const COUNTRY_ALIASES: { [code: string]: string } = {
+  'USA': 'US', 'GBR': 'GB', 'UK': 'GB', 'DEU': 'DE', 'JPN': 'JP', 'IND': 'IN', 'SGP': 'SG',
+  'CAN': 'CA', 'AUS': 'AU', 'FRA': 'FR', 'ITA': 'IT', 'ESP': 'ES', 'NLD': 'NL', 'CHN': 'CN',
+  'IRN': 'IR', 'PRK': 'KP', 'CUB': 'CU', 'SYR': 'SY', 'AFG': 'AF', 'RUS': 'RU'
+};
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const HEX_PATTERN = /^0x[0-9a-fA-F]*$/;
+
+/**
+ * Parse a USD amount. Numbers and numeric strings ("5,000,000", "$5000000") are whole USD;
+ * bigints are treated as on-chain 18-decimal values, as in getMinimumMetadataScore.
+ */
+function normalizeAmount(value: any): number | undefined {
+  if (typeof value === 'bigint') {
+    return Number(formatUnits(value, 18));
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+  if (typeof value === 'string') {
+    const cleaned = value.trim().replace(/^\$/, '').replace(/[,_\s]/g, '');
+    if (!/^\d+(\.\d+)?$/.test(cleaned)) return undefined;
+    return Number(cleaned);
+  }
+  return undefined;
+}
+
+function normalizeCount(value: any): number | undefined {
+  const parsed = typeof value === 'bigint' ? Number(value)
+    : typeof value === 'string' && /^\s*\d+\s*$/.test(value) ? Number(value)
+    : value;
+  return typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Interest rates are whole basis points (850 = 8.5%). Bare numbers and numeric strings are always
+ * basis points; a percentage must say so ("8.5%"). Fractional basis points are refused rather than
+ * guessed at, since 8.5 could mean 8.5% or 8.5 bps.
+ */
+function normalizeBasisPoints(value: any): number | undefined {
+  if (typeof value === 'string') {
+    const text = value.trim().toLowerCase();
+    const percent = text.match(/^(\d+(?:\.\d+)?)\s*%$/);
+    if (percent) return Math.round(Number(percent[1]) * 100);
+    const bps = text.match(/^(\d+)\s*(bps|bp)?$/);
+    return bps ? Number(bps[1]) : undefined;
+  }
+  if (typeof value === 'bigint') return value >= 0n ? Number(value) : undefined;
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+function normalizeCountry(value: any): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const code = value.trim().toUpperCase();
+  const resolved = COUNTRY_ALIASES[code] || code;
+  return /^[A-Z]{2}$/.test(resolved) ? resolved : undefined;
+}
+
+function normalizeEnum<T extends string>(value: any, values: readonly T[]): T | undefined {
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return values[Number(value)];
+  }
+  if (typeof value !== 'string') return undefined;
+  const name = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return (values as readonly string[]).includes(name) ? name as T : undefined;
+}
+
+function normalizeBoolean(value: any): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 1) return true;
+  if (value === 'false' || value === 0) return false;
+  return undefined;
+}
+
+function normalizeInvestorBase(value: any): InvestorBase | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const base: InvestorBase = {};
+  for (const [investorClass, profile] of Object.entries<any>(value)) {
+    if (!(INVESTOR_CLASSES as readonly string[]).includes(investorClass)) return undefined;
+    if (!profile || typeof profile !== 'object' || Array.isArray(profile)) return undefined;
+    const normalized: Partial<InvestorClassProfile> = {};
+    for (const [field, amount] of Object.entries<any>(profile)) {
+      if (!['investors', 'medianTicket', 'ticketDispersion', 'annualTurnover'].includes(field)) return undefined;
+      const parsed = field === 'medianTicket' ? normalizeAmount(amount) : typeof amount === 'number' && amount >= 0 ? amount : undefined;
+      if (parsed === undefined) return undefined;
+      normalized[field as keyof InvestorClassProfile] = parsed;
+    }
+    base[investorClass as InvestorClass] = normalized;
+  }
+  return base;
+}
+
+/**
+ * Validate and normalize a raw payload. Every field is optional because transfers
+ * often carry only part of the asset; rules decide what a missing field means.
+ */
+export function validateTransactionContext(input: TransactionContextInput): {
+  context: TransactionContext;
+  errors: TransactionContextIssue[];
+} {
+  const errors: TransactionContextIssue[] = [];
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { context: {}, errors: [{ field: '$', message: 'transaction data must be an object' }] };
+  }
+
+  const context: TransactionContext = { ...input };
+  const present = (field: string) => input[field] !== undefined && input[field] !== null && input[field] !== '';
+  const apply = (field: string, normalize: (value: any) => any, expected: string) => {
+    if (!present(field)) {
+      delete context[field];
+      return;
+    }
+    const normalized = normalize(input[field]);
+    if (normalized === undefined) {
+      errors.push({ field, message: `must be ${expected}, got ${JSON.stringify(String(input[field]))}` });
+    } else {
+      context[field] = normalized;
+    }
+  };
+
+  STRING_FIELDS.forEach(field => apply(field, value => typeof value === 'string' ? value.trim() : undefined, 'a string'));
+  apply('legalEntityIdentifier', value => typeof value === 'string' ? value.trim().toUpperCase() : undefined, 'a string');
+  AMOUNT_FIELDS.forEach(field => apply(field, normalizeAmount, 'a non-negative USD amount'));
+  COUNT_FIELDS.forEach(field => apply(field, normalizeCount, 'a non-negative integer'));
+  ADDRESS_FIELDS.forEach(field => apply(field, value =>
+    typeof value === 'string' && ADDRESS_PATTERN.test(value.trim()) ? value.trim().toLowerCase() : undefined,
+    'a 0x-prefixed 20-byte address'));
+  COUNTRY_FIELDS.forEach(field => apply(field, normalizeCountry, 'an ISO 3166-1 alpha-2 country code'));
+  apply('interestRate', normalizeBasisPoints, 'whole basis points (850) or a percentage ("8.5%")');
+  apply('assetType', value => normalizeEnum(value, ASSET_TYPES), `one of ${ASSET_TYPES.join(', ')}`);
+  apply('creditRating', value => normalizeEnum(value, CREDIT_RATINGS), `one of ${CREDIT_RATINGS.join(', ')}`);
+  apply('status', value => normalizeEnum(value, ASSET_STATUSES), `one of ${ASSET_STATUSES.join(', ')}`);
+  apply('documentHash', value => typeof value === 'string' && HEX_PATTERN.test(value.trim()) ? value.trim() : undefined, 'a 0x-prefixed hex string');
+  apply('dcsaVerified', normalizeBoolean, 'a boolean');
+  apply('isCrossBorder', normalizeBoolean, 'a boolean');
+  apply('tradeDocuments', value =>
+    Array.isArray(value) && value.every(item => typeof item === 'string') ? [...value] : undefined,
+    'an array of document names');
+  apply('processEvents', value =>
+    Array.isArray(value) && value.every(item => typeof item === 'string' || typeof item?.activity === 'string') ? [...value] : undefined,
+    'an array of activity names or { activity, timestamp } events');
+  apply('investorBase', normalizeInvestorBase,
+    `an object of ${INVESTOR_CLASSES.join(', ')} profiles with non-negative investors, medianTicket, ticketDispersion and annualTurnover`);
+
+  // Field fallbacks the demos have always relied on, resolved once here instead of in each rule
+  if (!context.pyusdAmount && context.principalAmount !== undefined) {
+    context.pyusdAmount = context.principalAmount;
+  }
+  if (context.transferAmount === undefined && context.minimumFractionSize !== undefined) {
+    context.transferAmount = context.minimumFractionSize;
+  }
+  if (context.sender === undefined && context.corporateWallet !== undefined) {
+    context.sender = context.corporateWallet;
+  }
+  if (context.isCrossBorder === undefined && context.buyerCountry && context.sellerCountry) {
+    context.isCrossBorder = context.buyerCountry !== context.sellerCountry;
+  }
+
+  return { context, errors };
+}
+
+/**
+ * Normalize a raw payload, throwing with every problem listed if it is invalid
+ */
+export function normalizeTransactionContext(input: TransactionContextInput): TransactionContext {
+  const { context, errors } = validateTransactionContext(input);
+  if (errors.length > 0) {
+    throw new Error(`Invalid transaction data:\n${errors.map(issue => `  - ${issue.field}: ${issue.message}`).join('\n')}`);
+  }
+  return context;
+}
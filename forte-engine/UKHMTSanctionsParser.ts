@@ -0,0 +1,89 @@
+/**
+ * UK HM Treasury (OFSI) Consolidated List parser
+ * Reads ConList.csv: a "Last Updated" line, a header row, then one row per name, grouped by Group ID
+ */
+
+import { readFileSync } from 'fs';
+import { parseCsv } from './CsvParser.ts';
+import { extractDigitalCurrencyAddresses, uniqueValues } from './SanctionsList.ts';
+import type { SanctionsEntityType, SanctionsEntry, SanctionsSnapshot } from './SanctionsList.ts';
+
+export const UK_HMT_LIST_ID = 'UK_HMT';
+
+/** DD/MM/YYYY → YYYY-MM-DD */
+function isoDate(value: string): string {
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Unrecognized UK HMT date "${value}"`);
+  }
+  return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+}
+
+function entityType(groupType: string): SanctionsEntityType {
+  switch (groupType.trim().toLowerCase()) {
+    case 'individual': return 'individual';
+    case 'ship': return 'vessel';
+    default: return 'entity';
+  }
+}
+
+export function parseUKHMTSanctionsCsv(csv: string): SanctionsSnapshot {
+  const [updatedRow, header, ...rows] = parseCsv(csv);
+  if (!updatedRow || updatedRow[0].trim() !== 'Last Updated' || !header) {
+    throw new Error('Expected a UK HMT ConList.csv starting with a "Last Updated" line');
+  }
+
+  const columns = new Map(header.map((name, index) => [name.trim(), index]));
+  for (const required of ['Name 6', 'Group Type', 'Alias Type', 'Regime', 'Group ID']) {
+    if (!columns.has(required)) {
+      throw new Error(`UK HMT list is missing the "${required}" column`);
+    }
+  }
+  const cell = (row: string[], column: string) => (row[columns.get(column) ?? -1] || '').trim();
+
+  const groups = new Map<string, SanctionsEntry>();
+  for (const row of rows) {
+    const groupId = cell(row, 'Group ID');
+    if (!groupId) continue;
+
+    const individual = cell(row, 'Group Type').toLowerCase() === 'individual';
+    const givenNames = ['Name 1', 'Name 2', 'Name 3', 'Name 4', 'Name 5'].map(column => cell(row, column)).filter(Boolean).join(' ');
+    const name = individual && givenNames ? `${cell(row, 'Name 6')}, ${givenNames}` : cell(row, 'Name 6');
+    const primary = cell(row, 'Alias Type').toLowerCase() === 'primary name';
+
+    const entry = groups.get(groupId) || {
+      uid: groupId,
+      name: '',
+      entityType: entityType(cell(row, 'Group Type')),
+      programs: [],
+      aliases: [],
+      countries: [],
+      digitalCurrencyAddresses: [],
+      remarks: cell(row, 'Other Information') || undefined
+    };
+    if (primary && !entry.name) {
+      entry.name = name;
+    } else {
+      entry.aliases = uniqueValues([...entry.aliases, name]);
+    }
+    entry.programs = uniqueValues([...entry.programs, cell(row, 'Regime')]);
+    entry.countries = uniqueValues([...entry.countries, cell(row, 'Country'), cell(row, 'Nationality')]);
+    groups.set(groupId, entry);
+  }
+
+  const entries = [...groups.values()].map(entry => {
+    // Groups published without a "Primary name" row fall back to their first alias
+    const name = entry.name || entry.aliases[0];
+    return {
+      ...entry,
+      name,
+      aliases: entry.aliases.filter(alias => alias !== name),
+      digitalCurrencyAddresses: extractDigitalCurrencyAddresses(entry.remarks)
+    };
+  });
+  return { listId: UK_HMT_LIST_ID, version: isoDate(updatedRow[1] || ''), entries };
+}
+
+export function loadUKHMTSanctions(path: string): SanctionsSnapshot {
+  return parseUKHMTSanctionsCsv(readFileSync(path, 'utf-8'));
+}
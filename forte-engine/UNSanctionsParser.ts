@@ -0,0 +1,63 @@
+/**
+ * UN Security Council Consolidated List parser
+ * Reads the consolidated XML published by the Security Council (CONSOLIDATED_LIST)
+ */
+
+import { readFileSync } from 'fs';
+import { parseXml, xmlChild, xmlChildren, xmlChildText } from './XmlParser.ts';
+import type { XmlElement } from './XmlParser.ts';
+import { extractDigitalCurrencyAddresses, uniqueValues } from './SanctionsList.ts';
+import type { SanctionsEntry, SanctionsSnapshot } from './SanctionsList.ts';
+
+export const UN_SC_LIST_ID = 'UN_SC';
+
+/** Individuals are published as FIRST_NAME..FOURTH_NAME; entities use FIRST_NAME alone */
+function fullName(element: XmlElement): string {
+  return ['FIRST_NAME', 'SECOND_NAME', 'THIRD_NAME', 'FOURTH_NAME']
+    .map(field => xmlChildText(element, field))
+    .filter(Boolean)
+    .join(' ');
+}
+
+function toEntry(element: XmlElement, kind: 'INDIVIDUAL' | 'ENTITY'): SanctionsEntry {
+  const remarks = xmlChildText(element, 'COMMENTS1');
+  return {
+    uid: xmlChildText(element, 'REFERENCE_NUMBER') || xmlChildText(element, 'DATAID'),
+    name: fullName(element),
+    entityType: kind === 'INDIVIDUAL' ? 'individual' : 'entity',
+    programs: uniqueValues([xmlChildText(element, 'UN_LIST_TYPE')]),
+    aliases: uniqueValues(xmlChildren(element, `${kind}_ALIAS`).map(alias => xmlChildText(alias, 'ALIAS_NAME'))),
+    countries: uniqueValues([
+      ...xmlChildren(xmlChild(element, 'NATIONALITY'), 'VALUE').map(value => value.text),
+      ...xmlChildren(element, `${kind}_ADDRESS`).map(address => xmlChildText(address, 'COUNTRY'))
+    ]),
+    digitalCurrencyAddresses: extractDigitalCurrencyAddresses(remarks),
+    remarks
+  };
+}
+
+export function parseUNSanctionsXml(xml: string): SanctionsSnapshot {
+  const root = parseXml(xml);
+  if (root.name !== 'CONSOLIDATED_LIST') {
+    throw new Error(`Expected a UN <CONSOLIDATED_LIST> document, found <${root.name}>`);
+  }
+  const dateGenerated = root.attributes.dateGenerated;
+  if (!dateGenerated) {
+    throw new Error('UN sanctions file has no dateGenerated');
+  }
+
+  const entries = [
+    ...xmlChildren(xmlChild(root, 'INDIVIDUALS'), 'INDIVIDUAL').map(element => toEntry(element, 'INDIVIDUAL')),
+    ...xmlChildren(xmlChild(root, 'ENTITIES'), 'ENTITY').map(element => toEntry(element, 'ENTITY'))
+  ];
+
+  const missingUid = entries.findIndex(entry => !entry.uid);
+  if (missingUid >= 0) {
+    throw new Error(`UN sanctions entry #${missingUid + 1} has no REFERENCE_NUMBER or DATAID`);
+  }
+  return { listId: UN_SC_LIST_ID, version: dateGenerated.slice(0, 10), entries };
+}
+
+export function loadUNSanctions(path: string): SanctionsSnapshot {
+  return parseUNSanctionsXml(readFileSync(path, 'utf-8'));
+}
@@ -0,0 +1,156 @@
+/**
+ * Minimal XML parser for the regulatory and process files FORTE ingests (OFAC SDN, BPMN).
+ * Builds an element tree; namespaces are resolved to local names, DTDs are skipped, not processed.
+ */
+
+export interface XmlElement {
+  /** Local name without namespace prefix */
+  name: string;
+  prefix?: string;
+  attributes: { [name: string]: string };
+  children: XmlElement[];
+  /** Concatenated text content directly inside this element, trimmed */
+  text: string;
+}
+
+const ENTITIES: { [name: string]: string } = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function splitName(qualifiedName: string): { name: string; prefix?: string } {
+  const separator = qualifiedName.indexOf(':');
+  return separator < 0
+    ? { name: qualifiedName }
+    : { name: qualifiedName.slice(separator + 1), prefix: qualifiedName.slice(0, separator) };
+}
+
+/**
+ * Parse an XML document and return its root element. Malformed markup throws with the offset.
+ */
+export function parseXml(xml: string): XmlElement {
+  const stack: Array<XmlElement & { textParts: string[] }> = [];
+  let root: XmlElement | undefined;
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid XML at offset ${position}: ${message}`);
+  };
+  const skipPast = (terminator: string) => {
+    const end = xml.indexOf(terminator, position);
+    if (end < 0) fail(`missing ${terminator}`);
+    const content = xml.slice(position, end);
+    position = end + terminator.length;
+    return content;
+  };
+  const appendText = (text: string) => {
+    if (stack.length > 0) stack[stack.length - 1].textParts.push(text);
+    else if (text.trim()) fail('text outside the root element');
+  };
+
+  while (position < xml.length) {
+    const next = xml.indexOf('<', position);
+    if (next < 0) {
+      appendText(decodeEntities(xml.slice(position)));
+      break;
+    }
+    if (next > position) {
+      appendText(decodeEntities(xml.slice(position, next)));
+      position = next;
+    }
+
+    if (xml.startsWith('<!--', position)) {
+      position += 4;
+      skipPast('-->');
+    } else if (xml.startsWith('<![CDATA[', position)) {
+      position += 9;
+      appendText(skipPast(']]>'));
+    } else if (xml.startsWith('<?', position)) {
+      position += 2;
+      skipPast('?>');
+    } else if (xml.startsWith('<!', position)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = xml.indexOf('[', position);
+      const tagEnd = xml.indexOf('>', position);
+      if (bracket >= 0 && bracket < tagEnd) {
+        position = bracket + 1;
+        skipPast(']');
+      }
+      skipPast('>');
+    } else if (xml.startsWith('</', position)) {
+      position += 2;
+      const closing = skipPast('>').trim();
+      const element = stack.pop();
+      if (!element) fail(`unexpected closing tag </${closing}>`);
+      const expected = element.prefix ? `${element.prefix}:${element.name}` : element.name;
+      if (closing !== expected) fail(`</${closing}> does not close <${expected}>`);
+      close(element);
+    } else {
+      position += 1;
+      const tag = readTag();
+      const element = { ...splitName(tag.name), attributes: tag.attributes, children: [], text: '', textParts: [] };
+      if (stack.length > 0) stack[stack.length - 1].children.push(element);
+      else if (root) fail('more than one root element');
+      else root = element;
+
+      if (tag.selfClosing) close(element);
+      else stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) fail(`<${stack[stack.length - 1].name}> is not closed`);
+  if (!root) fail('no root element');
+  return root;
+
+  function close(element: XmlElement & { textParts?: string[] }): void {
+    element.text = (element.textParts || []).join('').trim();
+    delete element.textParts;
+  }
+
+  function readTag(): { name: string; attributes: { [name: string]: string }; selfClosing: boolean } {
+    // Sticky patterns match at `position` without slicing, so large files parse in linear time
+    const namePattern = /[^\s/>]+/y;
+    namePattern.lastIndex = position;
+    const nameMatch = namePattern.exec(xml);
+    if (!nameMatch) fail('missing tag name');
+    position = namePattern.lastIndex;
+
+    const attributes: { [name: string]: string } = {};
+    const attributePattern = /\s*([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/y;
+    for (;;) {
+      attributePattern.lastIndex = position;
+      const match = attributePattern.exec(xml);
+      if (!match) break;
+      attributes[match[1]] = decodeEntities(match[3] ?? match[4]);
+      position = attributePattern.lastIndex;
+    }
+
+    const endPattern = /\s*(\/?)>/y;
+    endPattern.lastIndex = position;
+    const end = endPattern.exec(xml);
+    if (!end) fail(`malformed tag <${nameMatch[0]}>`);
+    position = endPattern.lastIndex;
+    return { name: nameMatch[0], attributes, selfClosing: end[1] === '/' };
+  }
+}
+
+/** First direct child with the given local name */
+export function xmlChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(child => child.name === name);
+}
+
+/** All direct children with the given local name */
+export function xmlChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter(child => child.name === name) : [];
+}
+
+/** Text of the first direct child with the given local name, or undefined */
+export function xmlChildText(element: XmlElement | undefined, name: string): string | undefined {
+  const text = xmlChild(element, name)?.text;
+  return text ? text : undefined;
+}
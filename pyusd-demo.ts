@@ -4,11 +4,15 @@
  */
 
 import { ethers } from 'ethers';
+import { readFileSync } from 'fs';
 import ForteSDKManager from './sdk.js';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
+const POLICY_PATH = 'policies/institutional-rwa-complete.json';
+const POLICY_RULE_COUNT: number = JSON.parse(readFileSync(POLICY_PATH, 'utf-8')).rules.length;
+
 interface PyusdTradeDemo {
   name: string;
   description: string;
@@ -49,7 +53,7 @@ class PyusdCrossBorderDemo {
 
     // Setup FORTE policy for PYUSD trades
     console.log('📋 Setting up FORTE compliance rules for PYUSD trades...');
-    const policyId = await this.sdk.setupPolicy('policies/institutional-rwa-complete.json');
+    const policyId = await this.sdk.setupPolicy(POLICY_PATH);
     console.log(`✅ Policy configured: ${policyId}\n`);
 
     // Demonstrate PYUSD contract info
@@ -182,7 +186,7 @@ class PyusdCrossBorderDemo {
                     scenario.name.includes('Microsoft') ? 'MICROSOFT CORPORATION' : 
                     'GOLDMAN SACHS GROUP INC',
       legalEntityIdentifier: scenario.name.includes('Apple') ? 'HWUPKR0MPOU8FGXBT394' :
-                           scenario.name.includes('Microsoft') ? 'XEBEDEBBPPM9N3JQFGFV' :
+                           scenario.name.includes('Microsoft') ? 'INR2EJN1ERAN0W5ZP974' :
                            '784F5XWPLTWKTBV3E584',
       assetType: 'TRADE_FINANCE',
       principalAmount: scenario.expectedPyusdAmount,
@@ -200,7 +204,7 @@ class PyusdCrossBorderDemo {
     const complianceResult = await this.sdk.checkRules(policyId, tradeData);
 
     console.log(`🎯 Compliance: ${complianceResult.compliant ? '✅ PASSED' : '❌ FAILED'}`);
-    console.log(`✅ Rules Passed: ${complianceResult.passedRules.length}/12`);
+    console.log(`✅ Rules Passed: ${complianceResult.passedRules.length}/${POLICY_RULE_COUNT}`);
 
     if (complianceResult.compliant) {
       console.log('\n⚡ INSTANT PYUSD SETTLEMENT SIMULATION:');
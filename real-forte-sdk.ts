@@ -1,336 +1,41 @@
 /**
  * Real FORTE Cloud SDK Integration
  * This connects to actual FORTE Cloud API like dmulvi/rwa-demo
+ * Uses the cloud compliance backend; without FORTE_API_KEY, or when the API fails,
+ * rules are evaluated by the full local engine so verdicts match ForteSDKManager
  */
 
 import { ethers } from 'ethers';
-import { promises as fs } from 'fs';
-import { zkPretManager } from './zkpret-integration/ZKPretAdapter.ts';
+import { ForteSDKManager } from './sdk.ts';
+import type { ComplianceEngineConfig } from './forte-engine/ComplianceEngine.ts';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
-export class RealForteSDKManager {
-  private provider: ethers.JsonRpcProvider;
-  private wallet: ethers.Wallet;
-  private forteApiKey: string;
-  private forteApiUrl: string;
+export class RealForteSDKManager extends ForteSDKManager {
+  private rpcProvider: ethers.JsonRpcProvider;
 
-  constructor() {
-    this.provider = new ethers.JsonRpcProvider(process.env.FORTE_RPC_URL || 'http://localhost:8545');
-    this.wallet = new ethers.Wallet(
-      process.env.FORTE_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
-      this.provider
-    );
-    
-    // Real FORTE Cloud API configuration
-    this.forteApiKey = process.env.FORTE_API_KEY || '';
-    this.forteApiUrl = process.env.FORTE_API_URL || 'https://api.forte.cloud';
-    
-    if (!this.forteApiKey) {
-      console.warn('⚠️ FORTE_API_KEY not set - will use simulation mode');
-    }
-  }
-
-  /**
-   * Setup institutional RWA policy with REAL FORTE Cloud API
-   */
-  async setupPolicy(policyPath: string): Promise<string> {
-    try {
-      const policyContent = await fs.readFile(policyPath, 'utf-8');
-      const policy = JSON.parse(policyContent);
-      
-      console.log(`🏛️ Setting up FORTE policy via Cloud API: ${policy.policyName}`);
-      console.log(`📋 Rules count: ${policy.rules.length}`);
-
-      if (this.forteApiKey) {
-        // REAL FORTE Cloud API call
-        const response = await fetch(`${this.forteApiUrl}/v1/policies`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.forteApiKey}`,
-            'Content-Type': 'application/json',
-            'User-Agent': 'InstitutionalRWA/1.0.0'
-          },
-          body: JSON.stringify({
-            name: policy.policyName,
-            description: policy.description,
-            rules: policy.rules,
-            ruleChain: policy.ruleChain,
-            complianceThresholds: policy.complianceThresholds,
-            metadata: {
-              zkPretIntegrations: policy.zkPretIntegrations,
-              assetTypes: ['SUPPLY_CHAIN_INVOICE', 'TRADE_FINANCE', 'EQUIPMENT_FINANCE'],
-              jurisdictions: ['US', 'IN', 'GB', 'DE', 'SG'],
-              version: '1.0.0'
-            }
-          })
-        });
-
-        if (!response.ok) {
-          throw new Error(`FORTE API error: ${response.status} ${response.statusText}`);
-        }
-
-        const result = await response.json();
-        console.log(`✅ FORTE Cloud Policy registered: ${result.policyId}`);
-        console.log(`🔗 Policy URL: ${this.forteApiUrl}/policies/${result.policyId}`);
-        return result.policyId;
-
-      } else {
-        // Fallback to simulation mode
-        console.log('🔧 Using simulation mode (no FORTE API key)');
-        const policyId = this.generatePolicyId(policy);
-        return policyId;
-      }
-
-    } catch (error) {
-      console.error('❌ Failed to setup FORTE policy:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Apply policy to contract address via REAL FORTE Cloud
-   */
-  async applyPolicy(policyId: string, contractAddress: string): Promise<boolean> {
-    try {
-      console.log(`🎯 Applying FORTE policy ${policyId} to contract ${contractAddress}`);
-      
-      if (this.forteApiKey) {
-        // REAL FORTE Cloud API call
-        const response = await fetch(`${this.forteApiUrl}/v1/policies/${policyId}/apply`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.forteApiKey}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            contractAddress,
-            network: 'ethereum', // or get from provider
-            chainId: (await this.provider.getNetwork()).chainId.toString()
-          })
-        });
-
-        if (!response.ok) {
-          throw new Error(`FORTE API error: ${response.status} ${response.statusText}`);
-        }
-
-        const result = await response.json();
-        console.log(`✅ Policy applied successfully`);
-        console.log(`📊 Active rules: ${result.activeRules?.length || 'unknown'}`);
-        return true;
-
-      } else {
-        // Simulation mode
-        console.log('🔧 Simulating policy application (no FORTE API key)');
-        return true;
-      }
-
-    } catch (error) {
-      console.error('❌ Failed to apply FORTE policy:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Check rules compliance via REAL FORTE Cloud API
-   */
-  async checkRules(policyId: string, transactionData: any): Promise<{
-    compliant: boolean;
-    passedRules: string[];
-    failedRules: string[];
-    warnings: string[];
-  }> {
-    console.log(`🔍 Checking FORTE rules via Cloud API for policy ${policyId}...`);
-
-    if (this.forteApiKey) {
-      try {
-        // REAL FORTE Cloud API call
-        const response = await fetch(`${this.forteApiUrl}/v1/policies/${policyId}/check`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.forteApiKey}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            transactionData,
-            metadata: {
-              timestamp: Date.now(),
-              source: 'InstitutionalRWAPlatform',
-              version: '1.0.0'
-            }
-          })
-        });
-
-        if (!response.ok) {
-          throw new Error(`FORTE API error: ${response.status} ${response.statusText}`);
-        }
-
-        const result = await response.json();
-        
-        console.log(`📊 FORTE Cloud Response:`);
-        console.log(`✅ Passed: ${result.passedRules?.length || 0}`);
-        console.log(`❌ Failed: ${result.failedRules?.length || 0}`);
-        console.log(`⚠️ Warnings: ${result.warnings?.length || 0}`);
-
-        return {
-          compliant: result.compliant,
-          passedRules: result.passedRules || [],
-          failedRules: result.failedRules || [],
-          warnings: result.warnings || []
-        };
-
-      } catch (error) {
-        console.error('❌ FORTE Cloud API call failed:', error);
-        console.log('🔄 Falling back to local rule evaluation...');
-        // Fallback to local evaluation
-        return await this.evaluateRulesLocally(transactionData);
-      }
-
-    } else {
-      // No API key - use local evaluation
-      console.log('🔧 Using local rule evaluation (no FORTE API key)');
-      return await this.evaluateRulesLocally(transactionData);
-    }
+  constructor(config: Partial<ComplianceEngineConfig> = {}) {
+    super({ backend: 'cloud', ...config });
+    this.rpcProvider = new ethers.JsonRpcProvider(process.env.FORTE_RPC_URL || 'http://localhost:8545');
   }
 
   /**
-   * Fallback local rule evaluation (like your current implementation)
+   * Apply policy to contract address via REAL FORTE Cloud, reporting the connected chain
    */
-  private async evaluateRulesLocally(transactionData: any): Promise<{
-    compliant: boolean;
-    passedRules: string[];
-    failedRules: string[];
-    warnings: string[];
-  }> {
-    const result = {
-      compliant: true,
-      passedRules: [] as string[],
-      failedRules: [] as string[],
-      warnings: [] as string[]
-    };
-
-    // Your existing rule evaluation logic
-    const rules = [
-      'RULE_01', 'RULE_02', 'RULE_03', 'RULE_04', 'RULE_05', 'RULE_06',
-      'RULE_07', 'RULE_08', 'RULE_09', 'RULE_10', 'RULE_11', 'RULE_12',
-      'RULE_13', 'RULE_14'
-    ];
-
-    for (const ruleId of rules) {
+  async applyPolicy(policyId: string, contractAddress: string, chainId?: string): Promise<boolean> {
+    if (!chainId) {
       try {
-        const ruleResult = await this.evaluateRule(ruleId, transactionData);
-        
-        if (ruleResult.passed) {
-          result.passedRules.push(ruleId);
-          console.log(`✅ ${ruleId}: PASSED`);
-        } else {
-          result.failedRules.push(ruleId);
-          result.compliant = false;
-          console.log(`❌ ${ruleId}: FAILED (${ruleResult.reason})`);
-        }
+        const network = await Promise.race([
+          this.rpcProvider.getNetwork(),
+          new Promise<never>((_, reject) => setTimeout(() => reject(new Error('RPC timeout')), 5000).unref())
+        ]);
+        chainId = network.chainId.toString();
       } catch (error) {
-        result.failedRules.push(ruleId);
-        result.compliant = false;
-        console.log(`💥 ${ruleId}: ERROR (${error})`);
+        console.warn('⚠️ Unable to read chain ID from FORTE_RPC_URL; applying without it');
       }
     }
-
-    return result;
-  }
-
-  /**
-   * Individual rule evaluation (your existing logic)
-   */
-  private async evaluateRule(ruleId: string, transactionData: any): Promise<{
-    passed: boolean;
-    reason?: string;
-  }> {
-    // Your existing rule evaluation logic
-    switch (ruleId) {
-      case 'RULE_01': return this.evaluateRule01(transactionData);
-      case 'RULE_02': return this.evaluateRule02(transactionData);
-      case 'RULE_13': return this.evaluateRule13(transactionData);
-      case 'RULE_14': return this.evaluateRule14(transactionData);
-      // ... other rules
-      default: return { passed: true };
-    }
-  }
-
-  // Your existing rule implementations
-  private async evaluateRule01(data: any): Promise<{ passed: boolean; reason?: string }> {
-    if (!data.legalEntityIdentifier) {
-      return { passed: false, reason: 'Missing LEI' };
-    }
-    const gleifResult = await zkPretManager.verifyGLEIF(data.legalEntityIdentifier, data.corporateName);
-    return { 
-      passed: gleifResult.verified, 
-      reason: gleifResult.verified ? undefined : 'GLEIF verification failed' 
-    };
-  }
-
-  private async evaluateRule02(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const sanctionedAddresses = ['0x1111111111111111111111111111111111111111'];
-    const isOnSanctionsList = sanctionedAddresses.includes(data.recipient?.toLowerCase());
-    return { 
-      passed: !isOnSanctionsList, 
-      reason: isOnSanctionsList ? 'Recipient on OFAC sanctions list' : undefined 
-    };
-  }
-
-  private async evaluateRule13(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const pyusdAmount = data.pyusdAmount || data.principalAmount || 0;
-    const pyusdPegPrice = 1.001;
-    const pegStable = pyusdPegPrice >= 0.995 && pyusdPegPrice <= 1.005;
-    const sufficientReserves = pyusdAmount <= 50000000;
-    
-    if (!pegStable) {
-      return { passed: false, reason: `PYUSD peg unstable: ${pyusdPegPrice}` };
-    }
-    if (!sufficientReserves) {
-      return { passed: false, reason: `PYUSD amount ${pyusdAmount} exceeds liquidity` };
-    }
-    return { passed: true };
-  }
-
-  private async evaluateRule14(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const buyerCountry = data.buyerCountry || 'US';
-    const sellerCountry = data.sellerCountry || 'US';
-    const pyusdAmount = data.pyusdAmount || data.principalAmount || 0;
-    
-    const supportedCountries = ['US', 'GB', 'DE', 'JP', 'IN', 'SG'];
-    const restrictedCountries = ['IR', 'KP', 'CU'];
-    
-    if (!supportedCountries.includes(buyerCountry) || !supportedCountries.includes(sellerCountry)) {
-      return { passed: false, reason: `Unsupported countries: ${buyerCountry} ↔ ${sellerCountry}` };
-    }
-    
-    if (restrictedCountries.includes(buyerCountry) || restrictedCountries.includes(sellerCountry)) {
-      return { passed: false, reason: `Restricted countries: ${buyerCountry} ↔ ${sellerCountry}` };
-    }
-    
-    const maxAmount = this.getCrossBorderLimit(buyerCountry, sellerCountry);
-    if (pyusdAmount > maxAmount) {
-      return { passed: false, reason: `Amount ${pyusdAmount} exceeds limit ${maxAmount}` };
-    }
-    
-    return { passed: true };
-  }
-
-  private getCrossBorderLimit(buyerCountry: string, sellerCountry: string): number {
-    const limits: { [key: string]: number } = {
-      'US-IN': 50000000, 'IN-US': 50000000,
-      'US-GB': 100000000, 'GB-US': 100000000,
-      'default': 25000000
-    };
-    
-    const key1 = `${buyerCountry}-${sellerCountry}`;
-    const key2 = `${sellerCountry}-${buyerCountry}`;
-    return limits[key1] || limits[key2] || limits['default'];
-  }
-
-  private generatePolicyId(policy: any): string {
-    return `POLICY_${Date.now()}_${policy.policyName.replace(/\s+/g, '_').toUpperCase()}`;
+    return super.applyPolicy(policyId, contractAddress, chainId);
   }
 }
 
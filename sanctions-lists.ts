@@ -0,0 +1,84 @@
+/**
+ * Sanctions list maintenance CLI
+ * Ingests list publications, applies and produces delta files, and screens addresses or names
+ * against the versioned lists used by RULE_02 and RULE_03
+ *
+ *   tsx sanctions-lists.ts refresh
+ *   tsx sanctions-lists.ts ingest <listId> <file>
+ *   tsx sanctions-lists.ts delta <listId> <fromFile> <toFile> [out.json]
+ *   tsx sanctions-lists.ts applyDelta <delta.json>
+ *   tsx sanctions-lists.ts screen <address|name>
+ *   tsx sanctions-lists.ts versions
+ */
+
+import { writeFileSync } from 'fs';
+import * as dotenv from 'dotenv';
+import { defaultSanctionsSources, sanctionsScreening } from './forte-engine/SanctionsScreening.ts';
+import type { SanctionsScreeningResult } from './forte-engine/SanctionsScreening.ts';
+import { diffSanctionsSnapshots } from './forte-engine/SanctionsList.ts';
+
+dotenv.config();
+
+function printScreening(result: SanctionsScreeningResult): void {
+  const lists = result.lists.map(list => `${list.listId} ${list.version}`).join(', ');
+  console.log(`🔍 ${result.subject} screened against ${lists}`);
+  if (!result.matched) {
+    console.log('✅ No match');
+    return;
+  }
+  result.matches.forEach(match => console.log(
+    `🚫 ${match.listId} #${match.uid} ${match.name} [${match.programs.join(', ')}] matched on ${match.matchedOn} "${match.matchedValue}" (score ${match.score})`
+  ));
+}
+
+// CLI execution
+if (process.argv[1] === new URL(import.meta.url).pathname.replace(/\\/g, '/')) {
+  const [command, ...args] = process.argv.slice(2);
+
+  try {
+    if (command === 'refresh') {
+      const applied = sanctionsScreening.refresh();
+      if (Object.keys(applied).length === 0) console.log('✅ Sanctions lists up to date');
+    } else if (command === 'ingest') {
+      const delta = sanctionsScreening.ingest(args[0], args[1]);
+      console.log(delta
+        ? `🛡️ ${args[0]} ${delta.fromVersion ?? '(empty)'} → ${delta.toVersion}: +${delta.added.length} ~${delta.changed.length} -${delta.removed.length}`
+        : `✅ ${args[0]} already has this content`);
+    } else if (command === 'delta') {
+      const [listId, fromPath, toPath, outPath] = args;
+      const source = defaultSanctionsSources().find(candidate => candidate.listId === listId);
+      if (!source) throw new Error(`Unknown sanctions list ${listId}`);
+      const from = source.load(fromPath);
+      const delta = diffSanctionsSnapshots(from.entries, source.load(toPath), from.version);
+      const json = JSON.stringify(delta, null, 2) + '\n';
+      if (outPath) {
+        writeFileSync(outPath, json);
+        console.log(`📦 ${listId} delta ${delta.fromVersion} → ${delta.toVersion} written to ${outPath}`);
+      } else {
+        process.stdout.write(json);
+      }
+    } else if (command === 'applyDelta') {
+      const record = sanctionsScreening.applyDeltaFile(args[0]);
+      console.log(`🛡️ Now at ${record.version}: ${record.entryCount} entries (+${record.added} ~${record.changed} -${record.removed})`);
+    } else if (command === 'screen') {
+      // A single token with digits is a wallet address; anything else is a name
+      const subject = args.join(' ');
+      printScreening(args.length === 1 && /\d/.test(subject)
+        ? sanctionsScreening.screenAddress(subject)
+        : sanctionsScreening.screenName(subject));
+    } else if (command === 'versions') {
+      sanctionsScreening.refresh();
+      sanctionsScreening.listVersions().forEach(list => {
+        console.log(`🛡️ ${list.listId}: ${list.version ?? 'not loaded'} (${list.entries} entries)`);
+        list.history.forEach(version => console.log(
+          `  ${version.version} ${version.hash.slice(0, 16)}… +${version.added} ~${version.changed} -${version.removed} from ${version.source} at ${version.loadedAt}`
+        ));
+      });
+    } else {
+      console.log('Usage: tsx sanctions-lists.ts [refresh|ingest|delta|applyDelta|screen|versions] [args...]');
+    }
+  } catch (error) {
+    console.error('❌ Sanctions list command failed:', error);
+    process.exitCode = 1;
+  }
+}
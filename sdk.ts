@@ -1,22 +1,83 @@
 /**
  * FORTE SDK Integration for Institutional RWA Platform
- * Manages 14-rule policy deployment and enforcement
- * Note: Using mock FORTE implementation for demo purposes
+ * Manages policy deployment and enforcement
+ * Note: Rules are evaluated by the compliance backend selected with FORTE_ENGINE_BACKEND (local by default)
  */
 
 import { ethers } from 'ethers';
 import { promises as fs } from 'fs';
+import type { ConditionFunction } from './forte-engine/ConditionInterpreter.ts';
+import { ConditionRegistry } from './forte-engine/ConditionRegistry.ts';
+import type { ConditionSignature } from './forte-engine/ConditionRegistry.ts';
+import { builtinConditions } from './forte-engine/BuiltinConditions.ts';
+import { PolicyValidator } from './forte-engine/PolicyValidator.ts';
+import type { PolicyValidationResult } from './forte-engine/PolicyValidator.ts';
+import { normalizeTransactionContext } from './forte-engine/TransactionContext.ts';
+import type { TransactionContextInput } from './forte-engine/TransactionContext.ts';
+import { complianceEngineConfigFromEnv, createComplianceEngine } from './forte-engine/ComplianceEngine.ts';
+import type { ComplianceEngine, ComplianceEngineConfig, RuleCheckOptions, RuleCheckResult } from './forte-engine/ComplianceEngine.ts';
+import { PolicyStore } from './forte-engine/PolicyStore.ts';
+import type { PolicyDiff, PolicyVersionRecord } from './forte-engine/PolicyStore.ts';
+import { PolicyBindingLedger } from './forte-engine/PolicyBindingLedger.ts';
+import type { BindingEvent, PolicyBinding } from './forte-engine/PolicyBindingLedger.ts';
+import { AuditTrail } from './forte-engine/AuditTrail.ts';
+import type { AuditEntry, AuditQuery, AuditVerification } from './forte-engine/AuditTrail.ts';
+import { leiRelationships } from './forte-engine/LEIRelationshipGraph.ts';
+import type { CorporateGroup } from './forte-engine/LEIRelationshipGraph.ts';
+import { analyzeACTUSContract } from './forte-engine/ACTUSEngine.ts';
+import type { ACTUSRiskAnalysis } from './forte-engine/ACTUSEngine.ts';
+import { metadataThresholdParity } from './forte-engine/MetadataThresholds.ts';
+import { fractionSettingsFromPolicy, optimizeFractions } from './forte-engine/FractionOptimizer.ts';
+import type { FractionOptimization } from './forte-engine/FractionOptimizer.ts';
+import type { MetadataThresholdParity } from './forte-engine/MetadataThresholds.ts';
 import { zkPretManager } from './zkpret-integration/ZKPretAdapter.ts';
+import type { ZKPretVerifierType } from './zkpret-integration/ZKPretAdapter.ts';
+import type { ProofCacheStats } from './zkpret-integration/ZKProofCache.ts';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
+export type {
+  ComplianceEngine,
+  ComplianceEngineConfig,
+  RuleActionTaken,
+  RuleAdjustment,
+  RuleCheckOptions,
+  RuleCheckResult,
+  RuleEvaluation,
+  RuleEvaluationMode,
+  RuleEvaluationOrder,
+  RuleOutcome,
+  SkippedRule,
+  ThresholdCheck
+} from './forte-engine/ComplianceEngine.ts';
+
 export class ForteSDKManager {
   private provider: ethers.JsonRpcProvider;
   private wallet: ethers.Wallet;
-  private policyRegistry: Map<string, any> = new Map();
+  private conditionRegistry = new ConditionRegistry(builtinConditions);
+  private policyValidator = new PolicyValidator(this.conditionRegistry);
+  protected engine: ComplianceEngine;
+  protected policyStore: PolicyStore;
+  protected bindingLedger: PolicyBindingLedger;
+  protected auditTrail: AuditTrail;
 
-  constructor() {
+  /**
+   * Backend selection comes from FORTE_ENGINE_BACKEND unless overridden here.
+   * Policies persist in FORTE_POLICY_STORE (data/policy-registry.json by default),
+   * contract bindings in FORTE_BINDING_LEDGER (data/policy-bindings.json by default)
+   * and checkRules decisions in FORTE_AUDIT_LOG (data/audit-log.jsonl by default).
+   */
+  constructor(
+    config: Partial<ComplianceEngineConfig> = {},
+    policyStore: PolicyStore = new PolicyStore(process.env.FORTE_POLICY_STORE || 'data/policy-registry.json'),
+    bindingLedger: PolicyBindingLedger = new PolicyBindingLedger(process.env.FORTE_BINDING_LEDGER || 'data/policy-bindings.json'),
+    auditTrail: AuditTrail = new AuditTrail(process.env.FORTE_AUDIT_LOG || 'data/audit-log.jsonl')
+  ) {
+    this.policyStore = policyStore;
+    this.bindingLedger = bindingLedger;
+    this.auditTrail = auditTrail;
+    this.engine = createComplianceEngine({ ...complianceEngineConfigFromEnv(), ...config }, this.conditionRegistry);
     this.provider = new ethers.JsonRpcProvider(process.env.FORTE_RPC_URL || 'http://localhost:8545');
     this.wallet = new ethers.Wallet(
       process.env.FORTE_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
@@ -25,7 +86,7 @@ export class ForteSDKManager {
   }
 
   /**
-   * Setup institutional RWA policy with all 12 rules
+   * Setup institutional RWA policy with all of its rules
    */
   async setupPolicy(policyPath: string): Promise<string> {
     try {
@@ -35,9 +96,22 @@ export class ForteSDKManager {
       console.log(`🏛️ Setting up FORTE policy: ${policy.policyName}`);
       console.log(`📋 Rules count: ${policy.rules.length}`);
 
-      // Register policy in FORTE engine
-      const policyId = this.generatePolicyId(policy);
-      this.policyRegistry.set(policyId, policy);
+      // Fail fast on structural, cross-reference and condition-function errors
+      const validation = this.policyValidator.validate(policy);
+      validation.warnings.forEach(issue => console.warn(`⚠️ ${issue.path}: ${issue.message}`));
+      if (!validation.valid) {
+        const details = validation.errors.map(issue => `${issue.path}: ${issue.message}`);
+        throw new Error(`Policy ${policyPath} is invalid:\n  - ${details.join('\n  - ')}`);
+      }
+
+      // Persist the version (content-addressed, so re-running setup is idempotent) and register it in FORTE engine
+      const record = this.policyStore.register(policy);
+      const policyId = await this.engine.registerPolicy(policy, record.policyId);
+      console.log(`🗂️ ${record.policyName} v${record.policyVersion} stored as version #${record.sequence} (${record.hash.slice(0, 16)}…)`);
+      const active = this.policyStore.getActive(record.policyName);
+      if (active && active.policyId !== record.policyId) {
+        console.warn(`⚠️ ${record.policyName} is rolled back to version #${active.sequence} (${active.policyId}); checkRules and applyPolicy by policy name use that version`);
+      }
 
       // Initialize ZK PRET integrations
       await this.initializeZKPretIntegrations(policy.zkPretIntegrations);
@@ -53,27 +127,67 @@ export class ForteSDKManager {
   }
 
   /**
-   * Apply policy to contract address
+   * Validate a policy file against the policy schema and its cross-references
    */
-  async applyPolicy(policyId: string, contractAddress: string): Promise<boolean> {
+  async validatePolicy(policyPath: string): Promise<PolicyValidationResult> {
+    const policyContent = await fs.readFile(policyPath, 'utf-8');
+    let policy: any;
     try {
-      const policy = this.policyRegistry.get(policyId);
-      if (!policy) {
-        throw new Error(`Policy ${policyId} not found`);
+      policy = JSON.parse(policyContent);
+    } catch (error: any) {
+      return { valid: false, errors: [{ path: '$', message: `invalid JSON: ${error.message}` }], warnings: [] };
+    }
+    return this.policyValidator.validate(policy);
+  }
+
+  /**
+   * Register a named condition function that policies can reference.
+   * Register before setupPolicy so the policy's conditions validate against it.
+   */
+  registerConditionFunction(
+    name: string,
+    signature: ConditionSignature,
+    implementation: ConditionFunction,
+    replace: boolean = false
+  ): void {
+    this.conditionRegistry.register(name, signature, implementation, replace);
+    console.log(`🧩 Condition function registered: ${name}(${signature.params.join(', ')}) → ${signature.returns}`);
+  }
+
+  /**
+   * List registered condition functions and their signatures
+   */
+  listConditionFunctions(): Array<{ name: string } & ConditionSignature> {
+    return this.conditionRegistry.list();
+  }
+
+  /**
+   * Apply a policy to contract address through the configured engine backend and record the binding.
+   * A policyId pins that exact version; a policyName applies its active version.
+   */
+  async applyPolicy(policyReference: string, contractAddress: string, chainId?: string): Promise<boolean> {
+    try {
+      const policyId = this.resolvePolicyId(policyReference);
+      // The binding records the stored version, so check for it before anything is applied remotely
+      const record = this.policyStore.get(policyId);
+      if (!record) {
+        throw new Error(`Policy ${policyId} is not in the policy store, so its binding cannot be recorded; register it with setupPolicy first`);
       }
+      const policy = await this.loadPolicy(policyId);
+      const chain = this.resolveChainId(chainId);
 
-      console.log(`🎯 Applying policy ${policyId} to contract ${contractAddress}`);
+      console.log(`🎯 Applying policy ${policyId} to contract ${contractAddress} on chain ${chain}`);
       
-      // In production FORTE integration, this would call the actual FORTE API
-      // For demo, we simulate the policy application
-      const simulatedResult = await this.simulatePolicyApplication(policy, contractAddress);
+      const application = await this.engine.applyPolicy(policyId, contractAddress, chain);
 
-      if (simulatedResult.success) {
+      if (application.success) {
+        const binding = this.bindingLedger.apply(chain, contractAddress, record, this.wallet.address);
         console.log(`✅ Policy applied successfully`);
-        console.log(`📊 Active rules: ${simulatedResult.activeRules.length}/12`);
+        console.log(`📌 Contract bound to ${binding.policyName} v${binding.policyVersion} by ${binding.appliedBy}`);
+        console.log(`📊 Active rules: ${application.activeRules.length}/${policy.rules.length}`);
         return true;
       } else {
-        console.error(`❌ Policy application failed: ${simulatedResult.error}`);
+        console.error(`❌ Policy application failed: ${application.error}`);
         return false;
       }
     } catch (error) {
@@ -83,347 +197,253 @@ export class ForteSDKManager {
   }
 
   /**
-   * Check rules compliance for a transaction
+   * Detach a contract's policy; checkRulesForContract refuses the contract until it is re-applied
    */
-  async checkRules(policyId: string, transactionData: any): Promise<{
-    compliant: boolean;
-    passedRules: string[];
-    failedRules: string[];
-    warnings: string[];
-  }> {
-    const policy = this.policyRegistry.get(policyId);
-    if (!policy) {
-      throw new Error(`Policy ${policyId} not found`);
-    }
-
-    const result = {
-      compliant: true,
-      passedRules: [] as string[],
-      failedRules: [] as string[],
-      warnings: [] as string[]
-    };
+  unapplyPolicy(contractAddress: string, chainId?: string): PolicyBinding {
+    const binding = this.bindingLedger.unapply(this.resolveChainId(chainId), contractAddress, this.wallet.address);
+    console.log(`🔓 Policy ${binding.policyId} un-applied from ${contractAddress} on chain ${binding.chainId}`);
+    return binding;
+  }
 
-    console.log(`🔍 Checking ${policy.rules.length} FORTE rules...`);
-
-    for (const rule of policy.rules) {
-      try {
-        const ruleResult = await this.evaluateRule(rule, transactionData);
-        
-        if (ruleResult.passed) {
-          result.passedRules.push(rule.ruleId);
-          console.log(`✅ ${rule.ruleId}: ${rule.name} - PASSED`);
-        } else {
-          if (rule.action === 'DENY') {
-            result.failedRules.push(rule.ruleId);
-            result.compliant = false;
-            console.log(`❌ ${rule.ruleId}: ${rule.name} - FAILED (${ruleResult.reason})`);
-          } else if (rule.action === 'WARN') {
-            result.warnings.push(rule.ruleId);
-            console.log(`⚠️ ${rule.ruleId}: ${rule.name} - WARNING (${ruleResult.reason})`);
-          } else if (rule.action === 'ADJUST') {
-            result.warnings.push(rule.ruleId);
-            console.log(`🔧 ${rule.ruleId}: ${rule.name} - ADJUSTED (${ruleResult.reason})`);
-          }
-        }
-      } catch (error) {
-        result.failedRules.push(rule.ruleId);
-        result.compliant = false;
-        console.log(`💥 ${rule.ruleId}: ${rule.name} - ERROR (${error})`);
-      }
+  /**
+   * Re-apply the policy version a contract had before it was un-applied
+   */
+  async reapplyPolicy(contractAddress: string, chainId?: string): Promise<PolicyBinding> {
+    const chain = this.resolveChainId(chainId);
+    const binding = this.bindingLedger.get(chain, contractAddress);
+    if (!binding) {
+      throw new Error(`Contract ${contractAddress} on chain ${chain} has never had a policy applied`);
     }
 
-    console.log(`\n📊 Rules Summary:`);
-    console.log(`✅ Passed: ${result.passedRules.length}`);
-    console.log(`❌ Failed: ${result.failedRules.length}`);
-    console.log(`⚠️ Warnings: ${result.warnings.length}`);
-    console.log(`🎯 Overall Compliance: ${result.compliant ? 'COMPLIANT' : 'NON-COMPLIANT'}`);
+    const record = await this.applyBinding(binding.policyId, contractAddress, chain);
+    const reapplied = this.bindingLedger.reapply(chain, contractAddress, record, this.wallet.address);
+    console.log(`🔁 Policy ${reapplied.policyId} re-applied to ${contractAddress} on chain ${chain}`);
+    return reapplied;
+  }
 
-    return result;
+  /**
+   * Check rules compliance for a transaction against the exact version `policyId` names,
+   * or the active version when given a policyName.
+   * Raw data is normalized into a TransactionContext first; malformed fields throw.
+   * Every decision is appended to the audit trail.
+   */
+  async checkRules(policyReference: string, data: TransactionContextInput, options: RuleCheckOptions = {}): Promise<RuleCheckResult> {
+    return this.evaluateAndRecord(this.resolvePolicyId(policyReference), data, options);
   }
 
   /**
-   * Evaluate individual rule
+   * Check rules with whichever policy version is currently applied to the contract
    */
-  private async evaluateRule(rule: any, transactionData: any): Promise<{
-    passed: boolean;
-    reason?: string;
-  }> {
-    switch (rule.ruleId) {
-      case 'RULE_01': // Enhanced KYC + GLEIF
-        return this.evaluateRule01(transactionData);
-      case 'RULE_02': // Enhanced OFAC
-        return this.evaluateRule02(transactionData);
-      case 'RULE_03': // Cross-border sanctions
-        return this.evaluateRule03(transactionData);
-      case 'RULE_04': // GLEIF verification
-        return this.evaluateRule04(transactionData);
-      case 'RULE_05': // BPMN compliance
-        return this.evaluateRule05(transactionData);
-      case 'RULE_06': // ACTUS risk assessment
-        return this.evaluateRule06(transactionData);
-      case 'RULE_07': // DCSA documents
-        return this.evaluateRule07(transactionData);
-      case 'RULE_08': // Optimal fractions
-        return this.evaluateRule08(transactionData);
-      case 'RULE_09': // Metadata score
-        return this.evaluateRule09(transactionData);
-      case 'RULE_10': // Minimum fraction
-        return this.evaluateRule10(transactionData);
-      case 'RULE_11': // Liquidity optimization
-        return this.evaluateRule11(transactionData);
-      case 'RULE_12': // Enhanced metadata enforcement
-        return this.evaluateRule12(transactionData);
-      case 'RULE_13': // PYUSD peg verification  
-        return this.evaluateRule13(transactionData);
-      case 'RULE_14': // Cross-border PYUSD compliance
-        return this.evaluateRule14(transactionData);
-      default:
-        return { passed: false, reason: 'Unknown rule' };
+  async checkRulesForContract(
+    contractAddress: string,
+    data: TransactionContextInput,
+    options: RuleCheckOptions = {},
+    chainId?: string
+  ): Promise<RuleCheckResult> {
+    const chain = this.resolveChainId(chainId);
+    const binding = this.bindingLedger.get(chain, contractAddress);
+    if (!binding || binding.status !== 'ACTIVE') {
+      throw new Error(`Contract ${contractAddress} on chain ${chain} has no applied policy`);
     }
+    console.log(`📌 ${contractAddress} is governed by ${binding.policyName} v${binding.policyVersion} (${binding.policyId})`);
+    return this.evaluateAndRecord(binding.policyId, data, options, { chainId: chain, contractAddress: binding.contractAddress });
   }
 
-  // Rule evaluation implementations
-  private async evaluateRule01(data: any): Promise<{ passed: boolean; reason?: string }> {
-    if (!data.legalEntityIdentifier) {
-      return { passed: false, reason: 'Missing LEI' };
-    }
-    const gleifResult = await zkPretManager.verifyGLEIF(data.legalEntityIdentifier, data.corporateName);
-    return { 
-      passed: gleifResult.verified, 
-      reason: gleifResult.verified ? undefined : 'GLEIF verification failed' 
-    };
+  /**
+   * Recorded decisions matching every given filter (LEI, recipient, policy, contract, date range)
+   */
+  queryAuditTrail(query: AuditQuery = {}): AuditEntry[] {
+    return this.auditTrail.query(query);
   }
 
-  private async evaluateRule02(data: any): Promise<{ passed: boolean; reason?: string }> {
-    // Mock OFAC check - in production, integrate with real OFAC API
-    const sanctionedAddresses = ['0x1111111111111111111111111111111111111111'];
-    const isOnSanctionsList = sanctionedAddresses.includes(data.recipient?.toLowerCase());
-    return { 
-      passed: !isOnSanctionsList, 
-      reason: isOnSanctionsList ? 'Recipient on OFAC sanctions list' : undefined 
-    };
+  /**
+   * Recompute the audit trail hash chain to detect edited, removed or reordered decisions
+   */
+  verifyAuditTrail(): AuditVerification {
+    return this.auditTrail.verify();
   }
 
-  private async evaluateRule03(data: any): Promise<{ passed: boolean; reason?: string }> {
-    // Mock cross-border sanctions check
-    return { passed: true };
+  /**
+   * ZK PRET proof cache hit/miss statistics for this process
+   */
+  getProofCacheStats(): ProofCacheStats {
+    return zkPretManager.cacheStats();
   }
 
-  private async evaluateRule04(data: any): Promise<{ passed: boolean; reason?: string }> {
-    if (!data.legalEntityIdentifier || data.legalEntityIdentifier.length !== 20) {
-      return { passed: false, reason: 'Invalid LEI format' };
-    }
-    return { passed: true };
+  /**
+   * Direct and ultimate parents and all subsidiaries of an LEI, from the GLEIF Level 2 relationships
+   */
+  getCorporateGroup(lei: string): CorporateGroup {
+    return leiRelationships.group(lei);
   }
 
-  private async evaluateRule05(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const bpmnResult = await zkPretManager.verifyBPMNCompliance(data.assetDescription, data.assetDescription);
-    return { 
-      passed: bpmnResult.verified, 
-      reason: bpmnResult.verified ? undefined : 'BPMN compliance verification failed' 
-    };
+  /**
+   * ACTUS cash-flow projection and risk/liquidity scores for an asset
+   */
+  analyzeAsset(data: TransactionContextInput): ACTUSRiskAnalysis {
+    return analyzeACTUSContract(normalizeTransactionContext(data));
   }
 
-  private async evaluateRule06(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const actusResult = await zkPretManager.assessACTUSRisk(data);
-    return { 
-      passed: (actusResult.score || 999) <= 500, 
-      reason: (actusResult.score || 999) > 500 ? `Risk score too high: ${actusResult.score}` : undefined 
-    };
+  /**
+   * Recommended fraction structure and trade-off curve for an asset under a policy's fraction settings
+   */
+  async optimizeFractions(data: TransactionContextInput, policyPath: string = 'policies/institutional-rwa-complete.json'): Promise<FractionOptimization> {
+    const policy = JSON.parse(await fs.readFile(policyPath, 'utf-8'));
+    const asset = normalizeTransactionContext(data);
+    return optimizeFractions(asset.principalAmount || 0, fractionSettingsFromPolicy(policy, asset));
   }
 
-  private async evaluateRule07(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const dcsaResult = await zkPretManager.verifyDCSADocuments(data.documentHash, data.tradeDocuments || []);
-    return { 
-      passed: dcsaResult.verified, 
-      reason: dcsaResult.verified ? undefined : 'DCSA document verification failed' 
-    };
+  /**
+   * Compare a policy's metadata thresholds with the on-chain getMinimumMetadataScore
+   */
+  async checkMetadataThresholdParity(policyPath: string, soliditySourcePath: string = 'src/InstitutionalAssetParams.sol'): Promise<MetadataThresholdParity> {
+    const policy = JSON.parse(await fs.readFile(policyPath, 'utf-8'));
+    return metadataThresholdParity(policy.complianceThresholds?.metadataScore, await fs.readFile(soliditySourcePath, 'utf-8'));
   }
 
-  private async evaluateRule08(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const fractionParams = zkPretManager.calculateOptimalFractions(data.principalAmount, data.assetType);
-    const isOptimal = fractionParams.optimalCount >= 10 && fractionParams.optimalCount <= 10000;
-    return { 
-      passed: isOptimal, 
-      reason: isOptimal ? undefined : `Suboptimal fraction count: ${fractionParams.optimalCount}` 
-    };
+  /**
+   * Registered versions of a policy, oldest first
+   */
+  getPolicyHistory(policyName: string): PolicyVersionRecord[] {
+    return this.policyStore.history(policyName);
   }
 
-  private async evaluateRule09(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const metadataScore = await zkPretManager.calculateMetadataScore(data);
-    return { 
-      passed: metadataScore.totalScore >= 70, 
-      reason: metadataScore.totalScore < 70 ? `Metadata score too low: ${metadataScore.totalScore}/100` : undefined 
-    };
+  /**
+   * Version currently in force for a policy name (latest unless rolled back)
+   */
+  getActivePolicy(policyName: string): PolicyVersionRecord | undefined {
+    return this.policyStore.getActive(policyName);
   }
 
-  private async evaluateRule10(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const minimumSize = 500; // $500 minimum
-    const transferAmount = data.transferAmount || data.minimumFractionSize || 0;
-    return { 
-      passed: transferAmount >= minimumSize, 
-      reason: transferAmount < minimumSize ? `Transfer below minimum: $${transferAmount}` : undefined 
-    };
+  /**
+   * Rule-level differences between two stored policy versions
+   */
+  diffPolicies(fromPolicyId: string, toPolicyId: string): PolicyDiff {
+    return this.policyStore.diff(fromPolicyId, toPolicyId);
   }
 
-  private async evaluateRule11(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const totalFractions = data.totalFractions || 0;
-    const inOptimalRange = totalFractions >= 100 && totalFractions <= 5000;
-    return { 
-      passed: true, // Warning only rule
-      reason: inOptimalRange ? undefined : `Fraction count ${totalFractions} outside optimal liquidity range` 
-    };
+  /**
+   * Policy version bound to a contract, i.e. the version that approves its transfers
+   */
+  getContractPolicy(contractAddress: string, chainId?: string): (PolicyBinding & { record: PolicyVersionRecord }) | undefined {
+    const binding = this.bindingLedger.get(this.resolveChainId(chainId), contractAddress);
+    const record = binding && this.policyStore.get(binding.policyId);
+    return binding && record ? { ...binding, record } : undefined;
   }
 
-  private async evaluateRule12(data: any): Promise<{ passed: boolean; reason?: string }> {
-    const thresholdCheck = await zkPretManager.checkMetadataThreshold(data);
-    return { 
-      passed: thresholdCheck.meetsThreshold, 
-      reason: thresholdCheck.meetsThreshold ? undefined : `Metadata score ${thresholdCheck.currentScore} below required ${thresholdCheck.requiredScore}` 
-    };
+  /**
+   * Apply, un-apply, re-apply and rollback events for a contract, oldest first
+   */
+  getContractBindingHistory(contractAddress: string, chainId?: string): BindingEvent[] {
+    return this.bindingLedger.history(this.resolveChainId(chainId), contractAddress);
   }
 
-  private async evaluateRule13(data: any): Promise<{ passed: boolean; reason?: string }> {
-    // PYUSD Stablecoin Peg Verification
-    const pyusdAmount = data.pyusdAmount || data.principalAmount || 0;
-    
-    // Mock PYUSD peg check - in production, integrate with Paxos API or price oracles
-    const pyusdPegPrice = 1.001; // Simulated current PYUSD price in USD
-    const pegStable = pyusdPegPrice >= 0.995 && pyusdPegPrice <= 1.005;
-    
-    // Check Paxos reserves (mock) - in production, verify through Paxos reserve reports
-    const sufficientReserves = pyusdAmount <= 50000000; // Mock $50M liquidity limit
-    
-    // Check PYUSD liquidity for institutional trades
-    const meetsMininumLiquidity = pyusdAmount >= 1000000; // $1M minimum for institutional
-    
-    if (!pegStable) {
-      return { passed: false, reason: `PYUSD peg unstable: ${pyusdPegPrice} (outside 0.995-1.005 range)` };
-    }
-    
-    if (!sufficientReserves) {
-      return { passed: false, reason: `PYUSD amount ${pyusdAmount} exceeds available liquidity` };
-    }
-    
-    if (!meetsMininumLiquidity) {
-      return { passed: false, reason: `PYUSD amount ${pyusdAmount} below institutional minimum $1M` };
-    }
-    
-    return { passed: true };
-  }
-
-  private async evaluateRule14(data: any): Promise<{ passed: boolean; reason?: string }> {
-    // Cross-Border PYUSD Settlement Compliance
-    const buyerCountry = data.buyerCountry || 'US';
-    const sellerCountry = data.sellerCountry || 'US';
-    const pyusdAmount = data.pyusdAmount || data.principalAmount || 0;
-    
-    // FATF compliant countries for PYUSD cross-border
-    const supportedCountries = ['US', 'GB', 'DE', 'JP', 'IN', 'SG', 'CA', 'AU', 'FR', 'IT', 'ES', 'NL'];
-    const restrictedCountries = ['IR', 'KP', 'CU', 'SY', 'AF']; // Sanctions list
-    
-    // Check if both countries support PYUSD cross-border
-    if (!supportedCountries.includes(buyerCountry) || !supportedCountries.includes(sellerCountry)) {
-      return { 
-        passed: false, 
-        reason: `PYUSD cross-border not supported for ${buyerCountry} ↔ ${sellerCountry}` 
-      };
-    }
-    
-    // Check restricted countries
-    if (restrictedCountries.includes(buyerCountry) || restrictedCountries.includes(sellerCountry)) {
-      return { 
-        passed: false, 
-        reason: `PYUSD cross-border restricted for ${buyerCountry} ↔ ${sellerCountry}` 
-      };
+  /**
+   * Contracts currently bound to a policy version
+   */
+  listPolicyBindings(policyId: string): PolicyBinding[] {
+    return this.bindingLedger.list({ policyId, status: 'ACTIVE' });
+  }
+
+  /**
+   * Re-apply a policy version a contract was bound to earlier: `toPolicyId`, or the one before its current one
+   */
+  async rollbackContractPolicy(contractAddress: string, chainId?: string, toPolicyId?: string): Promise<PolicyBinding> {
+    const chain = this.resolveChainId(chainId);
+    const previousId = toPolicyId ?? this.bindingLedger.previousPolicyId(chain, contractAddress);
+    if (!previousId) {
+      throw new Error(`Contract ${contractAddress} on chain ${chain} has no earlier policy to roll back to`);
     }
-    
-    // Check cross-border amount limits (varies by country pair)
-    const maxCrossBorderAmount = this.getCrossBorderLimit(buyerCountry, sellerCountry);
-    if (pyusdAmount > maxCrossBorderAmount) {
-      return { 
-        passed: false, 
-        reason: `PYUSD amount ${pyusdAmount} exceeds cross-border limit ${maxCrossBorderAmount} for ${buyerCountry} ↔ ${sellerCountry}` 
-      };
+    if (!this.bindingLedger.wasBoundTo(chain, contractAddress, previousId)) {
+      throw new Error(`Contract ${contractAddress} on chain ${chain} was never bound to ${previousId}`);
     }
-    
-    // India-specific compliance checks
-    if (buyerCountry === 'IN' || sellerCountry === 'IN') {
-      // RBI (Reserve Bank of India) compliance for digital currency transactions
-      const indiaCompliant = this.checkIndiaRBICompliance(pyusdAmount);
-      if (!indiaCompliant.compliant) {
-        return { passed: false, reason: indiaCompliant.reason };
-      }
+
+    const record = await this.applyBinding(previousId, contractAddress, chain);
+    const binding = this.bindingLedger.rollback(chain, contractAddress, record, this.wallet.address);
+    console.log(`⏪ Contract ${contractAddress} rolled back to ${binding.policyId}`);
+    return binding;
+  }
+
+  /**
+   * Make an earlier version the active version of a policy
+   */
+  rollbackPolicy(policyName: string, toPolicyId?: string): PolicyVersionRecord {
+    const record = this.policyStore.rollbackPolicy(policyName, toPolicyId);
+    console.log(`⏪ ${policyName} active version is now #${record.sequence} (${record.policyId})`);
+    return record;
+  }
+
+  /**
+   * Make a stored policy available to the engine, e.g. after a process restart
+   */
+  private async loadPolicy(policyId: string): Promise<any> {
+    const loaded = this.engine.getPolicy(policyId);
+    if (loaded) return loaded;
+
+    const record = this.policyStore.get(policyId);
+    if (!record) {
+      throw new Error(`Policy ${policyId} not found`);
     }
-    
-    return { passed: true };
-  }
-  
-  private getCrossBorderLimit(buyerCountry: string, sellerCountry: string): number {
-    // Mock cross-border limits - in production, integrate with regulatory APIs
-    const countryPairLimits: { [key: string]: number } = {
-      'US-GB': 100000000,  // $100M
-      'US-DE': 100000000,  // $100M  
-      'US-JP': 75000000,   // $75M
-      'US-IN': 50000000,   // $50M (RBI limits)
-      'US-SG': 100000000,  // $100M
-      'GB-DE': 100000000,  // $100M
-      'DE-JP': 75000000,   // $75M
-      'default': 25000000  // $25M default
-    };
-    
-    const key1 = `${buyerCountry}-${sellerCountry}`;
-    const key2 = `${sellerCountry}-${buyerCountry}`;
-    
-    return countryPairLimits[key1] || countryPairLimits[key2] || countryPairLimits['default'];
-  }
-  
-  private checkIndiaRBICompliance(pyusdAmount: number): { compliant: boolean; reason?: string } {
-    // Reserve Bank of India specific compliance for digital currency cross-border transactions
-    
-    // RBI has specific limits and requirements for digital currency transactions
-    const rbiMaxLimit = 50000000; // $50M annual limit per entity
-    const rbiMinReporting = 1000000; // $1M reporting threshold
-    
-    if (pyusdAmount > rbiMaxLimit) {
-      return { 
-        compliant: false, 
-        reason: `PYUSD amount ${pyusdAmount} exceeds RBI annual limit ${rbiMaxLimit}` 
-      };
+    await this.engine.registerPolicy(record.policy, policyId);
+    return record.policy;
+  }
+
+  private async evaluateAndRecord(
+    policyId: string,
+    data: TransactionContextInput,
+    options: RuleCheckOptions,
+    contract?: { chainId: string; contractAddress: string }
+  ): Promise<RuleCheckResult> {
+    const transactionData = normalizeTransactionContext(data);
+    await this.loadPolicy(policyId);
+    const cacheBefore = zkPretManager.cacheStats();
+    const result = await this.engine.checkRules(policyId, transactionData, options);
+    const cacheAfter = zkPretManager.cacheStats();
+    console.log(`🗄️ ZK PRET proofs: ${cacheAfter.misses - cacheBefore.misses} verified, ${cacheAfter.hits - cacheBefore.hits} reused from cache`);
+
+    const entry = this.auditTrail.append({ backend: this.engine.backend, policyId, transaction: transactionData, result, contract });
+    console.log(`🧾 Audit entry #${entry.sequence} recorded (${entry.hash.slice(0, 16)}…)`);
+    return result;
+  }
+
+  /**
+   * Push a stored policy version to the engine for a contract, failing if the backend rejects it
+   */
+  private async applyBinding(policyId: string, contractAddress: string, chainId: string): Promise<PolicyVersionRecord> {
+    await this.loadPolicy(policyId);
+    const application = await this.engine.applyPolicy(policyId, contractAddress, chainId);
+    if (!application.success) {
+      throw new Error(`Applying ${policyId} to ${contractAddress} failed: ${application.error}`);
     }
-    
-    if (pyusdAmount >= rbiMinReporting) {
-      // In production, verify additional RBI reporting requirements are met
-      // For demo, we assume compliance
-      console.log(`RBI reporting required for PYUSD amount: ${pyusdAmount}`);
+    return this.policyStore.get(policyId);
+  }
+
+  /**
+   * A stored policyId is used exactly as given; a policyName resolves to its active version (latest unless rolled back).
+   * IDs the store does not know, e.g. policies registered only with FORTE Cloud, are used as given.
+   */
+  private resolvePolicyId(policyReference: string): string {
+    const record = this.policyStore.resolve(policyReference);
+    if (record && record.policyId !== policyReference) {
+      console.log(`📋 ${policyReference} active version is #${record.sequence} (${record.policyId})`);
     }
-    
-    return { compliant: true };
+    return record ? record.policyId : policyReference;
   }
 
-  // Helper methods
-  private generatePolicyId(policy: any): string {
-    return `POLICY_${Date.now()}_${policy.policyName.replace(/\s+/g, '_').toUpperCase()}`;
+  /** Bindings are per chain; without an explicit chain use FORTE_CHAIN_ID, else the local Anvil chain */
+  private resolveChainId(chainId?: string): string {
+    return chainId || process.env.FORTE_CHAIN_ID || '31337';
   }
 
+  // Helper methods
   private async initializeZKPretIntegrations(integrations: any): Promise<void> {
-    console.log('🔗 Initializing ZK PRET integrations...');
-    for (const [key, config] of Object.entries(integrations)) {
-      console.log(`  📎 ${key}: ${(config as any).verifierPath}`);
+    console.log(`🔗 Initializing ZK PRET integrations (${zkPretManager.mode} mode)...`);
+    zkPretManager.configureVerifiers(integrations);
+    for (const key of Object.keys(integrations)) {
+      const status = zkPretManager.verifierStatus(key as ZKPretVerifierType);
+      console.log(`  📎 ${key}: ${status.verifierPath} → ${status.source === 'process' ? 'verifier process' : 'mock fallback'}`);
     }
   }
-
-  private async simulatePolicyApplication(policy: any, contractAddress: string): Promise<{
-    success: boolean;
-    activeRules: string[];
-    error?: string;
-  }> {
-    // Simulate FORTE policy application
-    return {
-      success: true,
-      activeRules: policy.rules.map((r: any) => r.ruleId)
-    };
-  }
 }
 
 // CLI execution
@@ -435,8 +455,18 @@ if (process.argv[1] === new URL(import.meta.url).pathname.replace(/\\/g, '/')) {
     sdk.setupPolicy(args[1]).then(policyId => {
       console.log(`Policy ID: ${policyId}`);
     }).catch(console.error);
+  } else if (args[0] === 'validatePolicy') {
+    const policyPath = args[1] || 'policies/institutional-rwa-complete.json';
+    sdk.validatePolicy(policyPath).then(result => {
+      console.log(`🔎 Validating FORTE policy: ${policyPath}`);
+      result.errors.forEach(issue => console.log(`❌ ${issue.path}: ${issue.message}`));
+      result.warnings.forEach(issue => console.log(`⚠️ ${issue.path}: ${issue.message}`));
+      console.log(`\n📊 Errors: ${result.errors.length}, Warnings: ${result.warnings.length}`);
+      console.log(`🎯 Policy ${result.valid ? 'VALID' : 'INVALID'}`);
+      if (!result.valid) process.exitCode = 1;
+    }).catch(console.error);
   } else if (args[0] === 'applyPolicy') {
-    sdk.applyPolicy(args[1], args[2]).then(success => {
+    sdk.applyPolicy(args[1], args[2], args[3]).then(success => {
       console.log(`Policy application: ${success ? 'SUCCESS' : 'FAILED'}`);
     }).catch(console.error);
   } else if (args[0] === 'checkRules') {
@@ -451,23 +481,130 @@ if (process.argv[1] === new URL(import.meta.url).pathname.replace(/\\/g, '/')) {
       interestRate: 850,
       creditRating: "BBB",
       assetDescription: "90-day supplier invoice from verified vendor",
-      documentHash: "0x1234567890abcdef",
-      tradeDocuments: ["invoice_001.pdf", "bill_of_lading.pdf"],
+      documentHash: "0x6571b7ae9c7299bbed30c2b5174d411b0cbb13fd30499233090d31e74a7ce3c5", // Hash of the DCSA eBL and booking in fixtures/dcsa
+      tradeDocuments: ["apple-ebl-DEHAM-USLAX.json", "apple-booking-DEHAM-USLAX.json", "invoice_001.pdf"],
+      processEvents: ["Create Purchase Order", "Ship Goods", "Issue Invoice"],
       totalFractions: 5000,
       minimumFractionSize: 1000,
       transferAmount: 1000,
       recipient: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
       buyerCountry: "US", // Added for cross-border PYUSD rules
-      sellerCountry: "IN"  // Added India example
+      sellerCountry: "DE"  // Matches the eBL's port of loading
+    };
+
+    const options: RuleCheckOptions = {
+      mode: args.includes('--stop-on-critical') ? 'stopOnCriticalDeny' : 'exhaustive',
+      order: args.includes('--priority-order') ? 'priority' : 'ruleChain'
     };
 
     sdk.setupPolicy('policies/institutional-rwa-complete.json').then(policyId => {
-      return sdk.checkRules(policyId, demoData);
+      return sdk.checkRules(policyId, demoData, options);
     }).then(result => {
       console.log('\n🎯 Final Result:', result.compliant ? 'COMPLIANT' : 'NON-COMPLIANT');
     }).catch(console.error);
+  } else if (args[0] === 'policyHistory') {
+    const history = sdk.getPolicyHistory(args[1]);
+    console.log(`🗂️ ${args[1]}: ${history.length} version(s)`);
+    const active = history.length > 0 ? sdk.getActivePolicy(args[1])?.policyId : undefined;
+    history.forEach(record => console.log(`  #${record.sequence} ${record.policyId} v${record.policyVersion} ${record.registeredAt}${record.policyId === active ? ' (active)' : ''}`));
+  } else if (args[0] === 'diffPolicies') {
+    console.log(JSON.stringify(sdk.diffPolicies(args[1], args[2]), null, 2));
+  } else if (args[0] === 'contractPolicy') {
+    const bound = sdk.getContractPolicy(args[1], args[2]);
+    console.log(bound
+      ? `📌 ${args[1]} → ${bound.policyId} (${bound.record.policyName} v${bound.record.policyVersion}, ${bound.status}, applied ${bound.appliedAt} by ${bound.appliedBy})`
+      : `📌 ${args[1]} has no policy binding`);
+    sdk.getContractBindingHistory(args[1], args[2])
+      .forEach(event => console.log(`  ${event.timestamp} ${event.type} ${event.policyId} by ${event.wallet}`));
+  } else if (args[0] === 'unapplyPolicy') {
+    try {
+      sdk.unapplyPolicy(args[1], args[2]);
+    } catch (error) {
+      console.error(error);
+    }
+  } else if (args[0] === 'reapplyPolicy') {
+    sdk.reapplyPolicy(args[1], args[2]).catch(console.error);
+  } else if (args[0] === 'rollbackContract') {
+    sdk.rollbackContractPolicy(args[1], args[2], args[3]).catch(console.error);
+  } else if (args[0] === 'verifyAudit') {
+    const verification = sdk.verifyAuditTrail();
+    if (verification.valid) {
+      console.log(`✅ Audit trail intact: ${verification.entries} entries, head ${verification.headHash}`);
+    } else {
+      console.log(`❌ Audit trail broken at entry ${verification.brokenAt}: ${verification.reason}`);
+      console.log(`   ${verification.entries} entries verified before the break`);
+      process.exitCode = 1;
+    }
+  } else if (args[0] === 'queryAudit') {
+    // e.g. queryAudit --lei HWUPKR0MPOU8FGXBT394 --from 2025-01-01 --to 2025-12-31
+    const flag = (name: string) => {
+      const index = args.indexOf(`--${name}`);
+      return index >= 0 ? args[index + 1] : undefined;
+    };
+    const entries = sdk.queryAuditTrail({
+      lei: flag('lei'),
+      recipient: flag('recipient'),
+      policyId: flag('policy'),
+      contractAddress: flag('contract'),
+      from: flag('from'),
+      to: flag('to')
+    });
+    console.log(`🧾 ${entries.length} matching decision(s)`);
+    entries.forEach(entry => console.log(
+      `  #${entry.sequence} ${entry.recordedAt} ${entry.compliant ? 'COMPLIANT' : 'NON-COMPLIANT'} ${entry.policyId}` +
+      `${entry.failedRules.length > 0 ? ` failed: ${entry.failedRules.join(', ')}` : ''}`
+    ));
+  } else if (args[0] === 'corporateGroup') {
+    const group = sdk.getCorporateGroup(args[1]);
+    const describe = (member: { lei: string; record?: { legalName: string; country?: string } }) =>
+      `${member.lei} ${member.record ? `${member.record.legalName} (${member.record.country || '??'})` : '(not in golden copy)'}`;
+    console.log(`🏢 ${describe(group)}`);
+    group.parents.forEach((parent, index) => console.log(
+      `  ${'  '.repeat(index)}↑ ${describe(parent)}${parent.lei === group.ultimateParent?.lei ? ' [ultimate parent]' : ''}`
+    ));
+    console.log(`  ${group.subsidiaries.length} subsidiar${group.subsidiaries.length === 1 ? 'y' : 'ies'}`);
+    group.subsidiaries.forEach(subsidiary => console.log(`  ↓ ${describe(subsidiary)}`));
+  } else if (args[0] === 'actusAnalysis') {
+    const analysis = sdk.analyzeAsset(JSON.parse(await fs.readFile(args[1], 'utf-8')));
+    const { terms } = analysis;
+    console.log(`📈 ACTUS ${terms.contractType}: $${terms.notionalPrincipal.toLocaleString()} at ${(terms.nominalInterestRate * 100).toFixed(2)}% for ${terms.maturityDays} days (${terms.creditRating})`);
+    analysis.events.forEach(event => console.log(
+      `  day ${String(event.day).padStart(5)}  ${event.type.padEnd(3)} ${event.payoff.toFixed(2).padStart(16)}  outstanding ${event.nominalValue.toFixed(2)}`
+    ));
+    console.log(`  Duration ${analysis.durationYears}y, WAL ${analysis.weightedAverageLifeYears}y, concentration ${analysis.cashFlowConcentration}`);
+    console.log(`  Cumulative PD ${(analysis.cumulativeDefaultProbability * 100).toFixed(3)}%, expected loss $${analysis.expectedLoss.toLocaleString()}`);
+    console.log(`  📊 Risk score ${analysis.riskScore}/1000, liquidity score ${analysis.liquidityScore}/1000`);
+  } else if (args[0] === 'optimizeFractions') {
+    const policyPath = args[2] && args[2] !== '--csv' ? args[2] : undefined;
+    const result = await sdk.optimizeFractions(JSON.parse(await fs.readFile(args[1], 'utf-8')), policyPath);
+    const columns: (keyof typeof result.curve[number])[] = [
+      'totalFractions', 'fractionSize', 'holders', 'subscription', 'placedAmount', 'transferCostShare', 'distributionCost', 'expectedLiquidity', 'inSweetSpot'
+    ];
+    if (args.includes('--csv')) {
+      console.log(columns.join(','));
+      result.curve.forEach(candidate => console.log(columns.map(column => candidate[column]).join(',')));
+    } else {
+      console.log(`🧮 ${result.totalFractions} fractions of $${result.minimumFractionSize.toLocaleString()}, max holding $${result.maximumSize.toLocaleString()} (${result.reason})`);
+      if (result.residual > 0) console.log(`  ⚠️ $${result.residual.toLocaleString()} of principal is not covered by whole fractions`);
+      console.log(`  ~${result.holders} holders, ${result.subscription}x subscribed, expected liquidity $${result.expectedLiquidity.toLocaleString()}/yr`);
+      result.curve.forEach(candidate => console.log(
+        `  ${candidate.totalFractions === result.totalFractions ? '→' : ' '} ${String(candidate.totalFractions).padStart(6)} × $${candidate.fractionSize.toLocaleString().padEnd(10)}`
+        + ` ${String(candidate.holders).padStart(6)} holders  cost ${(candidate.transferCostShare * 100).toFixed(4)}%`
+        + `  liquidity $${candidate.expectedLiquidity.toLocaleString()}${candidate.inSweetSpot ? '' : '  (outside sweet spot)'}`
+      ));
+    }
+  } else if (args[0] === 'metadataThresholdParity') {
+    const policyPath = args[1] || 'policies/institutional-rwa-complete.json';
+    const parity = await sdk.checkMetadataThresholdParity(policyPath, args[2]);
+    console.log(`⚖️ Metadata thresholds in ${policyPath} vs getMinimumMetadataScore (${parity.checked} asset type/principal cases)`);
+    parity.mismatches.forEach(mismatch => console.log(
+      `❌ ${mismatch.assetType} at $${mismatch.principalAmount.toLocaleString()}: policy ${mismatch.typescript}, Solidity ${mismatch.solidity}`
+    ));
+    parity.offChainOnly.forEach(name => console.log(`⚠️ "${name}" adjusts by jurisdiction or rating, which the contract does not enforce`));
+    console.log(`🎯 ${parity.inParity ? 'IN PARITY' : 'OUT OF PARITY'}`);
+    if (!parity.inParity) process.exitCode = 1;
   } else {
-    console.log('Usage: tsx sdk.ts [setupPolicy|applyPolicy|checkRules] [args...]');
+    console.log('Usage: tsx sdk.ts [setupPolicy|validatePolicy|applyPolicy|checkRules|policyHistory|diffPolicies|contractPolicy|unapplyPolicy|reapplyPolicy|rollbackContract|verifyAudit|queryAudit|corporateGroup|actusAnalysis|optimizeFractions|metadataThresholdParity] [args...]');
   }
 }
 
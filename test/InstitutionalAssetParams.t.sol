@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../src/InstitutionalAssetParams.sol";
+
+/**
+ * @title InstitutionalAssetParamsTest
+ * @dev Runs getMinimumMetadataScore at the principal tier boundaries of the policy's
+ *      complianceThresholds.metadataScore table; checks/metadata-thresholds.test.ts asserts
+ *      the same table against policies/institutional-rwa-complete.json
+ */
+contract InstitutionalAssetParamsTest is Test {
+    // Whole USD: either side of the $1M, $5M and $10M tiers
+    uint256[7] internal tierBoundaries = [uint256(0), 999_999, 1_000_000, 4_999_999, 5_000_000, 9_999_999, 10_000_000];
+
+    function minimumScore(InstitutionalAssetParams.AssetType assetType, uint256 principalInUSD) internal pure returns (uint8) {
+        return InstitutionalAssetParams.getMinimumMetadataScore(assetType, principalInUSD * 1e18);
+    }
+
+    function assertTiers(InstitutionalAssetParams.AssetType assetType, uint8[7] memory expected) internal {
+        for (uint256 i = 0; i < tierBoundaries.length; i++) {
+            assertEq(
+                minimumScore(assetType, tierBoundaries[i]),
+                expected[i],
+                string.concat("minimum metadata score at $", vm.toString(tierBoundaries[i]))
+            );
+        }
+    }
+
+    function testUnadjustedAssetTypesFollowPrincipalTiers() public {
+        uint8[7] memory expected = [70, 70, 75, 75, 85, 85, 95];
+        assertTiers(InstitutionalAssetParams.AssetType.SUPPLY_CHAIN_INVOICE, expected);
+        assertTiers(InstitutionalAssetParams.AssetType.EQUIPMENT_FINANCE, expected);
+        assertTiers(InstitutionalAssetParams.AssetType.WORKING_CAPITAL, expected);
+        assertTiers(InstitutionalAssetParams.AssetType.COMMERCIAL_REAL_ESTATE, expected);
+        assertTiers(InstitutionalAssetParams.AssetType.CORPORATE_BONDS, expected);
+    }
+
+    function testTradeFinanceAddsThree() public {
+        assertTiers(InstitutionalAssetParams.AssetType.TRADE_FINANCE, [73, 73, 78, 78, 88, 88, 98]);
+    }
+
+    function testStructuredProductsAddFiveUpToTheCap() public {
+        assertTiers(InstitutionalAssetParams.AssetType.STRUCTURED_PRODUCTS, [75, 75, 80, 80, 90, 90, 100]);
+    }
+
+    function testFractionsOfADollarRoundDown() public {
+        assertEq(
+            InstitutionalAssetParams.getMinimumMetadataScore(InstitutionalAssetParams.AssetType.SUPPLY_CHAIN_INVOICE, 1_000_000e18 - 1),
+            70
+        );
+    }
+}
@@ -1,97 +1,227 @@
 /**
  * ZK PRET Integration Layer for Institutional RWA Platform
- * Mock implementation for demo purposes (replace with actual ZK PRET integration)
+ * Verifications run the policy's configured ZK PRET verifier scripts through ZKPretVerifierBridge,
+ * with the built-in simulations kept as a selectable fallback (FORTE_ZKPRET_MODE)
  */
 
+import type { TransactionContext } from '../forte-engine/TransactionContext.ts';
+import { gleifRegistry } from '../forte-engine/GLEIFRegistry.ts';
+import { analyzeACTUSContract, DEFAULT_MAXIMUM_RISK_SCORE } from '../forte-engine/ACTUSEngine.ts';
+import { dcsaDocuments } from '../forte-engine/DCSADocuments.ts';
+import type { DCSARequirements } from '../forte-engine/DCSADocuments.ts';
+import { bpmnConformance, DEFAULT_MINIMUM_FITNESS } from '../forte-engine/BPMNConformance.ts';
+import { resolveScoringModel, scoreComponent } from '../forte-engine/MetadataScoring.ts';
+import type { MetadataComponent, MetadataComponentScore, MetadataScoringModel } from '../forte-engine/MetadataScoring.ts';
+import { resolveMetadataThreshold } from '../forte-engine/MetadataThresholds.ts';
+import { optimizeFractions } from '../forte-engine/FractionOptimizer.ts';
+import type { FractionOptimization, FractionOptimizationSettings } from '../forte-engine/FractionOptimizer.ts';
+import type { MetadataScorePolicy } from '../forte-engine/MetadataThresholds.ts';
+import { ZKPretVerifierBridge } from './ZKPretVerifierBridge.ts';
+import type { ZKPretVerifierConfig } from './ZKPretVerifierBridge.ts';
+import { ZKProofCache } from './ZKProofCache.ts';
+import type { ProofCacheStats } from './ZKProofCache.ts';
+
 export interface ZKPretVerificationResult {
   verified: boolean;
   score?: number;
   proof?: string;
   timestamp: number;
   error?: string;
+  /** Whether a verifier process or the built-in simulation produced the result */
+  source?: 'process' | 'mock';
+}
+
+export type ZKPretVerifierType = 'GLEIF' | 'BPMN' | 'ACTUS' | 'DCSA';
+
+/**
+ * Reference to a ZK PRET proof used as evidence in a rule decision
+ */
+export interface ZKProofReference {
+  verifier: ZKPretVerifierType;
+  proof: string;
+  verified: boolean;
+  score?: number;
+  timestamp: number;
+  source?: 'process' | 'mock';
 }
 
+/**
+ * How verifications are produced (FORTE_ZKPRET_MODE): `process` runs the configured verifier
+ * scripts, `mock` uses the built-in simulations, and `auto` (default) runs a verifier when its
+ * script exists and falls back to the simulation otherwise
+ */
+export type ZKPretMode = 'auto' | 'process' | 'mock';
+
 export class ZKPretIntegrationManager {
   private basePath: string;
+  private bridge: ZKPretVerifierBridge;
+  private configuredMode: ZKPretMode | undefined;
+  readonly proofCache: ZKProofCache;
 
-  constructor(basePath: string = '../clonetest/zk-pret-test-v3.5') {
+  constructor(
+    basePath: string = '../clonetest/zk-pret-test-v3.5',
+    bridge: ZKPretVerifierBridge = new ZKPretVerifierBridge(),
+    mode?: ZKPretMode,
+    proofCache: ZKProofCache = new ZKProofCache()
+  ) {
     this.basePath = basePath;
+    this.bridge = bridge;
+    this.configuredMode = mode;
+    this.proofCache = proofCache;
+  }
+
+  get mode(): ZKPretMode {
+    const mode = this.configuredMode || process.env.FORTE_ZKPRET_MODE || 'auto';
+    if (!['auto', 'process', 'mock'].includes(mode)) {
+      throw new Error(`Unknown ZK PRET mode "${mode}" (expected auto, process or mock)`);
+    }
+    return mode as ZKPretMode;
+  }
+
+  /**
+   * Register the verifier scripts from a policy's zkPretIntegrations block
+   */
+  configureVerifiers(integrations: { [type: string]: ZKPretVerifierConfig }): void {
+    this.bridge.configure(integrations);
+    // Proofs from previously configured verifiers must not be reused
+    this.proofCache.clear();
+  }
+
+  /**
+   * Proof cache hit/miss counters since the cache was created or last cleared
+   */
+  cacheStats(): ProofCacheStats {
+    return this.proofCache.stats();
+  }
+
+  /**
+   * Where each verification type would currently be served from
+   */
+  verifierStatus(type: ZKPretVerifierType): { source: 'process' | 'mock'; verifierPath?: string } {
+    const verifierPath = this.bridge.verifierPath(type);
+    const useProcess = this.mode === 'process' || (this.mode === 'auto' && this.bridge.isAvailable(type));
+    return { source: useProcess ? 'process' : 'mock', verifierPath };
   }
 
   /**
    * GLEIF LEI Verification Integration (Rules 1, 4)
-   * Mock implementation - replace with actual ZK PRET verification
+   * The LEI is checked against ISO 17442 and the local GLEIF golden copy before a proof is requested
    */
   async verifyGLEIF(lei: string, corporateName: string): Promise<ZKPretVerificationResult> {
-    // Mock GLEIF verification
-    const verified = lei.length === 20 && !lei.includes('INVALID');
-    
-    return {
-      verified,
-      score: verified ? 100 : 0,
-      proof: verified ? 'mock-gleif-proof-' + Date.now() : '',
+    const verification = gleifRegistry.verify(lei, corporateName);
+    if (!verification.verified) {
+      return { verified: false, score: 0, proof: '', timestamp: Date.now(), error: verification.reason };
+    }
+
+    const result = await this.prove('GLEIF', { lei: verification.lei, corporateName, record: verification.record }, () => ({
+      verified: true,
+      score: 100,
+      proof: 'mock-gleif-proof-' + Date.now(),
       timestamp: Date.now()
-    };
+    }));
+    return { ...result, score: result.score ?? (result.verified ? 100 : 0) };
   }
 
   /**
    * BPMN Business Process Verification (Rule 5)
-   * Mock implementation - replace with actual ZK PRET verification
+   * The asset's process events are checked against its reference model; the verifier proves the conformance result.
    */
-  async verifyBPMNCompliance(processDefinition: string, assetDescription: string): Promise<ZKPretVerificationResult> {
-    // Mock BPMN verification
-    const verified = assetDescription.length > 10 && !assetDescription.includes('Unverified');
-    
-    return {
+  async verifyBPMNCompliance(assetData: TransactionContext): Promise<ZKPretVerificationResult> {
+    let conformance;
+    try {
+      conformance = bpmnConformance.check(assetData);
+    } catch (error: any) {
+      return { verified: false, score: 0, proof: '', timestamp: Date.now(), error: error.message };
+    }
+
+    const { processId, observed, fitness, deviations } = conformance;
+    const verified = fitness >= DEFAULT_MINIMUM_FITNESS;
+    const result = await this.prove('BPMN', { processId, observed, fitness, deviations }, () => ({
       verified,
-      score: verified ? 85 : 0,
+      score: conformance.score,
       proof: verified ? 'mock-bpmn-proof-' + Date.now() : '',
       timestamp: Date.now()
-    };
+    }));
+    return { ...result, score: result.score ?? conformance.score };
   }
 
   /**
    * ACTUS Risk Assessment Integration (Rule 6)
-   * Mock implementation - replace with actual ZK PRET verification
+   * The asset is verified when its risk score is at most the policy's complianceThresholds.riskScore.maximum.
    */
-  async assessACTUSRisk(assetData: any): Promise<ZKPretVerificationResult> {
-    // Mock ACTUS risk assessment
-    const riskScore = assetData.interestRate > 1500 ? 800 : 300; // High interest = high risk
-    
-    return {
-      verified: riskScore <= 500,
+  async assessACTUSRisk(assetData: TransactionContext, maximumRiskScore: number = DEFAULT_MAXIMUM_RISK_SCORE): Promise<ZKPretVerificationResult> {
+    let analysis;
+    try {
+      analysis = analyzeACTUSContract(assetData);
+    } catch (error: any) {
+      return { verified: false, score: 1000, proof: '', timestamp: Date.now(), error: error.message };
+    }
+
+    // The verifier proves the projection; the risk score it attests comes from the ACTUS engine
+    const { terms, riskScore, liquidityScore } = analysis;
+    const result = await this.prove('ACTUS', { assetData, terms, riskScore, liquidityScore, maximumRiskScore }, () => ({
+      verified: riskScore <= maximumRiskScore,
       score: riskScore,
       proof: 'mock-actus-proof-' + Date.now(),
       timestamp: Date.now()
-    };
+    }));
+    return { ...result, score: result.score ?? riskScore };
   }
 
   /**
    * DCSA Trade Document Verification (Rule 7)
-   * Mock implementation - replace with actual ZK PRET verification
+   * The DCSA documents are validated against the asset first; only a consistent set is sent for proving.
    */
-  async verifyDCSADocuments(documentHash: string, tradeDocuments: string[]): Promise<ZKPretVerificationResult> {
-    // Mock DCSA verification
-    const verified = documentHash !== '0x0000000000000000000000000000000000000000' && tradeDocuments.length > 0;
-    
-    return {
-      verified,
-      score: verified ? 90 : 0,
-      proof: verified ? 'mock-dcsa-proof-' + Date.now() : '',
+  async verifyDCSADocuments(
+    documentHash: string,
+    tradeDocuments: string[],
+    assetData: TransactionContext = {},
+    requirements?: DCSARequirements
+  ): Promise<ZKPretVerificationResult> {
+    const verification = dcsaDocuments.verify({ ...assetData, documentHash, tradeDocuments }, requirements);
+    if (!verification.verified) {
+      return { verified: false, score: 0, proof: '', timestamp: Date.now(), error: verification.reason };
+    }
+
+    const documents = verification.documents.map(({ name, type, reference, hash }) => ({ name, type, reference, hash }));
+    return this.prove('DCSA', { documentHash, tradeDocuments, documents }, () => ({
+      verified: true,
+      score: 90,
+      proof: 'mock-dcsa-proof-' + Date.now(),
       timestamp: Date.now()
-    };
+    }));
+  }
+
+  /**
+   * Reuse a cached proof for the same input, otherwise run the configured verifier process, or
+   * the simulation when the mode calls for it
+   */
+  private async prove(type: ZKPretVerifierType, input: any, mock: () => ZKPretVerificationResult): Promise<ZKPretVerificationResult> {
+    const { source } = this.verifierStatus(type);
+    return this.proofCache.getOrCompute(type, input, async () => {
+      if (source === 'mock') {
+        return { ...mock(), source: 'mock' };
+      }
+      const result = await this.bridge.verify(type, input);
+      if (result.error) {
+        console.warn(`⚠️ ZK PRET ${type}: ${result.error}`);
+      }
+      return result;
+    }, source);
   }
 
   /**
    * Comprehensive metadata scoring for FORTE Rule 9
+   * Weights and partial credit come from the scoring model; components weighted 0 for the asset type are not verified.
    */
-  async calculateMetadataScore(assetData: any): Promise<{
+  async calculateMetadataScore(assetData: TransactionContext, model?: MetadataScoringModel, documentRequirements?: DCSARequirements): Promise<{
     gleifScore: number;
     bpmnScore: number;
     actuarialScore: number;
     dcsaScore: number;
     financialScore: number;
     totalScore: number;
+    components: MetadataComponentScore[];
   }> {
     const scores = {
       gleifScore: 0,
@@ -99,35 +229,53 @@ export class ZKPretIntegrationManager {
       actuarialScore: 0,
       dcsaScore: 0,
       financialScore: 0,
-      totalScore: 0
+      totalScore: 0,
+      components: [] as MetadataComponentScore[]
+    };
+    const weights = resolveScoringModel(model, assetData.assetType);
+    const score = async (component: MetadataComponent, verify: () => Promise<{ input: number | string | undefined; detail: string }>) => {
+      if (weights[component].weight === 0) return scoreComponent(component, weights[component], undefined, '');
+      const { input, detail } = await verify();
+      return scoreComponent(component, weights[component], input, detail);
     };
 
     try {
-      // GLEIF Score (0-25 points)
-      const gleifResult = await this.verifyGLEIF(assetData.legalEntityIdentifier || '', assetData.corporateName || '');
-      scores.gleifScore = gleifResult.verified ? 25 : 0;
+      const gleif = await score('gleif', async () => {
+        const result = await this.verifyGLEIF(assetData.legalEntityIdentifier || '', assetData.corporateName || '');
+        return { input: result.verified ? 1 : 0, detail: result.verified ? 'LEI verified' : `LEI not verified${result.error ? ` (${result.error})` : ''}` };
+      });
+
+      const bpmn = await score('bpmn', async () => {
+        const result = await this.verifyBPMNCompliance(assetData);
+        const fitness = (result.score || 0) / 100;
+        return { input: fitness, detail: result.error ? `no conformance result (${result.error})` : `process fitness ${fitness}` };
+      });
 
-      // BPMN Score (0-20 points)
-      const bpmnResult = await this.verifyBPMNCompliance(assetData.assetDescription || '', assetData.assetDescription || '');
-      scores.bpmnScore = bpmnResult.verified ? 20 : 10;
+      const actus = await score('actus', async () => {
+        const result = await this.assessACTUSRisk(assetData);
+        const riskScore = result.score ?? 1000;
+        return { input: riskScore, detail: result.error ? `no cash-flow analysis (${result.error})` : `risk score ${riskScore}` };
+      });
 
-      // ACTUS Score (0-20 points)
-      const actusResult = await this.assessACTUSRisk(assetData);
-      scores.actuarialScore = Math.max(0, 20 - Math.floor((actusResult.score || 500) * 20 / 1000));
+      const dcsa = await score('dcsa', async () => {
+        const result = await this.verifyDCSADocuments(assetData.documentHash || '', assetData.tradeDocuments || [], assetData, documentRequirements);
+        return { input: result.verified ? 1 : 0, detail: result.verified ? 'trade documents verified' : `trade documents not verified${result.error ? ` (${result.error})` : ''}` };
+      });
 
-      // DCSA Score (0-15 points)
-      const dcsaResult = await this.verifyDCSADocuments(assetData.documentHash || '', assetData.tradeDocuments || []);
-      scores.dcsaScore = dcsaResult.verified ? 15 : 8;
+      const financial = await score('financial', async () => ({
+        input: assetData.creditRating,
+        detail: assetData.creditRating ? `rating ${assetData.creditRating}` : 'unrated'
+      }));
 
-      // Financial Score (0-20 points) - Based on credit rating
-      const creditScoreMap: { [key: string]: number } = {
-        'AAA': 20, 'AA': 19, 'A': 18, 'BBB': 15, 'BB': 12, 'B': 8, 'CCC': 5, 'CC': 3, 'C': 1, 'D': 0
-      };
-      scores.financialScore = creditScoreMap[assetData.creditRating] || 10;
+      scores.components = [gleif, bpmn, actus, dcsa, financial];
+      scores.gleifScore = gleif.points;
+      scores.bpmnScore = bpmn.points;
+      scores.actuarialScore = actus.points;
+      scores.dcsaScore = dcsa.points;
+      scores.financialScore = financial.points;
 
       // Calculate total
-      scores.totalScore = scores.gleifScore + scores.bpmnScore + scores.actuarialScore + 
-                         scores.dcsaScore + scores.financialScore;
+      scores.totalScore = scores.components.reduce((total, component) => total + component.points, 0);
 
     } catch (error) {
       console.error('Error calculating metadata score:', error);
@@ -138,71 +286,32 @@ export class ZKPretIntegrationManager {
 
   /**
    * Optimal fraction calculation for FORTE Rule 8
+   * Investor-demand model in FractionOptimizer.ts; settings come from the policy and the asset's investor base.
    */
-  calculateOptimalFractions(principalAmount: number, assetType: string): {
-    optimalCount: number;
-    minimumSize: number;
-    maximumSize: number;
-    liquidityFactor: number;
-  } {
-    const assetTypeMultipliers: { [key: string]: number } = {
-      'SUPPLY_CHAIN_INVOICE': 1000,
-      'EQUIPMENT_FINANCE': 10000,
-      'TRADE_FINANCE': 5000,
-      'WORKING_CAPITAL': 2000,
-      'COMMERCIAL_REAL_ESTATE': 25000,
-      'CORPORATE_BONDS': 1000,
-      'STRUCTURED_PRODUCTS': 50000
-    };
-
-    const multiplier = assetTypeMultipliers[assetType] || 1000;
-    let optimalCount = Math.floor(principalAmount / multiplier);
-
-    // Ensure reasonable bounds
-    optimalCount = Math.max(10, Math.min(10000, optimalCount));
-
-    const minimumSize = Math.floor(principalAmount / optimalCount);
-    const maximumSize = minimumSize * 10;
-
-    // Liquidity factor based on sweet spot analysis
-    const liquidityFactor = (optimalCount >= 100 && optimalCount <= 5000) ? 1.5 : 1.0;
-
-    return {
-      optimalCount,
-      minimumSize,
-      maximumSize,
-      liquidityFactor
-    };
+  calculateOptimalFractions(principalAmount: number, settings: FractionOptimizationSettings): FractionOptimization {
+    return optimizeFractions(principalAmount, settings);
   }
 
   /**
    * Check metadata threshold for FORTE Rule 12
+   * The required score comes from the policy's metadataScore thresholds table (see MetadataThresholds.ts).
    */
-  async checkMetadataThreshold(assetData: any): Promise<{
+  async checkMetadataThreshold(assetData: TransactionContext, metadataPolicy?: MetadataScorePolicy, documentRequirements?: DCSARequirements): Promise<{
     meetsThreshold: boolean;
     currentScore: number;
     requiredScore: number;
+    tier: string;
+    adjustments: { name: string; add: number }[];
+    explanation: string;
   }> {
-    const scores = await this.calculateMetadataScore(assetData);
+    const scores = await this.calculateMetadataScore(assetData, metadataPolicy?.scoringModel, documentRequirements);
     const currentScore = scores.totalScore;
-
-    // Calculate required score based on asset type and principal amount
-    let requiredScore = 70; // Base requirement
-
-    if (assetData.principalAmount >= 10000000) requiredScore = 95; // $10M+
-    else if (assetData.principalAmount >= 5000000) requiredScore = 85; // $5M+
-    else if (assetData.principalAmount >= 1000000) requiredScore = 75; // $1M+
-
-    // Adjust for complex asset types
-    if (assetData.assetType === 'STRUCTURED_PRODUCTS') requiredScore += 5;
-    if (assetData.assetType === 'TRADE_FINANCE') requiredScore += 3;
-
-    requiredScore = Math.min(100, requiredScore);
+    const threshold = resolveMetadataThreshold(metadataPolicy, assetData);
 
     return {
-      meetsThreshold: currentScore >= requiredScore,
+      meetsThreshold: currentScore >= threshold.requiredScore,
       currentScore,
-      requiredScore
+      ...threshold
     };
   }
 }
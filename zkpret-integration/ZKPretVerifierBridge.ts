@@ -0,0 +1,181 @@
+/**
+ * ZK PRET verifier process bridge
+ * Runs the verifier scripts configured in a policy's `zkPretIntegrations` block as child processes.
+ *
+ * Contract: the bridge writes one JSON request to the verifier's stdin
+ *   { "protocol": "forte-zkpret/1", "verifier": "GLEIF", "requestId": "...", "input": { ... } }
+ * and the verifier prints one result line to stdout (any other output is treated as logging)
+ *   ZKPRET_RESULT { "verified": true, "score": 100, "proof": "..." | { ... }, "error"?: "..." }
+ */
+
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { existsSync } from 'fs';
+import { extname, resolve } from 'path';
+import type { ZKPretVerificationResult, ZKPretVerifierType } from './ZKPretAdapter.ts';
+
+export const ZKPRET_PROTOCOL = 'forte-zkpret/1';
+export const ZKPRET_RESULT_PREFIX = 'ZKPRET_RESULT ';
+
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_MAX_CONCURRENCY = 2;
+/** Output kept for error messages once a verifier has printed this much */
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+export interface ZKPretVerifierConfig {
+  verifierPath: string;
+  rules?: string[];
+  /** Overrides FORTE_ZKPRET_TIMEOUT_MS for this verifier */
+  timeoutMs?: number;
+}
+
+export interface ZKPretVerifierBridgeOptions {
+  /** Default per-run timeout (FORTE_ZKPRET_TIMEOUT_MS, default 120s) */
+  timeoutMs?: number;
+  /** Verifier processes allowed to run at once (FORTE_ZKPRET_MAX_CONCURRENCY, default 2) */
+  maxConcurrency?: number;
+}
+
+export class ZKPretVerifierBridge {
+  private options: ZKPretVerifierBridgeOptions;
+  private verifiers = new Map<ZKPretVerifierType, ZKPretVerifierConfig>();
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  /** Options left unset are read from the environment on first use */
+  constructor(options: ZKPretVerifierBridgeOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Register the verifiers from a policy's zkPretIntegrations block. FORTE_ZKPRET_VERIFIER_<TYPE>
+   * replaces a configured verifierPath, e.g. to point every verifier at the stub.
+   */
+  configure(integrations: { [type: string]: ZKPretVerifierConfig }): void {
+    for (const [type, config] of Object.entries(integrations || {})) {
+      const verifierPath = process.env[`FORTE_ZKPRET_VERIFIER_${type}`] || config.verifierPath;
+      this.verifiers.set(type as ZKPretVerifierType, { ...config, verifierPath });
+    }
+  }
+
+  verifierPath(type: ZKPretVerifierType): string | undefined {
+    return process.env[`FORTE_ZKPRET_VERIFIER_${type}`] || this.verifiers.get(type)?.verifierPath;
+  }
+
+  /** True when a verifier script is configured for the type and exists on disk */
+  isAvailable(type: ZKPretVerifierType): boolean {
+    const path = this.verifierPath(type);
+    return !!path && existsSync(resolve(path));
+  }
+
+  /**
+   * Run the verifier for `type` on `input`, waiting for a free slot first. Failures (missing
+   * script, timeout, crash, malformed output) are returned as unverified results, never thrown.
+   */
+  async verify(type: ZKPretVerifierType, input: any): Promise<ZKPretVerificationResult> {
+    const path = this.verifierPath(type);
+    if (!path || !existsSync(resolve(path))) {
+      return this.failure(`No ${type} verifier found at ${path || '(not configured)'}`);
+    }
+
+    await this.acquire();
+    try {
+      return await this.run(type, resolve(path), input);
+    } finally {
+      this.release();
+    }
+  }
+
+  private run(type: ZKPretVerifierType, path: string, input: any): Promise<ZKPretVerificationResult> {
+    const timeoutMs = this.verifiers.get(type)?.timeoutMs
+      || this.options.timeoutMs
+      || Number(process.env.FORTE_ZKPRET_TIMEOUT_MS)
+      || DEFAULT_TIMEOUT_MS;
+    const requestId = randomUUID();
+    // JavaScript verifiers run on this Node binary; anything else must be executable itself
+    const [command, args] = ['.js', '.mjs', '.cjs'].includes(extname(path).toLowerCase())
+      ? [process.execPath, [path]]
+      : [path, []];
+
+    return new Promise(resolveResult => {
+      let stdout = '';
+      let stderr = '';
+      let settled = false;
+      const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      const settle = (result: ZKPretVerificationResult) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        resolveResult(result);
+      };
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        settle(this.failure(`${type} verifier timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      child.stdout.on('data', chunk => { if (stdout.length < MAX_OUTPUT_BYTES) stdout += chunk; });
+      child.stderr.on('data', chunk => { if (stderr.length < MAX_OUTPUT_BYTES) stderr += chunk; });
+      child.on('error', error => settle(this.failure(`${type} verifier could not start: ${error.message}`)));
+      child.on('close', code => {
+        const line = stdout.split(/\r?\n/).reverse().find(candidate => candidate.startsWith(ZKPRET_RESULT_PREFIX));
+        if (!line) {
+          const detail = stderr.trim().split('\n').pop() || `exit code ${code}`;
+          settle(this.failure(`${type} verifier produced no result (${detail})`));
+          return;
+        }
+        settle(this.parseResult(type, line.slice(ZKPRET_RESULT_PREFIX.length)));
+      });
+
+      // A verifier that exits without reading stdin closes the pipe; its result still counts
+      child.stdin.on('error', () => {});
+      child.stdin.end(JSON.stringify({ protocol: ZKPRET_PROTOCOL, verifier: type, requestId, input }));
+    });
+  }
+
+  private parseResult(type: ZKPretVerifierType, json: string): ZKPretVerificationResult {
+    let output: any;
+    try {
+      output = JSON.parse(json);
+    } catch (error: any) {
+      return this.failure(`${type} verifier printed malformed JSON: ${error.message}`);
+    }
+    if (typeof output?.verified !== 'boolean') {
+      return this.failure(`${type} verifier result has no boolean "verified"`);
+    }
+
+    const proof = typeof output.proof === 'string' ? output.proof : output.proof ? JSON.stringify(output.proof) : '';
+    return {
+      verified: output.verified && !!proof,
+      score: typeof output.score === 'number' ? output.score : undefined,
+      proof,
+      timestamp: Date.now(),
+      error: output.error || (output.verified && !proof ? `${type} verifier reported success without a proof` : undefined),
+      source: 'process'
+    };
+  }
+
+  private failure(error: string): ZKPretVerificationResult {
+    return { verified: false, proof: '', timestamp: Date.now(), error, source: 'process' };
+  }
+
+  private async acquire(): Promise<void> {
+    const limit = this.options.maxConcurrency
+      || Number(process.env.FORTE_ZKPRET_MAX_CONCURRENCY)
+      || DEFAULT_MAX_CONCURRENCY;
+    if (this.running < limit) {
+      this.running++;
+      return;
+    }
+    // The releasing run hands its slot straight to the next waiter
+    await new Promise<void>(resume => this.waiting.push(resume));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+}
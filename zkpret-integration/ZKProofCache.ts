@@ -0,0 +1,187 @@
+/**
+ * ZK PRET proof cache
+ * Reuses verification results keyed by verifier type, proof source and a hash of the verifier input,
+ * so one checkRules call (rules plus metadata scoring) runs each verification once. Entries expire
+ * after a per-type TTL, and a verification hook must accept a cached proof before it is reused.
+ */
+
+import { createHash } from 'crypto';
+import { contentHash } from '../forte-engine/Hashing.ts';
+import type { ZKPretVerificationResult, ZKPretVerifierType } from './ZKPretAdapter.ts';
+
+/** Where a verification result comes from: a verifier process or the built-in simulation */
+export type ProofSource = 'process' | 'mock';
+
+/** Default time-to-live per verification type; market-sensitive ACTUS risk expires soonest */
+export const DEFAULT_PROOF_TTL_MS: { [type in ZKPretVerifierType]: number } = {
+  GLEIF: 60 * 60 * 1000,
+  BPMN: 15 * 60 * 1000,
+  ACTUS: 5 * 60 * 1000,
+  DCSA: 30 * 60 * 1000
+};
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Decides whether a cached result may be reused by a caller that currently gets its proofs from
+ * `source`. Returning false evicts the entry and re-runs the verification.
+ */
+export type ProofVerificationHook = (
+  type: ZKPretVerifierType,
+  input: any,
+  result: ZKPretVerificationResult,
+  source: ProofSource
+) => boolean | Promise<boolean>;
+
+export interface ProofCacheStats {
+  hits: number;
+  misses: number;
+  expired: number;
+  /** Cached proofs the verification hook refused */
+  rejected: number;
+  evicted: number;
+  entries: number;
+  byType: { [type: string]: { hits: number; misses: number } };
+}
+
+export interface ZKProofCacheOptions {
+  /** Per-type TTL overrides; FORTE_ZKPRET_CACHE_TTL_<TYPE>_MS also applies. 0 disables caching for a type. */
+  ttlMs?: Partial<{ [type in ZKPretVerifierType]: number }>;
+  maxEntries?: number;
+  verificationHook?: ProofVerificationHook;
+}
+
+interface CacheEntry {
+  type: ZKPretVerifierType;
+  source: ProofSource;
+  input: any;
+  result: ZKPretVerificationResult;
+  expiresAt: number;
+}
+
+/** Results of the built-in simulation, which prove nothing */
+export function isMockProof(result: ZKPretVerificationResult): boolean {
+  return result.source === 'mock' || (result.proof || '').startsWith('mock-');
+}
+
+/**
+ * Default hook: a verified result must carry a proof; simulated proofs are only reused while the
+ * caller is itself simulating; and a structured proof that commits to its input (an `inputHash`,
+ * as the stub verifier emits) must commit to this input. Opaque verifier proofs cannot be checked
+ * here; install a real verifier with setVerificationHook.
+ */
+export function defaultProofVerificationHook(_type: ZKPretVerifierType, input: any, result: ZKPretVerificationResult, source: ProofSource): boolean {
+  if (result.verified && !result.proof) return false;
+  if (isMockProof(result)) return source === 'mock';
+  let proof: any;
+  try {
+    proof = JSON.parse(result.proof || '');
+  } catch {
+    return true;
+  }
+  if (typeof proof?.inputHash !== 'string') return true;
+  return proof.inputHash === createHash('sha256').update(JSON.stringify(input ?? {})).digest('hex');
+}
+
+export class ZKProofCache {
+  private options: ZKProofCacheOptions;
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<ZKPretVerificationResult>>();
+  private counters: Omit<ProofCacheStats, 'entries' | 'byType'> = { hits: 0, misses: 0, expired: 0, rejected: 0, evicted: 0 };
+  private byType: ProofCacheStats['byType'] = {};
+
+  constructor(options: ZKProofCacheOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Replace the hook that validates cached proofs before reuse, e.g. with a real ZK proof verifier
+   */
+  setVerificationHook(hook: ProofVerificationHook): void {
+    this.options = { ...this.options, verificationHook: hook };
+  }
+
+  ttl(type: ZKPretVerifierType): number {
+    const configured = this.options.ttlMs?.[type] ?? process.env[`FORTE_ZKPRET_CACHE_TTL_${type}_MS`];
+    return configured !== undefined && configured !== '' ? Number(configured) : DEFAULT_PROOF_TTL_MS[type];
+  }
+
+  /**
+   * Cached result for (type, source, input) if it is fresh and passes the verification hook, otherwise
+   * the result of `compute`. Identical requests already running share that run. Only results that carry
+   * a proof are cached, so failed or errored runs are retried next time.
+   */
+  async getOrCompute(
+    type: ZKPretVerifierType,
+    input: any,
+    compute: () => Promise<ZKPretVerificationResult>,
+    source: ProofSource = 'process'
+  ): Promise<ZKPretVerificationResult> {
+    const ttl = this.ttl(type);
+    if (!(ttl > 0)) {
+      this.count(type, 'misses');
+      return compute();
+    }
+
+    // Switching between verifier processes and the simulation must not serve the other's proofs
+    const key = contentHash({ type, source, input });
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.counters.expired++;
+    } else if (entry) {
+      const hook = this.options.verificationHook || defaultProofVerificationHook;
+      if (await hook(type, entry.input, entry.result, source)) {
+        this.count(type, 'hits');
+        return entry.result;
+      }
+      this.entries.delete(key);
+      this.counters.rejected++;
+    }
+
+    const running = this.inFlight.get(key);
+    if (running) {
+      this.count(type, 'hits');
+      return running;
+    }
+
+    this.count(type, 'misses');
+    const pending = compute().then(result => {
+      if (result.proof) this.store(key, { type, source, input, result, expiresAt: Date.now() + ttl });
+      return result;
+    }).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, pending);
+    return pending;
+  }
+
+  stats(): ProofCacheStats {
+    return {
+      ...this.counters,
+      entries: this.entries.size,
+      byType: Object.fromEntries(Object.entries(this.byType).map(([type, counts]) => [type, { ...counts }]))
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.counters = { hits: 0, misses: 0, expired: 0, rejected: 0, evicted: 0 };
+    this.byType = {};
+  }
+
+  private store(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    const maxEntries = this.options.maxEntries || DEFAULT_MAX_ENTRIES;
+    while (this.entries.size > maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+      this.counters.evicted++;
+    }
+  }
+
+  private count(type: ZKPretVerifierType, counter: 'hits' | 'misses'): void {
+    this.counters[counter]++;
+    this.byType[type] = this.byType[type] || { hits: 0, misses: 0 };
+    this.byType[type][counter]++;
+  }
+}
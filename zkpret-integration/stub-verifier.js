@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+
+/**
+ * Stub ZK PRET verifier implementing the forte-zkpret/1 process contract (see ZKPretVerifierBridge.ts)
+ * Produces deterministic, clearly fake proofs so the process bridge can be exercised without the
+ * ZK PRET toolchain:
+ *   FORTE_ZKPRET_VERIFIER_GLEIF=zkpret-integration/stub-verifier.js FORTE_ZKPRET_MODE=process tsx demo.ts pass
+ *
+ * Test hooks: an input containing "STUB_FAIL" is not verified, "STUB_CRASH" exits without a result,
+ * and FORTE_STUB_VERIFIER_DELAY_MS delays the answer (e.g. to exercise timeouts).
+ */
+
+import { createHash } from 'crypto';
+
+const PROTOCOL = 'forte-zkpret/1';
+
+function readStdin() {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf-8');
+    process.stdin.on('data', chunk => { data += chunk; });
+    process.stdin.on('end', () => resolve(data));
+    process.stdin.on('error', reject);
+  });
+}
+
+/** Same outcomes as the built-in simulations, so switching to the stub does not change decisions */
+function evaluate(verifier, input) {
+  switch (verifier) {
+    case 'GLEIF':
+      return { verified: true, score: 100 };
+    case 'BPMN': {
+      const fitness = typeof input.fitness === 'number' ? input.fitness : 0;
+      return { verified: fitness >= 0.8, score: Math.round(fitness * 100) };
+    }
+    case 'ACTUS': {
+      const riskScore = typeof input.riskScore === 'number' ? input.riskScore : 1000;
+      return { verified: riskScore <= 500, score: riskScore };
+    }
+    case 'DCSA': {
+      const verified = input.documentHash !== '0x0000000000000000000000000000000000000000' && (input.tradeDocuments || []).length > 0;
+      return { verified, score: verified ? 90 : 0 };
+    }
+    default:
+      throw new Error(`Unsupported verifier ${verifier}`);
+  }
+}
+
+const request = JSON.parse(await readStdin());
+if (request.protocol !== PROTOCOL) {
+  console.error(`Unsupported protocol ${request.protocol}`);
+  process.exit(2);
+}
+console.log(`stub-verifier: ${request.verifier} request ${request.requestId}`);
+
+const serializedInput = JSON.stringify(request.input ?? {});
+if (serializedInput.includes('STUB_CRASH')) {
+  console.error('stub-verifier: simulated crash');
+  process.exit(1);
+}
+
+const delayMs = Number(process.env.FORTE_STUB_VERIFIER_DELAY_MS) || 0;
+if (delayMs > 0) {
+  await new Promise(resolve => setTimeout(resolve, delayMs));
+}
+
+const outcome = serializedInput.includes('STUB_FAIL') ? { verified: false, score: 0 } : evaluate(request.verifier, request.input ?? {});
+const inputHash = createHash('sha256').update(serializedInput).digest('hex');
+const result = {
+  verified: outcome.verified,
+  score: outcome.score,
+  proof: outcome.verified || request.verifier === 'ACTUS'
+    ? { type: 'stub', protocol: PROTOCOL, verifier: request.verifier, requestId: request.requestId, inputHash }
+    : '',
+  error: outcome.verified ? undefined : `${request.verifier} stub verification failed`
+};
+console.log(`ZKPRET_RESULT ${JSON.stringify(result)}`);